@@ -0,0 +1,30 @@
+/**
+ * Rebuild data/geonames/cities15000.tsv (the offline reverse-geocoding gazetteer) from a
+ * GeoNames dump: https://download.geonames.org/export/dump/cities15000.zip (unzipped).
+ * GeoNames data is licensed CC BY 4.0 (https://www.geonames.org).
+ *
+ * Usage: node scripts/build-gazetteer.js path/to/cities15000.txt
+ */
+
+const path = require('path');
+const fs = require('fs');
+
+const input = process.argv[2];
+if (!input) {
+  console.error('Usage: node scripts/build-gazetteer.js path/to/cities15000.txt');
+  process.exit(1);
+}
+
+// GeoNames dump columns: 0 geonameid, 1 name, 4 latitude, 5 longitude, 8 country code, 14 population
+const rows = fs
+  .readFileSync(input, 'utf8')
+  .split('\n')
+  .filter(Boolean)
+  .map((line) => line.split('\t'))
+  .map((c) => [Number(c[0]), c[1], c[8], Number(c[4]), Number(c[5]), Number(c[14])])
+  .sort((a, b) => a[0] - b[0]);
+
+const out = ['# geonameid\tname\tcountry_code\tlatitude\tlongitude\tpopulation', ...rows.map((r) => r.join('\t'))];
+const target = path.join(__dirname, '../data/geonames/cities15000.tsv');
+fs.writeFileSync(target, out.join('\n') + '\n');
+console.log(`Wrote ${rows.length} places to ${target}`);
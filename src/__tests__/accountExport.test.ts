@@ -0,0 +1,111 @@
+/**
+ * Account export archive tests
+ * Verify the streamed .tar.gz contains chunked table rows, assets and a manifest
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { PassThrough, Readable } from 'stream';
+import tar from 'tar-stream';
+
+const USER_ID = 'a0b1c2d3-e4f5-6789-abcd-ef0123456789';
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glimps-export-test-'));
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn(),
+  closePool: jest.fn(),
+}));
+
+// Two memories (one with a missing asset) and one event; every other table empty
+const tableRows: Record<string, Record<string, unknown>[]> = {
+  users: [{ id: USER_ID, email: 'me@example.com' }],
+  memories: [
+    { id: 'mem-1', user_id: USER_ID, storage_path: 'voice/one.m4a', transcript: 'hello' },
+    { id: 'mem-2', user_id: USER_ID, storage_path: 'image/missing.jpg', transcript: 'photo' },
+  ],
+  events: [{ id: 'evt-1', user_id: USER_ID, title: 'Morning' }],
+};
+
+jest.mock('../db/repositories/accountDataRepository', () => ({
+  accountDataRepository: {
+    fetchTablePage: jest.fn(async (table: string, _userId: string, afterKey: string | null, limit: number) => {
+      const rows = tableRows[table] ?? [];
+      const start = afterKey ? Number(afterKey) : 0;
+      const page = rows.slice(start, start + limit);
+      return { rows: page, nextKey: start + limit < rows.length ? String(start + limit) : null };
+    }),
+  },
+}));
+
+jest.mock('../services/account/exportFormat', () => ({
+  ...jest.requireActual('../services/account/exportFormat'),
+  EXPORT_CHUNK_ROWS: 1, // force multiple chunk files
+}));
+
+jest.mock('../services/storage/storageService', () => {
+  const realFs = require('fs');
+  const realPath = require('path');
+  const abs = (p: string) => realPath.join(tmpDir, p);
+  return {
+    storageService: {
+      getFileSize: jest.fn(async (p: string) => realFs.statSync(abs(p)).size),
+      openReadStream: jest.fn(async (p: string) => realFs.createReadStream(abs(p))),
+    },
+  };
+});
+
+import { accountExportService } from '../services/account/accountExportService';
+
+async function readArchive(buffer: Buffer): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+  const extract = tar.extract();
+  extract.on('entry', (header, stream, next) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (c) => chunks.push(c as Buffer));
+    stream.on('end', () => {
+      files.set(header.name, Buffer.concat(chunks));
+      next();
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    extract.on('finish', resolve);
+    extract.on('error', reject);
+    Readable.from(zlib.gunzipSync(buffer)).pipe(extract);
+  });
+  return files;
+}
+
+describe('AccountExportService.writeArchive', () => {
+  beforeAll(() => {
+    fs.mkdirSync(path.join(tmpDir, 'voice'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'voice/one.m4a'), 'audio-bytes');
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('streams table chunks, assets and a versioned manifest', async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (c: Buffer) => chunks.push(c));
+
+    const manifest = await accountExportService.writeArchive(USER_ID, output);
+    const files = await readArchive(Buffer.concat(chunks));
+
+    expect(manifest).toMatchObject({ format: 'glimps-export', version: 1, userId: USER_ID });
+    expect(manifest.tables.memories).toEqual({
+      rows: 2,
+      files: ['data/memories/000001.jsonl', 'data/memories/000002.jsonl'],
+    });
+    expect(manifest.tables.memory_tags).toEqual({ rows: 0, files: [] });
+    expect(manifest.assets).toEqual({ count: 1, bytes: 11, missing: ['mem-2'] });
+
+    expect(JSON.parse(files.get('data/memories/000002.jsonl')!.toString())).toMatchObject({ id: 'mem-2' });
+    expect(files.get('assets/mem-1.m4a')!.toString()).toBe('audio-bytes');
+    expect(JSON.parse(files.get('manifest.json')!.toString())).toEqual(manifest);
+  });
+});
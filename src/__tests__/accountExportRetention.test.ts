@@ -0,0 +1,88 @@
+/**
+ * Account export retention tests
+ * Verify a user gets at most one active export and expired archives are deleted with their row
+ */
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn(async (fn: (client: unknown) => unknown) => fn({})),
+  closePool: jest.fn(),
+}));
+
+const mockAccountExportRepository = {
+  create: jest.fn(),
+  findActive: jest.fn(),
+  listExpiredInternal: jest.fn(),
+  deleteInternal: jest.fn(),
+};
+jest.mock('../db/repositories', () => ({
+  accountDataRepository: {},
+  accountExportRepository: mockAccountExportRepository,
+}));
+
+const mockStorageService = { deleteFile: jest.fn() };
+jest.mock('../services/storage/storageService', () => ({ storageService: mockStorageService }));
+
+const mockJobQueue = { enqueue: jest.fn() };
+jest.mock('../services/jobs/jobQueue', () => ({ jobQueue: mockJobQueue }));
+
+import { accountExportService } from '../services/account/accountExportService';
+import { config } from '../config';
+import { AccountExport, ExportStatus, JobType } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function accountExport(overrides: Partial<AccountExport> = {}): AccountExport {
+  return {
+    id: 'exp-1',
+    userId: 'u1',
+    status: ExportStatus.Pending,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('AccountExportService retention', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('enqueues a build for a new export', async () => {
+    const created = accountExport();
+    mockAccountExportRepository.create.mockResolvedValueOnce(created);
+
+    expect(await accountExportService.requestExport('u1')).toBe(created);
+    expect(mockJobQueue.enqueue).toHaveBeenCalledWith(
+      JobType.ExportAccount,
+      expect.objectContaining({ userId: 'u1', payload: { exportId: 'exp-1' } })
+    );
+  });
+
+  it('returns the active export instead of starting another', async () => {
+    const active = accountExport({ id: 'exp-0', status: ExportStatus.Running });
+    mockAccountExportRepository.create.mockResolvedValueOnce(null);
+    mockAccountExportRepository.findActive.mockResolvedValueOnce(active);
+
+    expect(await accountExportService.requestExport('u1')).toBe(active);
+    expect(mockJobQueue.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('deletes expired archives and their rows', async () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    mockAccountExportRepository.listExpiredInternal
+      .mockResolvedValueOnce([
+        accountExport({ id: 'exp-1', status: ExportStatus.Completed, storagePath: 'exports/u1/exp-1.tar.gz' }),
+        accountExport({ id: 'exp-2', status: ExportStatus.Failed }),
+      ])
+      .mockResolvedValueOnce([]);
+
+    expect(await accountExportService.purgeExpiredInternal(now)).toBe(2);
+
+    const [cutoff] = mockAccountExportRepository.listExpiredInternal.mock.calls[0] as [Date];
+    expect(cutoff.getTime()).toBe(now.getTime() - config.exportRetentionDays * DAY_MS);
+    expect(mockStorageService.deleteFile).toHaveBeenCalledTimes(1);
+    expect(mockStorageService.deleteFile).toHaveBeenCalledWith('exports/u1/exp-1.tar.gz');
+    expect(mockAccountExportRepository.deleteInternal).toHaveBeenCalledWith('exp-1');
+    expect(mockAccountExportRepository.deleteInternal).toHaveBeenCalledWith('exp-2');
+  });
+});
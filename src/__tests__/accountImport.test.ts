@@ -0,0 +1,332 @@
+/**
+ * Account import tests
+ * Verify an export archive is restored under the importing user with remapped ids,
+ * copied assets, embeddings reused only for the current model version, and renditions
+ * queued for processed photos
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import tar from 'tar-stream';
+
+const SOURCE_USER = 'a0b1c2d3-e4f5-6789-abcd-ef0123456789';
+const TARGET_USER = 'b0b1c2d3-e4f5-6789-abcd-ef0123456789';
+const MEM_KEPT = '11111111-1111-4111-8111-111111111111';
+const MEM_STALE = '22222222-2222-4222-8222-222222222222';
+const EVENT_ID = '33333333-3333-4333-8333-333333333333';
+const LABEL_ID = '44444444-4444-4444-8444-444444444444';
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'glimps-import-test-'));
+const storageDir = path.join(tmpDir, 'storage');
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn(async (fn: (client: unknown) => unknown) => fn({})),
+  closePool: jest.fn(),
+}));
+
+const inserted: Array<{ table: string; row: Record<string, any> }> = [];
+
+jest.mock('../db/repositories', () => ({
+  accountDataRepository: {
+    insertRow: jest.fn(async (table: string, row: Record<string, any>) => {
+      inserted.push({ table, row });
+    }),
+  },
+  labelRepository: {
+    findOrCreateByName: jest.fn(async (userId: string, name: string, kind: string) => ({
+      id: 'label-new', userId, name, kind,
+    })),
+  },
+  eventRepository: {
+    findById: jest.fn(async (id: string) => ({ id, title: 'Morning', summary: 'Coffee' })),
+  },
+  eventEmbeddingRepository: {
+    upsert: jest.fn(async () => undefined),
+  },
+}));
+
+jest.mock('../services/ai/embeddingService', () => ({
+  embeddingService: {
+    modelVersion: 'local-hash-v1',
+    generateEmbedding: jest.fn(async () => [0.1, 0.2]),
+  },
+}));
+
+jest.mock('../services/jobs/jobQueue', () => ({
+  jobQueue: { enqueueMemoryProcessing: jest.fn(async () => null), enqueue: jest.fn(async () => null) },
+}));
+
+jest.mock('../services/storage/storageService', () => {
+  const realFs = require('fs');
+  const realPath = require('path');
+  const abs = (p: string) => realPath.join(storageDir, p);
+  return {
+    storageService: {
+      writeStream: jest.fn(async (p: string, source: NodeJS.ReadableStream) => {
+        realFs.mkdirSync(realPath.dirname(abs(p)), { recursive: true });
+        await require('stream/promises').pipeline(source, realFs.createWriteStream(abs(p)));
+      }),
+      deleteFile: jest.fn(async () => undefined),
+    },
+  };
+});
+
+import { accountImportService } from '../services/account/accountImportService';
+import { jobQueue } from '../services/jobs/jobQueue';
+import { eventEmbeddingRepository } from '../db/repositories';
+import { JobType } from '../types';
+
+function jsonl(rows: Record<string, unknown>[]): string {
+  return rows.map((r) => JSON.stringify(r)).join('\n') + '\n';
+}
+
+async function writeArchive(file: string, entries: Record<string, string>): Promise<void> {
+  const pack = tar.pack();
+  for (const [name, body] of Object.entries(entries)) {
+    pack.entry({ name }, body);
+  }
+  pack.finalize();
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) chunks.push(chunk as Buffer);
+  fs.writeFileSync(file, zlib.gzipSync(Buffer.concat(chunks)));
+}
+
+function manifest(tables: Record<string, string[]>, overrides: Record<string, unknown> = {}): string {
+  return JSON.stringify({
+    format: 'glimps-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    userId: SOURCE_USER,
+    tables: Object.fromEntries(Object.entries(tables).map(([t, files]) => [t, { rows: 0, files }])),
+    assets: { count: 1, bytes: 5, missing: [MEM_STALE] },
+    ...overrides,
+  });
+}
+
+describe('Account import', () => {
+  beforeEach(() => {
+    inserted.length = 0;
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('restores rows under the importing user with remapped ids', async () => {
+    const archive = path.join(tmpDir, 'full.tar.gz');
+    await writeArchive(archive, {
+      'data/memories/000001.jsonl': jsonl([
+        { id: MEM_KEPT, user_id: SOURCE_USER, storage_path: 'voice/a.m4a', media_type: 'audio', processing_status: 'completed' },
+        { id: MEM_STALE, user_id: SOURCE_USER, storage_path: 'image/b.jpg', media_type: 'image', processing_status: 'completed' },
+      ]),
+      'data/memory_tags/000001.jsonl': jsonl([{ id: 'tag-1', memory_id: MEM_KEPT, tag: 'coffee' }]),
+      'data/memory_embeddings/000001.jsonl': jsonl([
+        { id: 'emb-1', memory_id: MEM_KEPT, embedding: '[0.1]', model_version: 'local-hash-v1' },
+        { id: 'emb-2', memory_id: MEM_STALE, embedding: '[0.2]', model_version: 'old-model' },
+      ]),
+      'data/labels/000001.jsonl': jsonl([{ id: LABEL_ID, user_id: SOURCE_USER, name: 'Rex', kind: 'pet' }]),
+      'data/memory_labels/000001.jsonl': jsonl([{ memory_id: MEM_KEPT, label_id: LABEL_ID }]),
+      'data/events/000001.jsonl': jsonl([{ id: EVENT_ID, user_id: SOURCE_USER, title: 'Morning' }]),
+      'data/memory_event_links/000001.jsonl': jsonl([
+        { memory_id: MEM_KEPT, event_id: EVENT_ID, relationship_type: 'primary' },
+      ]),
+      [`assets/${MEM_KEPT}.m4a`]: 'audio',
+      '../escape.txt': 'ignored',
+      'manifest.json': manifest({
+        memories: ['data/memories/000001.jsonl'],
+        memory_tags: ['data/memory_tags/000001.jsonl'],
+        memory_embeddings: ['data/memory_embeddings/000001.jsonl'],
+        labels: ['data/labels/000001.jsonl'],
+        memory_labels: ['data/memory_labels/000001.jsonl'],
+        events: ['data/events/000001.jsonl'],
+        memory_event_links: ['data/memory_event_links/000001.jsonl'],
+      }),
+    });
+
+    const result = await accountImportService.importArchive(TARGET_USER, archive);
+
+    expect(result).toMatchObject({
+      memories: 2,
+      events: 1,
+      labels: 1,
+      assetsCopied: 1,
+      missingAssets: 1,
+      embeddingsReused: 1,
+      reprocessQueued: 0,
+    });
+
+    const memories = inserted.filter((i) => i.table === 'memories').map((i) => i.row);
+    expect(memories.every((m) => m.user_id === TARGET_USER)).toBe(true);
+    expect(memories.map((m) => m.id)).not.toContain(MEM_KEPT);
+    const [kept, stale] = memories;
+    expect(kept.processing_status).toBe('completed');
+    expect(kept.storage_path).toBe(`voice/${kept.id}.m4a`);
+    expect(fs.readFileSync(path.join(storageDir, kept.storage_path), 'utf8')).toBe('audio');
+    // Stale embedding and no asset: nothing to reprocess from
+    expect(stale.processing_status).toBe('failed');
+
+    const embeddings = inserted.filter((i) => i.table === 'memory_embeddings').map((i) => i.row);
+    expect(embeddings).toHaveLength(1);
+    expect(embeddings[0].memory_id).toBe(kept.id);
+
+    const tag = inserted.find((i) => i.table === 'memory_tags')!.row;
+    expect(tag.memory_id).toBe(kept.id);
+    expect(tag.id).not.toBe('tag-1');
+
+    expect(inserted.find((i) => i.table === 'memory_labels')!.row).toMatchObject({
+      memory_id: kept.id,
+      label_id: 'label-new',
+    });
+
+    const event = inserted.find((i) => i.table === 'events')!.row;
+    expect(event.user_id).toBe(TARGET_USER);
+    expect(inserted.find((i) => i.table === 'memory_event_links')!.row).toMatchObject({
+      memory_id: kept.id,
+      event_id: event.id,
+    });
+
+    // Event had no current-model embedding, so one is generated
+    expect(eventEmbeddingRepository.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ eventId: event.id, modelVersion: 'local-hash-v1' })
+    );
+    expect(fs.existsSync(path.join(path.dirname(tmpDir), 'escape.txt'))).toBe(false);
+  });
+
+  it('queues memories with a stale embedding for reprocessing', async () => {
+    const archive = path.join(tmpDir, 'stale.tar.gz');
+    await writeArchive(archive, {
+      'data/memories/000001.jsonl': jsonl([
+        { id: MEM_STALE, user_id: SOURCE_USER, storage_path: 'image/b.jpg', media_type: 'image', processing_status: 'completed' },
+      ]),
+      'data/memory_embeddings/000001.jsonl': jsonl([
+        { id: 'emb-2', memory_id: MEM_STALE, embedding: '[0.2]', model_version: 'old-model' },
+      ]),
+      [`assets/${MEM_STALE}.jpg`]: 'jpeg',
+      'manifest.json': manifest({
+        memories: ['data/memories/000001.jsonl'],
+        memory_embeddings: ['data/memory_embeddings/000001.jsonl'],
+      }),
+    });
+
+    const result = await accountImportService.importArchive(TARGET_USER, archive);
+
+    expect(result.reprocessQueued).toBe(1);
+    expect(result.embeddingsReused).toBe(0);
+    const memory = inserted.find((i) => i.table === 'memories')!.row;
+    expect(memory.processing_status).toBe('pending');
+    expect(memory.storage_path).toBe(`image/${memory.id}.jpg`);
+    expect(jobQueue.enqueueMemoryProcessing).toHaveBeenCalledWith(memory.id, TARGET_USER, undefined, {});
+  });
+
+  it('queues renditions for photos kept as processed', async () => {
+    const archive = path.join(tmpDir, 'photo.tar.gz');
+    await writeArchive(archive, {
+      'data/memories/000001.jsonl': jsonl([
+        { id: MEM_KEPT, user_id: SOURCE_USER, storage_path: 'image/a.jpg', media_type: 'photo', processing_status: 'completed' },
+        { id: MEM_STALE, user_id: SOURCE_USER, storage_path: 'image/b.jpg', media_type: 'photo', processing_status: 'completed' },
+      ]),
+      'data/memory_embeddings/000001.jsonl': jsonl([
+        { id: 'emb-1', memory_id: MEM_KEPT, embedding: '[0.1]', model_version: 'local-hash-v1' },
+        { id: 'emb-2', memory_id: MEM_STALE, embedding: '[0.2]', model_version: 'local-hash-v1' },
+      ]),
+      [`assets/${MEM_KEPT}.jpg`]: 'jpeg',
+      'manifest.json': manifest({
+        memories: ['data/memories/000001.jsonl'],
+        memory_embeddings: ['data/memory_embeddings/000001.jsonl'],
+      }),
+    });
+
+    await accountImportService.importArchive(TARGET_USER, archive);
+
+    const [withAsset] = inserted.filter((i) => i.table === 'memories').map((i) => i.row);
+    // The photo whose asset is missing has nothing to render from
+    expect(jobQueue.enqueue).toHaveBeenCalledTimes(1);
+    expect(jobQueue.enqueue).toHaveBeenCalledWith(
+      JobType.GenerateRenditions,
+      { userId: TARGET_USER, memoryId: withAsset.id, client: {} }
+    );
+    expect(jobQueue.enqueueMemoryProcessing).not.toHaveBeenCalled();
+  });
+
+  it('never stores a storage path taken from the archive', async () => {
+    const archive = path.join(tmpDir, 'hostile.tar.gz');
+    await writeArchive(archive, {
+      'data/memories/000001.jsonl': jsonl([
+        { id: MEM_KEPT, user_id: SOURCE_USER, storage_path: '../../.env', media_type: 'text', processing_status: 'completed' },
+        { id: MEM_STALE, user_id: SOURCE_USER, storage_path: `image/${EVENT_ID}.jpg`, media_type: 'image', processing_status: 'failed' },
+      ]),
+      'data/memory_embeddings/000001.jsonl': jsonl([
+        { id: 'emb-1', memory_id: MEM_KEPT, embedding: '[0.1]', model_version: 'local-hash-v1' },
+      ]),
+      'manifest.json': manifest({
+        memories: ['data/memories/000001.jsonl'],
+        memory_embeddings: ['data/memory_embeddings/000001.jsonl'],
+      }),
+    });
+
+    const result = await accountImportService.importArchive(TARGET_USER, archive);
+
+    expect(result).toMatchObject({ memories: 2, assetsCopied: 0, missingAssets: 2 });
+    const [kept, failed] = inserted.filter((i) => i.table === 'memories').map((i) => i.row);
+    // Fresh paths under the new ids, with no file behind them
+    expect(kept).toMatchObject({ processing_status: 'completed', storage_path: `text/${kept.id}` });
+    expect(failed).toMatchObject({ processing_status: 'failed', storage_path: `image/${failed.id}.jpg` });
+    expect(fs.existsSync(path.join(storageDir, kept.storage_path))).toBe(false);
+  });
+
+  it('restores only the importable columns of archive rows', async () => {
+    const archive = path.join(tmpDir, 'extra-columns.tar.gz');
+    await writeArchive(archive, {
+      'data/memories/000001.jsonl': jsonl([{
+        id: MEM_KEPT,
+        user_id: SOURCE_USER,
+        storage_path: 'voice/a.m4a',
+        media_type: 'audio',
+        processing_status: 'completed',
+        transcript: 'Walked the dog',
+        deleted_at: '2026-01-01T00:00:00Z',
+        renditions: { thumb: '../../.env' },
+        search_vector: "'dog':3",
+      }]),
+      'data/events/000001.jsonl': jsonl([
+        { id: EVENT_ID, user_id: SOURCE_USER, title: 'Walk', deleted_at: '2026-01-01T00:00:00Z' },
+      ]),
+      [`assets/${MEM_KEPT}.m4a`]: 'audio',
+      'manifest.json': manifest({
+        memories: ['data/memories/000001.jsonl'],
+        events: ['data/events/000001.jsonl'],
+      }),
+    });
+
+    await accountImportService.importArchive(TARGET_USER, archive);
+
+    const memory = inserted.find((i) => i.table === 'memories')!.row;
+    expect(Object.keys(memory).sort()).toEqual(
+      ['id', 'media_type', 'processing_status', 'storage_path', 'transcript', 'user_id']
+    );
+    expect(inserted.find((i) => i.table === 'events')!.row).not.toHaveProperty('deleted_at');
+  });
+
+  it('rejects archives from an unknown format version', async () => {
+    const archive = path.join(tmpDir, 'future.tar.gz');
+    await writeArchive(archive, { 'manifest.json': manifest({}, { version: 99 }) });
+
+    await expect(accountImportService.importArchive(TARGET_USER, archive)).rejects.toThrow(
+      'Unsupported archive version'
+    );
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('rejects files that are not gzip archives', async () => {
+    const archive = path.join(tmpDir, 'plain.tar.gz');
+    fs.writeFileSync(archive, 'not an archive');
+
+    await expect(accountImportService.importArchive(TARGET_USER, archive)).rejects.toThrow(
+      'not a valid .tar.gz'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Capture metadata tests
+ * Verify EXIF GPS, altitude, orientation and camera are read from photos, and coordinates are
+ * named offline from the bundled gazetteer
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { readExifMetadata } from '../utils/exif';
+import { ReverseGeocodingService, reverseGeocodingService } from '../services/geo/reverseGeocodingService';
+
+function photo(exif: Record<string, Record<string, string>>, orientation?: number): Promise<Buffer> {
+  const image = sharp({ create: { width: 40, height: 20, channels: 3, background: '#468' } }).jpeg();
+  return (orientation ? image.withMetadata({ orientation }) : image).withExif(exif).toBuffer();
+}
+
+describe('readExifMetadata', () => {
+  it('reads GPS, altitude, orientation and camera', async () => {
+    const image = await photo(
+      {
+        IFD0: { Make: 'Apple', Model: 'iPhone 15 Pro' },
+        IFD3: {
+          GPSLatitudeRef: 'N', GPSLatitude: '38/1 43/1 0/1',
+          GPSLongitudeRef: 'W', GPSLongitude: '9/1 8/1 0/1',
+          GPSAltitudeRef: '0', GPSAltitude: '120/1',
+        },
+      },
+      6
+    );
+
+    const metadata = await readExifMetadata(image);
+
+    expect(metadata).toMatchObject({
+      altitude: 120,
+      orientation: 6,
+      cameraMake: 'Apple',
+      cameraModel: 'iPhone 15 Pro',
+    });
+    expect(metadata.latitude).toBeCloseTo(38.7167, 3);
+    expect(metadata.longitude).toBeCloseTo(-9.1333, 3);
+  });
+
+  it('ignores a (0, 0) position written without a GPS fix', async () => {
+    const image = await photo({
+      IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '0/1 0/1 0/1', GPSLongitudeRef: 'E', GPSLongitude: '0/1 0/1 0/1' },
+    });
+
+    const metadata = await readExifMetadata(image);
+    expect(metadata.latitude).toBeUndefined();
+    expect(metadata.longitude).toBeUndefined();
+  });
+
+  it('returns nothing for files without EXIF', async () => {
+    expect(await readExifMetadata(Buffer.from('not an image'))).toEqual({});
+  });
+});
+
+describe('reverseGeocodingService.lookup', () => {
+  it('names the nearest place with its country', () => {
+    expect(reverseGeocodingService.lookup(48.853, 2.3499)).toMatchObject({
+      locationName: 'Paris, France',
+      countryCode: 'FR',
+    });
+    expect(reverseGeocodingService.lookup(38.7139, -9.1394)?.locationName).toBe('Lisbon, Portugal');
+  });
+
+  it('finds places across the antimeridian', () => {
+    const gazetteer = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gazetteer-')), 'places.tsv');
+    fs.writeFileSync(gazetteer, '1\tDateline\tFJ\t-16.5\t179.9\t20000\n');
+    const geocoder = new ReverseGeocodingService(gazetteer);
+
+    expect(geocoder.lookup(-16.5, -179.95)).toMatchObject({ name: 'Dateline', distanceKm: 16 });
+  });
+
+  it('returns null far from any place or for invalid coordinates', () => {
+    expect(reverseGeocodingService.lookup(30, -40)).toBeNull(); // mid-Atlantic
+    expect(reverseGeocodingService.lookup(91, 0)).toBeNull();
+    expect(reverseGeocodingService.lookup(Number.NaN, 0)).toBeNull();
+  });
+});
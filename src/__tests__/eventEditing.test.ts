@@ -0,0 +1,197 @@
+/**
+ * Event editing tests
+ * Verify merge/split/move rewrite memory_event_links and re-synthesize affected events
+ */
+
+const client = {};
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn((fn: (c: unknown) => Promise<unknown>) => fn(client)),
+  closePool: jest.fn(),
+}));
+
+const mockEventRepository = {
+  findById: jest.fn(),
+  findByMemoryId: jest.fn(),
+  create: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  findTrashedByIds: jest.fn(),
+  softDelete: jest.fn(),
+};
+jest.mock('../db/repositories/eventRepository', () => ({ eventRepository: mockEventRepository }));
+
+const mockLinkRepository = {
+  findByEventId: jest.fn(),
+  create: jest.fn(),
+  delete: jest.fn(),
+  updateRelationshipType: jest.fn(),
+};
+jest.mock('../db/repositories/memoryEventLinkRepository', () => ({
+  memoryEventLinkRepository: mockLinkRepository,
+}));
+
+const mockMemoryRepository = {
+  findById: jest.fn(),
+  findByIds: jest.fn(),
+  findByIdsWithContext: jest.fn(),
+};
+jest.mock('../db/repositories/memoryRepository', () => ({ memoryRepository: mockMemoryRepository }));
+
+const mockEmbeddingUpsert = jest.fn();
+jest.mock('../db/repositories/eventEmbeddingRepository', () => ({
+  eventEmbeddingRepository: { upsert: mockEmbeddingUpsert },
+}));
+
+const mockSynthesize = jest.fn();
+jest.mock('../services/events/eventSynthesisService', () => ({
+  eventSynthesisService: { synthesizeEvent: mockSynthesize },
+}));
+
+import { eventEditingService } from '../services/events/eventEditingService';
+import { RelationshipType } from '../types';
+
+const USER = 'user-1';
+
+function memory(id: string, iso: string) {
+  return { id, userId: USER, capturedAt: new Date(iso) };
+}
+
+function event(id: string) {
+  return { id, userId: USER, title: `Event ${id}`, startTime: new Date(), endTime: new Date(), confidenceScore: 0.5 };
+}
+
+function link(memoryId: string, eventId: string, relationshipType: RelationshipType) {
+  return { memoryId, eventId, relationshipType, createdAt: new Date() };
+}
+
+describe('EventEditingService', () => {
+  // In-memory link table so refreshEvent sees the edits
+  let links: ReturnType<typeof link>[];
+  const memories = [
+    memory('m1', '2025-06-01T10:00:00Z'),
+    memory('m2', '2025-06-01T10:30:00Z'),
+    memory('m3', '2025-06-01T15:00:00Z'),
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    links = [];
+
+    mockEventRepository.findById.mockImplementation(async (id: string) => event(id));
+    mockEventRepository.create.mockResolvedValue(event('e-new'));
+    mockEventRepository.update.mockImplementation(async (id: string, _u: string, input: object) => ({ ...event(id), ...input }));
+    mockEventRepository.findByMemoryId.mockImplementation(async (memoryId: string) =>
+      links.filter((l) => l.memoryId === memoryId).map((l) => event(l.eventId))
+    );
+
+    mockLinkRepository.findByEventId.mockImplementation(async (eventId: string) =>
+      links.filter((l) => l.eventId === eventId)
+    );
+    mockLinkRepository.create.mockImplementation(async (input: ReturnType<typeof link>) => {
+      links.push(link(input.memoryId, input.eventId, input.relationshipType));
+    });
+    mockLinkRepository.delete.mockImplementation(async (memoryId: string, eventId: string) => {
+      links = links.filter((l) => !(l.memoryId === memoryId && l.eventId === eventId));
+    });
+    mockLinkRepository.updateRelationshipType.mockImplementation(
+      async (memoryId: string, eventId: string, type: RelationshipType) => {
+        const found = links.find((l) => l.memoryId === memoryId && l.eventId === eventId);
+        if (found) found.relationshipType = type;
+      }
+    );
+
+    const byIds = async (ids: string[]) => memories.filter((m) => ids.includes(m.id));
+    mockMemoryRepository.findById.mockImplementation(async (id: string) => memories.find((m) => m.id === id));
+    mockMemoryRepository.findByIds.mockImplementation(byIds);
+    mockMemoryRepository.findByIdsWithContext.mockImplementation(byIds);
+
+    mockEventRepository.findTrashedByIds.mockResolvedValue([]);
+    mockSynthesize.mockResolvedValue({ title: 'Synth', summary: 'Summary', confidenceScore: 0.8 });
+  });
+
+  it('splits at a timestamp, moving later memories to a new event and refreshing both', async () => {
+    links = [
+      link('m1', 'e1', RelationshipType.Primary),
+      link('m2', 'e1', RelationshipType.Supporting),
+      link('m3', 'e1', RelationshipType.Supporting),
+    ];
+
+    const result = await eventEditingService.splitEvent('e1', USER, { at: new Date('2025-06-01T12:00:00Z') });
+
+    expect(result.newEvent.id).toBe('e-new');
+    expect(links.filter((l) => l.eventId === 'e1').map((l) => l.memoryId)).toEqual(['m1', 'm2']);
+    // The moved memory becomes the new event's primary
+    expect(links.find((l) => l.eventId === 'e-new')).toMatchObject({
+      memoryId: 'm3',
+      relationshipType: RelationshipType.Primary,
+    });
+    expect(mockSynthesize).toHaveBeenCalledTimes(2);
+    expect(mockEmbeddingUpsert).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects a split that would leave an event empty', async () => {
+    links = [link('m1', 'e1', RelationshipType.Primary), link('m2', 'e1', RelationshipType.Supporting)];
+
+    await expect(
+      eventEditingService.splitEvent('e1', USER, { memoryIds: ['m1', 'm2'] })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(mockEventRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('merges the source event into the target as supporting and deletes the source', async () => {
+    links = [link('m1', 'e1', RelationshipType.Primary), link('m3', 'e2', RelationshipType.Primary)];
+
+    const merged = await eventEditingService.mergeEvents('e1', 'e2', USER);
+
+    expect(mockEventRepository.delete).toHaveBeenCalledWith('e2', client);
+    expect(links.find((l) => l.memoryId === 'm3' && l.eventId === 'e1')?.relationshipType)
+      .toBe(RelationshipType.Supporting);
+    expect(merged).toMatchObject({
+      id: 'e1',
+      title: 'Synth',
+      startTime: memories[0].capturedAt,
+      endTime: memories[2].capturedAt,
+    });
+  });
+
+  it('moves a memory as primary, demoting the old primary and deleting the emptied source', async () => {
+    links = [link('m1', 'e1', RelationshipType.Primary), link('m2', 'e2', RelationshipType.Primary)];
+
+    const result = await eventEditingService.moveMemory('e1', USER, {
+      memoryId: 'm2',
+      relationshipType: RelationshipType.Primary,
+    });
+
+    expect(result.deletedEventIds).toEqual(['e2']);
+    expect(links.filter((l) => l.eventId === 'e1')).toEqual([
+      expect.objectContaining({ memoryId: 'm1', relationshipType: RelationshipType.Supporting }),
+      expect.objectContaining({ memoryId: 'm2', relationshipType: RelationshipType.Primary }),
+    ]);
+  });
+
+  describe('reconcileEvent', () => {
+    it('deletes an event with no links left', async () => {
+      expect(await eventEditingService.reconcileEvent('e1', USER, client as any)).toBe('deleted');
+      expect(mockEventRepository.delete).toHaveBeenCalledWith('e1', client);
+    });
+
+    it('trashes an event whose remaining memories are all trashed', async () => {
+      links = [link('m-trashed', 'e1', RelationshipType.Primary)];
+
+      expect(await eventEditingService.reconcileEvent('e1', USER, client as any)).toBe('trashed');
+      expect(mockEventRepository.softDelete).toHaveBeenCalledWith(['e1'], USER, client);
+      expect(mockSynthesize).not.toHaveBeenCalled();
+    });
+
+    it('leaves a trashed event alone and refreshes a live one', async () => {
+      links = [link('m1', 'e1', RelationshipType.Primary)];
+      mockEventRepository.findTrashedByIds.mockResolvedValueOnce([event('e1')]);
+      expect(await eventEditingService.reconcileEvent('e1', USER, client as any)).toBe('unchanged');
+
+      expect(await eventEditingService.reconcileEvent('e1', USER, client as any)).toBe('updated');
+      expect(mockSynthesize).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Hybrid scorer tests
+ * Verify place/people/tag/time boosts only apply when the query mentions them
+ */
+
+import { hybridScore } from '../services/retrieval/hybridScorer';
+import { analyzeQuery, QueryVocabulary } from '../services/retrieval/queryAnalyzer';
+import {
+  Label,
+  Memory,
+  MemoryContext,
+  MemoryPerson,
+  MemoryTag,
+  MediaType,
+  MemorySourceEnum,
+  ProcessingStatus,
+  TagOrigin,
+} from '../types';
+
+// temporalParser resolves phrases like "last week" against the real clock
+const NOW = new Date();
+const DAY = 24 * 60 * 60 * 1000;
+const WEIGHTS = { relevance: 0.45, temporal: 0.2, place: 0.2, people: 0.1, tags: 0.05 };
+
+function memory(capturedAt: Date = NOW): Memory {
+  return {
+    id: 'mem-1',
+    userId: 'user-1',
+    createdAt: capturedAt,
+    capturedAt,
+    source: MemorySourceEnum.Upload,
+    mediaType: MediaType.Photo,
+    storagePath: 'image/a.jpg',
+    processingStatus: ProcessingStatus.Completed,
+  };
+}
+
+const context: MemoryContext = { memoryId: 'mem-1', locationName: 'Blue Bottle Coffee, Oakland, CA', confirmed: true };
+const people: MemoryPerson[] = [{ id: 'p1', memoryId: 'mem-1', personName: 'Sam Lee', confirmed: true }];
+const tags: MemoryTag[] = [{ id: 't1', memoryId: 'mem-1', tag: 'coffee', origin: TagOrigin.AI }];
+const rex: Label = { id: 'l1', userId: 'user-1', name: 'Rex', kind: 'pet', createdAt: NOW };
+
+const vocabulary: QueryVocabulary = {
+  places: [context.locationName!],
+  people: ['Sam Lee', 'Alex Kim'],
+  tags: ['coffee', 'hiking'],
+  labels: [rex],
+};
+
+function score(query: string, capturedAt?: Date, labels: Label[] = []) {
+  return hybridScore({
+    memory: memory(capturedAt),
+    relevance: 0.5,
+    context,
+    tags,
+    people,
+    labels,
+    query: analyzeQuery(query, vocabulary),
+    weights: WEIGHTS,
+    temporalHalfLifeDays: 7,
+    now: NOW,
+  });
+}
+
+describe('hybridScore', () => {
+  it('gives no context boosts when the query mentions none of them', () => {
+    const out = score('that sunny afternoon');
+
+    expect(out.breakdown).toEqual({ relevance: 0.225, temporal: 0, place: 0, people: 0, tags: 0 });
+    expect(out.score).toBeCloseTo(0.225, 10);
+    expect(out.matches).toEqual({ places: [], people: [], tags: [], temporal: undefined });
+  });
+
+  it('boosts a place only when the query names it', () => {
+    const out = score('coffee in Oakland');
+
+    expect(out.breakdown.place).toBeCloseTo(0.2, 10);
+    expect(out.matches.places).toEqual(['oakland']);
+    expect(out.breakdown.tags).toBeCloseTo(0.05, 10);
+  });
+
+  it('grades people by the share of mentioned people present', () => {
+    expect(score('with sam').breakdown.people).toBeCloseTo(0.1, 10);
+    // Sam is here, Alex is not
+    const both = score('sam and alex');
+    expect(both.breakdown.people).toBeCloseTo(0.05, 10);
+    expect(both.matches.people).toEqual(['sam']);
+  });
+
+  it('does not match names inside other words', () => {
+    expect(score('samples of hiking gear').matches.people).toEqual([]);
+  });
+
+  it('matches labels by kind', () => {
+    const out = score('walking rex', NOW, [rex]);
+    expect(out.matches.people).toEqual(['rex']);
+    expect(score('walking rex').matches.people).toEqual([]);
+  });
+
+  it('decays the temporal boost with distance from the queried time', () => {
+    const inRange = score('coffee last week', new Date(NOW.getTime() - 3 * DAY));
+    const weekBefore = score('coffee last week', new Date(NOW.getTime() - 14 * DAY));
+    const noTime = score('coffee', new Date(NOW.getTime() - 3 * DAY));
+
+    expect(inRange.breakdown.temporal).toBeCloseTo(0.2, 10);
+    expect(inRange.matches.temporal).toBe('last week');
+    // 7 days outside the range with a 7-day half-life
+    expect(weekBefore.breakdown.temporal).toBeCloseTo(0.1, 2);
+    expect(noTime.breakdown.temporal).toBe(0);
+  });
+
+  it('uses the configured weights', () => {
+    const out = hybridScore({
+      memory: memory(),
+      relevance: 1,
+      context,
+      tags,
+      people,
+      query: analyzeQuery('oakland', vocabulary),
+      weights: { relevance: 1, temporal: 0, place: 2, people: 0, tags: 0 },
+      now: NOW,
+    });
+    expect(out.score).toBeCloseTo(3, 10);
+  });
+});
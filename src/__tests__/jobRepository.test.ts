@@ -0,0 +1,119 @@
+/**
+ * Job repository tests (integration)
+ * Verify enqueue is idempotent per memory, claims take a lease that blocks other workers until
+ * it expires, failures back off and dead-letter at max_attempts, and orphaned memories are found
+ *
+ * Skipped automatically if no test DB is reachable.
+ */
+
+import { Pool } from 'pg';
+import { v4 as uuid } from 'uuid';
+import { jobRepository } from '../db/repositories/jobRepository';
+import { closePool } from '../db';
+import { JobStatus, JobType } from '../types';
+
+const DB_URL = process.env.DATABASE_URL || '';
+/** Far in the past, so the test's jobs are claimed before any other due job */
+const LONG_AGO = new Date('2000-01-01T00:00:00Z');
+
+describe('jobRepository (integration)', () => {
+  let pool: Pool | undefined;
+  const userId = uuid();
+  let memoryId: string;
+
+  beforeAll(async () => {
+    try {
+      const p = new Pool({ connectionString: DB_URL, max: 2, connectionTimeoutMillis: 3000 });
+      await p.query('SELECT 1');
+      pool = p; // only set if connection succeeds
+    } catch {
+      console.warn('Skipping job repository tests — no test DB reachable');
+      return;
+    }
+    await pool.query('INSERT INTO users (id, email) VALUES ($1, $2)', [userId, `jobs-${userId}@test.local`]);
+  });
+
+  beforeEach(async () => {
+    if (!pool) return;
+    memoryId = uuid();
+    await pool.query(
+      `INSERT INTO memories (id, user_id, captured_at, source, media_type, storage_path, processing_status)
+       VALUES ($1, $2, NOW(), 'upload', 'audio', 'voice/test.m4a', 'pending')`,
+      [memoryId, userId]
+    );
+  });
+
+  afterAll(async () => {
+    if (pool) {
+      await pool.query('DELETE FROM users WHERE id = $1', [userId]); // cascades to memories and jobs
+      await pool.end();
+    }
+    await closePool();
+  });
+
+  const enqueue = (maxAttempts = 3) =>
+    jobRepository.enqueue({ type: JobType.ProcessMemory, userId, memoryId, maxAttempts, runAt: LONG_AGO });
+
+  it('enqueues at most one active job per memory and type', async () => {
+    if (!pool) return; // skip: no test DB available
+    const job = await enqueue();
+
+    expect(job).toMatchObject({ memoryId, status: JobStatus.Queued, attempts: 0 });
+    expect(await enqueue()).toBeNull();
+  });
+
+  it('leases a claimed job until it expires, then lets another worker reclaim it', async () => {
+    if (!pool) return; // skip: no test DB available
+    const job = (await enqueue())!;
+
+    const claimed = await jobRepository.claimNext('worker-a', 60_000);
+    expect(claimed).toMatchObject({ id: job.id, status: JobStatus.Running, attempts: 1, lockedBy: 'worker-a' });
+
+    const second = await jobRepository.claimNext('worker-b', 60_000);
+    expect(second?.id).not.toBe(job.id);
+    if (second) {
+      // Someone else's job: put it back as it was
+      await pool.query(
+        `UPDATE jobs SET status = 'queued', attempts = attempts - 1, locked_by = NULL, locked_until = NULL
+         WHERE id = $1`,
+        [second.id]
+      );
+    }
+    expect(await jobRepository.extendLease(job.id, 'worker-b', 60_000)).toBe(false);
+
+    // worker-a crashed: its lease runs out
+    await pool.query(`UPDATE jobs SET locked_until = NOW() - INTERVAL '1 second' WHERE id = $1`, [job.id]);
+    const reclaimed = await jobRepository.claimNext('worker-b', 60_000);
+    expect(reclaimed).toMatchObject({ id: job.id, attempts: 2, lockedBy: 'worker-b' });
+
+    await jobRepository.markCompleted(job.id, 'worker-a'); // lost lease: no effect
+    const { rows } = await pool.query('SELECT status FROM jobs WHERE id = $1', [job.id]);
+    expect(rows[0].status).toBe('running');
+    await jobRepository.markCompleted(job.id, 'worker-b');
+  });
+
+  it('requeues failures with a delay and dead-letters the last attempt', async () => {
+    if (!pool) return; // skip: no test DB available
+    const job = (await enqueue(2))!;
+
+    await jobRepository.claimNext('worker-a', 60_000);
+    const retried = await jobRepository.markFailed(job.id, 'worker-a', 'timeout', 60_000);
+    expect(retried).toMatchObject({ status: JobStatus.Queued, lastError: 'timeout' });
+    expect(retried!.runAt.getTime()).toBeGreaterThan(Date.now() + 30_000);
+    expect(retried!.lockedBy).toBeUndefined();
+
+    await pool.query('UPDATE jobs SET run_at = $2 WHERE id = $1', [job.id, LONG_AGO]);
+    await jobRepository.claimNext('worker-a', 60_000);
+    const dead = await jobRepository.markFailed(job.id, 'worker-a', 'timeout again', 60_000);
+    expect(dead).toMatchObject({ status: JobStatus.Dead, attempts: 2, lastError: 'timeout again' });
+  });
+
+  it('finds pending memories without an active job as orphans', async () => {
+    if (!pool) return; // skip: no test DB available
+    const orphanIds = () => jobRepository.findOrphanedMemories().then((o) => o.map((m) => m.memoryId));
+
+    expect(await orphanIds()).toContain(memoryId);
+    await enqueue();
+    expect(await orphanIds()).not.toContain(memoryId);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Job worker tests
+ * Verify jobs run under a lease and complete, failures are requeued with exponential
+ * backoff, a job reclaimed after its final attempt is dead-lettered, orphaned memories are
+ * recovered on start, and the trash and export purges are scheduled
+ */
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn(),
+  closePool: jest.fn(),
+}));
+
+const mockJobRepository = {
+  claimNext: jest.fn(),
+  extendLease: jest.fn(),
+  markCompleted: jest.fn(),
+  markFailed: jest.fn(),
+  markDead: jest.fn(),
+  findOrphanedMemories: jest.fn(),
+};
+const mockMemoryRepository = { updateInternal: jest.fn() };
+jest.mock('../db/repositories', () => ({
+  jobRepository: mockJobRepository,
+  memoryRepository: mockMemoryRepository,
+}));
+
+const mockJobQueue = {
+  enqueueMemoryProcessing: jest.fn(),
+  scheduleTrashPurge: jest.fn(),
+  scheduleExportPurge: jest.fn(),
+};
+jest.mock('../services/jobs/jobQueue', () => ({ jobQueue: mockJobQueue }));
+
+const mockHandler = jest.fn();
+jest.mock('../services/jobs/jobHandlers', () => ({
+  jobHandlers: { process_memory: mockHandler },
+}));
+
+import { JobWorker } from '../services/jobs/jobWorker';
+import { config } from '../config';
+import { Job, JobStatus, JobType } from '../types';
+
+function job(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    type: JobType.ProcessMemory,
+    memoryId: 'm1',
+    payload: {},
+    status: JobStatus.Running,
+    attempts: 1,
+    maxAttempts: 3,
+    runAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('JobWorker', () => {
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    worker = new JobWorker();
+    mockJobRepository.markFailed.mockResolvedValue(job({ status: JobStatus.Queued }));
+  });
+
+  it('reports an idle poll when nothing is runnable', async () => {
+    mockJobRepository.claimNext.mockResolvedValueOnce(null);
+
+    expect(await worker.runOnce()).toBe(false);
+    expect(mockJobRepository.claimNext).toHaveBeenCalledWith(worker.workerId, config.jobVisibilityTimeoutMs);
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('runs the claimed job and releases it as completed', async () => {
+    const claimed = job();
+    mockJobRepository.claimNext.mockResolvedValueOnce(claimed);
+
+    expect(await worker.runOnce()).toBe(true);
+    expect(mockHandler).toHaveBeenCalledWith(claimed);
+    expect(mockJobRepository.markCompleted).toHaveBeenCalledWith('job-1', worker.workerId);
+    expect(mockJobRepository.markFailed).not.toHaveBeenCalled();
+  });
+
+  it('requeues a failed attempt with exponential backoff', async () => {
+    mockJobRepository.claimNext.mockResolvedValueOnce(job({ attempts: 3, maxAttempts: 5 }));
+    mockHandler.mockRejectedValueOnce(new Error('whisper timeout'));
+
+    await worker.runOnce();
+
+    expect(mockJobRepository.markFailed).toHaveBeenCalledWith(
+      'job-1',
+      worker.workerId,
+      'whisper timeout',
+      config.jobBackoffMs * 4
+    );
+    expect(mockJobRepository.markCompleted).not.toHaveBeenCalled();
+  });
+
+  it('dead-letters a job reclaimed after its final attempt without running it', async () => {
+    mockJobRepository.claimNext.mockResolvedValueOnce(job({ attempts: 4, maxAttempts: 3, lastError: 'boom' }));
+
+    expect(await worker.runOnce()).toBe(true);
+    expect(mockJobRepository.markDead).toHaveBeenCalledWith('job-1', worker.workerId, 'boom');
+    expect(mockHandler).not.toHaveBeenCalled();
+  });
+
+  it('fails a job whose type has no handler', async () => {
+    mockJobRepository.claimNext.mockResolvedValueOnce(job({ type: 'unknown' as JobType }));
+
+    await worker.runOnce();
+
+    expect(mockJobRepository.markFailed).toHaveBeenCalledWith(
+      'job-1', worker.workerId, 'No handler for job type: unknown', config.jobBackoffMs
+    );
+  });
+
+  it('recovers orphaned memories and schedules maintenance on start', async () => {
+    mockJobRepository.findOrphanedMemories.mockResolvedValueOnce([
+      { memoryId: 'm1', userId: 'u1', status: 'processing' },
+      { memoryId: 'm2', userId: null, status: 'pending' },
+    ]);
+    mockJobRepository.claimNext.mockResolvedValue(null);
+
+    await worker.start();
+    await worker.stop();
+
+    expect(mockMemoryRepository.updateInternal).toHaveBeenCalledTimes(1);
+    expect(mockMemoryRepository.updateInternal).toHaveBeenCalledWith('m1', { processingStatus: 'pending' });
+    expect(mockJobQueue.enqueueMemoryProcessing).toHaveBeenCalledWith('m1', 'u1');
+    expect(mockJobQueue.enqueueMemoryProcessing).toHaveBeenCalledWith('m2', undefined);
+    expect(mockJobQueue.scheduleTrashPurge).toHaveBeenCalledWith();
+    expect(mockJobQueue.scheduleExportPurge).toHaveBeenCalledWith();
+  });
+});
+
+describe('maintenance job handlers', () => {
+  it('reschedules the trash purge after each run', async () => {
+    const purgeExpiredInternal = jest.fn(async () => 0);
+    mockJobQueue.scheduleTrashPurge.mockClear();
+    let handlers: typeof import('../services/jobs/jobHandlers').jobHandlers;
+    jest.isolateModules(() => {
+      jest.doMock('../services/memories/trashService', () => ({ trashService: { purgeExpiredInternal } }));
+      handlers = jest.requireActual('../services/jobs/jobHandlers').jobHandlers;
+    });
+    const before = Date.now();
+
+    await handlers![JobType.PurgeTrash](job({ type: JobType.PurgeTrash, memoryId: undefined }));
+
+    expect(purgeExpiredInternal).toHaveBeenCalled();
+    const [runAt] = mockJobQueue.scheduleTrashPurge.mock.calls[0] as [Date];
+    expect(runAt.getTime()).toBeGreaterThanOrEqual(before + config.trashPurgeIntervalMs);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Local AI provider tests
+ * Verify the offline provider is deterministic and wired in via AI_PROVIDER=local
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getAIProvider, localProvider, MediaSource } from '../services/ai/providers';
+import { embeddingService, normalizationService } from '../services/ai';
+
+function fileSource(filePath: string): MediaSource {
+  return { filename: path.basename(filePath), open: async () => fs.createReadStream(filePath) };
+}
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe('LocalProvider', () => {
+  it('is selected when AI_PROVIDER=local', () => {
+    expect(getAIProvider()).toBe(localProvider);
+    expect(embeddingService.modelVersion).toBe('local-hash-v1');
+  });
+
+  it('produces deterministic, normalized embeddings of the requested size', async () => {
+    const [a] = await localProvider.embed(['Coffee with Sam at the park'], 2000);
+    const [b] = await localProvider.embed(['Coffee with Sam at the park'], 2000);
+
+    expect(a).toHaveLength(2000);
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1, 6);
+  });
+
+  it('places texts that share words closer than unrelated texts', async () => {
+    const [base, related, unrelated] = await localProvider.embed(
+      ['coffee with sam at the park', 'morning coffee with sam', 'quarterly tax filing deadline'],
+      2000
+    );
+
+    expect(cosine(base, related)).toBeGreaterThan(cosine(base, unrelated));
+  });
+
+  it('returns a non-zero vector for empty text', async () => {
+    const [vector] = await localProvider.embed([''], 16);
+    expect(vector.some((v) => v !== 0)).toBe(true);
+  });
+
+  it('passes text fixtures through transcribe and templates binary captions', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'glimps-local-provider-'));
+    const audioPath = path.join(dir, 'note.m4a');
+    const imagePath = path.join(dir, 'photo.jpg');
+    fs.writeFileSync(audioPath, 'Picked up groceries on the way home.');
+    fs.writeFileSync(imagePath, Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]));
+
+    try {
+      const transcription = await localProvider.transcribe(fileSource(audioPath));
+      expect(transcription.text).toBe('Picked up groceries on the way home.');
+
+      const caption = await localProvider.caption(fileSource(imagePath));
+      expect(caption).toMatch(/^A JPG photo \(6 bytes, ref [0-9a-f]{8}\)\.$/);
+      expect(await localProvider.caption(fileSource(imagePath))).toBe(caption);
+      expect(await localProvider.readText(fileSource(imagePath))).toBe('');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('answers chat completions in the format callers parse', async () => {
+    const synthesis = await localProvider.chatComplete({
+      purpose: 'event_synthesis',
+      messages: [{ role: 'user', content: 'Memories:\n\n[Memory 1] 1/1/2025, 9:00 AM\ncoffee with sam. it was sunny.\n\nGenerate:' }],
+    });
+    expect(synthesis).toBe('TITLE: Coffee with sam it was\nSUMMARY: coffee with sam.\nCONFIDENCE: 0.6');
+
+    const answer = await localProvider.chatComplete({
+      purpose: 'answer',
+      messages: [{ role: 'user', content: 'Question: ?\n\nEvents:\nEvent 1 (ID: x):\nTitle: Coffee with Sam\nSummary: s' }],
+    });
+    expect(answer).toContain('"Coffee with Sam"');
+  });
+
+  it('strips filler words during normalization', async () => {
+    const normalized = await normalizationService.normalize('Um, so like, I went to the park today, you know');
+    expect(normalized).toBe('I went to the park today');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Memory deletion tests
+ * Verify deletes are atomic and owner-scoped, refresh or remove affected events, and clean up storage
+ */
+
+const client = {};
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn((fn: (c: unknown) => Promise<unknown>) => fn(client)),
+  closePool: jest.fn(),
+}));
+
+const mockMemoryRepository = {
+  findByIds: jest.fn(),
+  findTrashedByIds: jest.fn(),
+  deleteMany: jest.fn(),
+};
+jest.mock('../db/repositories/memoryRepository', () => ({ memoryRepository: mockMemoryRepository }));
+
+const mockFindLinksByMemoryIds = jest.fn();
+jest.mock('../db/repositories/memoryEventLinkRepository', () => ({
+  memoryEventLinkRepository: { findByMemoryIds: mockFindLinksByMemoryIds },
+}));
+
+const mockReconcileEvent = jest.fn();
+jest.mock('../services/events/eventEditingService', () => ({
+  eventEditingService: { reconcileEvent: mockReconcileEvent },
+}));
+
+const mockDeleteFile = jest.fn();
+jest.mock('../services/storage/storageService', () => ({
+  storageService: { deleteFile: mockDeleteFile },
+}));
+
+import { memoryDeletionService } from '../services/memories/memoryDeletionService';
+import { NotFoundError } from '../utils/errors';
+
+const USER = 'user-1';
+
+function memory(id: string) {
+  return { id, userId: USER, storagePath: `image/${id}.jpg` };
+}
+
+describe('memoryDeletionService.deleteMemories', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMemoryRepository.findTrashedByIds.mockResolvedValue([]);
+  });
+
+  it('deletes live and trashed memories and reconciles their events', async () => {
+    mockMemoryRepository.findByIds.mockResolvedValue([memory('m1')]);
+    mockMemoryRepository.findTrashedByIds.mockResolvedValue([memory('m2')]);
+    mockMemoryRepository.deleteMany.mockResolvedValue([
+      memory('m1'),
+      { ...memory('m2'), renditions: { thumb: 'image/m2.thumb.webp', preview: 'image/m2.preview.webp' } },
+    ]);
+    mockFindLinksByMemoryIds.mockResolvedValue([
+      { memoryId: 'm1', eventId: 'e-shared' },
+      { memoryId: 'm2', eventId: 'e-only' },
+    ]);
+    mockReconcileEvent.mockImplementation(async (eventId: string) => (eventId === 'e-shared' ? 'updated' : 'deleted'));
+
+    const result = await memoryDeletionService.deleteMemories(['m1', 'm2', 'm1'], USER);
+
+    expect(mockMemoryRepository.deleteMany).toHaveBeenCalledWith(['m1', 'm2'], USER, client);
+    expect(mockReconcileEvent).toHaveBeenCalledWith('e-shared', USER, client);
+    expect(mockReconcileEvent).toHaveBeenCalledWith('e-only', USER, client);
+    expect(mockDeleteFile.mock.calls.map((c) => c[0])).toEqual([
+      'image/m1.jpg',
+      'image/m2.jpg',
+      'image/m2.thumb.webp',
+      'image/m2.preview.webp',
+    ]);
+    expect(result).toEqual({
+      deletedMemoryIds: ['m1', 'm2'],
+      updatedEventIds: ['e-shared'],
+      deletedEventIds: ['e-only'],
+    });
+  });
+
+  it('deletes nothing when any memory is missing or not owned', async () => {
+    mockMemoryRepository.findByIds.mockResolvedValue([memory('m1')]);
+
+    await expect(memoryDeletionService.deleteMemories(['m1', 'other-users'], USER)).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+    expect(mockMemoryRepository.deleteMany).not.toHaveBeenCalled();
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+  });
+
+  it('keeps files when the transaction fails', async () => {
+    mockMemoryRepository.findByIds.mockResolvedValue([memory('m1')]);
+    mockMemoryRepository.deleteMany.mockResolvedValue([memory('m1')]);
+    mockFindLinksByMemoryIds.mockResolvedValue([{ memoryId: 'm1', eventId: 'e1' }]);
+    mockReconcileEvent.mockRejectedValueOnce(new Error('synthesis failed'));
+
+    await expect(memoryDeletionService.deleteMemories(['m1'], USER)).rejects.toThrow('synthesis failed');
+    expect(mockDeleteFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Memory editing tests
+ * Verify transcript edits re-embed the memory, drop its timed segments, reset AI suggestions,
+ * re-queue inference and refresh events, and that capturedAt-only edits skip the AI work
+ */
+
+const client = {};
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn((fn: (c: unknown) => Promise<unknown>) => fn(client)),
+  closePool: jest.fn(),
+}));
+
+const mockMemoryRepository = {
+  findById: jest.fn(),
+  findByIdWithContext: jest.fn(),
+  applyEdit: jest.fn(),
+};
+const mockUpsertEmbedding = jest.fn();
+const mockDeleteUnconfirmedPeople = jest.fn();
+const mockDeleteAiTags = jest.fn();
+const mockDeleteSegments = jest.fn();
+const mockFindEventsByMemoryId = jest.fn();
+jest.mock('../db/repositories', () => ({
+  memoryRepository: mockMemoryRepository,
+  memoryEmbeddingRepository: { upsert: mockUpsertEmbedding },
+  memoryPeopleRepository: { deleteUnconfirmedByMemoryId: mockDeleteUnconfirmedPeople },
+  memoryTagRepository: { deleteAiByMemoryId: mockDeleteAiTags },
+  memorySegmentRepository: { deleteByMemoryId: mockDeleteSegments },
+  eventRepository: { findByMemoryId: mockFindEventsByMemoryId },
+}));
+
+jest.mock('../services/ai', () => ({ embeddingService: { modelVersion: 'test-model' } }));
+
+const mockAnalyzeText = jest.fn();
+jest.mock('../services/pipeline/memoryPipeline', () => ({
+  memoryPipeline: { analyzeText: mockAnalyzeText },
+}));
+
+const mockRefreshEvent = jest.fn();
+jest.mock('../services/events/eventEditingService', () => ({
+  eventEditingService: { refreshEvent: mockRefreshEvent },
+}));
+
+const mockEnqueue = jest.fn();
+jest.mock('../services/jobs/jobQueue', () => ({ jobQueue: { enqueue: mockEnqueue } }));
+
+import { memoryEditingService } from '../services/memories/memoryEditingService';
+import { ValidationError } from '../utils/errors';
+import { JobType, MediaType, ProcessingStatus } from '../types';
+
+const USER = 'user-1';
+const CAPTURED = new Date('2026-05-01T10:00:00Z');
+
+function memory(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'm1',
+    userId: USER,
+    capturedAt: CAPTURED,
+    mediaType: MediaType.Audio,
+    transcript: 'Lunch with Shawn',
+    processingStatus: ProcessingStatus.Completed,
+    ...overrides,
+  };
+}
+
+describe('memoryEditingService.editMemory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMemoryRepository.findById.mockResolvedValue(memory());
+    mockMemoryRepository.findByIdWithContext.mockResolvedValue(memory());
+    mockFindEventsByMemoryId.mockResolvedValue([{ id: 'e1' }]);
+    mockAnalyzeText.mockResolvedValue({
+      normalizedTranscript: 'Lunch with Sean',
+      normalizationModel: null,
+      aiTitle: 'Lunch with Sean',
+      aiSummary: 'I had lunch with Sean.',
+      embedding: [0.1, 0.2],
+    });
+  });
+
+  it('re-embeds, resets AI suggestions and refreshes events on a transcript edit', async () => {
+    const result = await memoryEditingService.editMemory('m1', USER, { transcript: 'Lunch with Sean' });
+
+    expect(mockAnalyzeText).toHaveBeenCalledWith('m1', 'Lunch with Sean', MediaType.Audio);
+    expect(mockMemoryRepository.applyEdit).toHaveBeenCalledWith(
+      'm1',
+      USER,
+      {
+        transcript: 'Lunch with Sean',
+        normalizedTranscript: 'Lunch with Sean',
+        normalizationModel: null,
+        aiTitle: 'Lunch with Sean',
+        aiSummary: 'I had lunch with Sean.',
+      },
+      client
+    );
+    expect(mockUpsertEmbedding).toHaveBeenCalledWith(
+      { memoryId: 'm1', embedding: [0.1, 0.2], modelVersion: 'test-model' },
+      client
+    );
+    // Segments still quote the misheard machine text
+    expect(mockDeleteSegments).toHaveBeenCalledWith('m1', client);
+    expect(mockDeleteUnconfirmedPeople).toHaveBeenCalledWith('m1', client);
+    expect(mockDeleteAiTags).toHaveBeenCalledWith('m1', client);
+    expect(mockEnqueue).toHaveBeenCalledWith(JobType.InferContext, { memoryId: 'm1', userId: USER, client });
+    expect(mockRefreshEvent).toHaveBeenCalledWith('e1', USER, client);
+    expect(result.refreshedEventIds).toEqual(['e1']);
+  });
+
+  it('only moves the memory and refreshes events on a capturedAt edit', async () => {
+    const capturedAt = new Date('2026-05-02T10:00:00Z');
+    await memoryEditingService.editMemory('m1', USER, { capturedAt });
+
+    expect(mockAnalyzeText).not.toHaveBeenCalled();
+    expect(mockUpsertEmbedding).not.toHaveBeenCalled();
+    expect(mockDeleteSegments).not.toHaveBeenCalled();
+    expect(mockEnqueue).not.toHaveBeenCalled();
+    expect(mockMemoryRepository.applyEdit).toHaveBeenCalledWith('m1', USER, { capturedAt }, client);
+    expect(mockRefreshEvent).toHaveBeenCalledWith('e1', USER, client);
+  });
+
+  it('does nothing when the values are unchanged', async () => {
+    const result = await memoryEditingService.editMemory('m1', USER, {
+      transcript: 'Lunch with Shawn',
+      capturedAt: new Date(CAPTURED),
+    });
+
+    expect(mockMemoryRepository.applyEdit).not.toHaveBeenCalled();
+    expect(mockRefreshEvent).not.toHaveBeenCalled();
+    expect(result.refreshedEventIds).toEqual([]);
+  });
+
+  it('rejects edits before processing has completed', async () => {
+    mockMemoryRepository.findById.mockResolvedValue(memory({ processingStatus: ProcessingStatus.Processing }));
+
+    await expect(
+      memoryEditingService.editMemory('m1', USER, { transcript: 'Lunch with Sean' })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(mockAnalyzeText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Memory indexing tests
+ * Verify the index text covers note, transcript, photo text and curation, reindex jobs re-embed
+ * processed memories (re-checking for edits made meanwhile), and scheduling is debounced
+ */
+
+const mockMemoryRepository = { findByIdInternal: jest.fn() };
+const mockUpsertEmbedding = jest.fn();
+const mockFindContext = jest.fn();
+const mockFindPeople = jest.fn();
+const mockFindTags = jest.fn();
+const mockGetLabels = jest.fn();
+const mockJobRepository = { enqueue: jest.fn(), deferQueued: jest.fn() };
+jest.mock('../db/repositories', () => ({
+  memoryRepository: mockMemoryRepository,
+  memoryEmbeddingRepository: { upsert: mockUpsertEmbedding },
+  memoryContextRepository: { findByMemoryId: mockFindContext },
+  memoryPeopleRepository: { findByMemoryId: mockFindPeople },
+  memoryTagRepository: { findByMemoryId: mockFindTags },
+  memoryLabelRepository: { getLabelsByMemoryIds: mockGetLabels },
+  jobRepository: mockJobRepository,
+}));
+
+const mockGenerateEmbedding = jest.fn();
+jest.mock('../services/ai', () => ({
+  embeddingService: { generateEmbedding: mockGenerateEmbedding, modelVersion: 'test-model' },
+  normalizationService: { normalize: jest.fn(async (text: string) => text.trim()) },
+}));
+
+import { memoryIndexingService } from '../services/memories/memoryIndexingService';
+import { jobQueue } from '../services/jobs/jobQueue';
+import { config } from '../config';
+import { NotFoundError } from '../utils/errors';
+import { JobType, ProcessingStatus, TagOrigin } from '../types';
+
+describe('memoryIndexingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindContext.mockResolvedValue(null);
+    mockFindPeople.mockResolvedValue([]);
+    mockFindTags.mockResolvedValue([]);
+    mockGetLabels.mockResolvedValue(new Map());
+    mockGenerateEmbedding.mockResolvedValue([0.1]);
+    mockMemoryRepository.findByIdInternal.mockResolvedValue({
+      id: 'm1',
+      transcript: 'Dinner at the harbour',
+      processingStatus: ProcessingStatus.Completed,
+    });
+  });
+
+  it('builds index text from note, transcript and confirmed curation only', async () => {
+    mockFindContext.mockResolvedValue({ userNote: 'Anniversary', locationName: 'Sydney', confirmed: true });
+    mockFindPeople.mockResolvedValue([
+      { personName: 'Ana', confirmed: true },
+      { personName: 'Suggested', confirmed: false },
+    ]);
+    mockFindTags.mockResolvedValue([
+      { tag: 'dinner', origin: TagOrigin.User },
+      { tag: 'ai-guess', origin: TagOrigin.AI },
+    ]);
+    mockGetLabels.mockResolvedValue(new Map([['m1', [{ name: 'Family' }]]]));
+
+    const text = await memoryIndexingService.buildIndexText('m1', 'Dinner at the harbour');
+
+    expect(text).toBe(
+      'User note: Anniversary\n\nDinner at the harbour\n\nPlace: Sydney\nPeople: Ana\nTags: dinner\nLabels: Family'
+    );
+  });
+
+  it('keeps the plain note-plus-transcript text when there is no curation', async () => {
+    mockFindContext.mockResolvedValue({ userNote: 'Anniversary', locationName: 'Guess', confirmed: false });
+
+    expect(await memoryIndexingService.buildIndexText('m1', 'Dinner')).toBe('User note: Anniversary\n\nDinner');
+  });
+
+  it('adds text read from a photo after the caption', async () => {
+    mockMemoryRepository.findByIdInternal.mockResolvedValue({ id: 'm1', ocrText: 'WIFI: cafe-guest\nPW: latte2024' });
+
+    expect(await memoryIndexingService.buildIndexText('m1', 'A chalkboard sign in a cafe')).toBe(
+      'A chalkboard sign in a cafe\n\nText in photo: WIFI: cafe-guest\nPW: latte2024'
+    );
+  });
+
+  it('re-embeds a processed memory', async () => {
+    expect(await memoryIndexingService.reindexMemory('m1')).toBe(true);
+    expect(mockGenerateEmbedding).toHaveBeenCalledWith('Dinner at the harbour');
+    expect(mockUpsertEmbedding).toHaveBeenCalledWith({ memoryId: 'm1', embedding: [0.1], modelVersion: 'test-model' });
+  });
+
+  it('embeds again when curation changes while embedding', async () => {
+    mockFindTags
+      .mockResolvedValueOnce([])
+      .mockResolvedValue([{ tag: 'boat', origin: TagOrigin.User }]);
+
+    await memoryIndexingService.reindexMemory('m1');
+
+    expect(mockGenerateEmbedding.mock.calls.map((c) => c[0])).toEqual([
+      'Dinner at the harbour',
+      'Dinner at the harbour\n\nTags: boat',
+    ]);
+    expect(mockUpsertEmbedding).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips memories that are trashed or not processed yet', async () => {
+    mockMemoryRepository.findByIdInternal.mockRejectedValueOnce(new NotFoundError('Memory', 'm1'));
+    expect(await memoryIndexingService.reindexMemory('m1')).toBe(false);
+
+    mockMemoryRepository.findByIdInternal.mockResolvedValueOnce({ id: 'm1', processingStatus: ProcessingStatus.Pending });
+    expect(await memoryIndexingService.reindexMemory('m1')).toBe(false);
+
+    expect(mockUpsertEmbedding).not.toHaveBeenCalled();
+  });
+});
+
+describe('jobQueue.scheduleReindex', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('enqueues a delayed job, or pushes back the one already waiting', async () => {
+    const before = Date.now();
+    mockJobRepository.enqueue.mockResolvedValueOnce({ id: 'j1' });
+    await jobQueue.scheduleReindex('m1', 'u1');
+
+    const input = mockJobRepository.enqueue.mock.calls[0][0];
+    expect(input).toMatchObject({ type: JobType.ReindexMemory, memoryId: 'm1', userId: 'u1' });
+    expect(input.runAt.getTime()).toBeGreaterThanOrEqual(before + config.reindexDebounceMs);
+    expect(mockJobRepository.deferQueued).not.toHaveBeenCalled();
+
+    mockJobRepository.enqueue.mockResolvedValueOnce(null);
+    await jobQueue.scheduleReindex('m1', 'u1');
+    expect(mockJobRepository.deferQueued).toHaveBeenCalledWith(
+      JobType.ReindexMemory,
+      'm1',
+      expect.any(Date),
+      undefined
+    );
+  });
+});
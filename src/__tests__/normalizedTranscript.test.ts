@@ -0,0 +1,77 @@
+/**
+ * Normalized transcript tests
+ * Verify normalization reports the chat model that rewrote the text, and that API responses
+ * carry the raw transcript, the normalized one, or both as requested
+ */
+
+import { normalizationService } from '../services/ai';
+import { serializeMemory, parseTranscriptVariant } from '../utils/serializeMemory';
+import { ValidationError } from '../utils/errors';
+import { Memory, MemorySourceEnum, MediaType, ProcessingStatus } from '../types';
+
+function memory(overrides: Partial<Memory> = {}): Memory {
+  return {
+    id: 'm1',
+    userId: 'user-1',
+    createdAt: new Date('2026-05-01T10:00:00Z'),
+    capturedAt: new Date('2026-05-01T10:00:00Z'),
+    source: MemorySourceEnum.Voice,
+    mediaType: MediaType.Audio,
+    storagePath: 'user-1/m1.m4a',
+    transcript: 'Um, so like, we went to the market, you know',
+    normalizedTranscript: 'We went to the market',
+    normalizationModel: 'local-template-v1',
+    processingStatus: ProcessingStatus.Completed,
+    ...overrides,
+  };
+}
+
+describe('normalizationService.normalizeWithModel', () => {
+  it('stamps text rewritten by the chat model', async () => {
+    expect(await normalizationService.normalizeWithModel('Um, so like, I went to the park today, you know'))
+      .toEqual({ text: 'I went to the park today', model: 'local-template-v1' });
+  });
+
+  it('reports no model when the text is kept as-is', async () => {
+    expect(await normalizationService.normalizeWithModel('  Dinner at the harbour with the team. '))
+      .toEqual({ text: 'Dinner at the harbour with the team.', model: null });
+  });
+});
+
+describe('serializeMemory transcript selection', () => {
+  it('returns the raw transcript by default', () => {
+    const body = serializeMemory(memory());
+    expect(body.transcript).toBe('Um, so like, we went to the market, you know');
+    expect(body).not.toHaveProperty('normalizedTranscript');
+    expect(body).not.toHaveProperty('normalizationModel');
+  });
+
+  it('puts the normalized transcript in place of the raw one', () => {
+    const body = serializeMemory(memory(), { transcript: 'normalized' });
+    expect(body.transcript).toBe('We went to the market');
+    expect(body.normalizationModel).toBe('local-template-v1');
+  });
+
+  it('falls back to the raw transcript before a memory has been normalized', () => {
+    const body = serializeMemory(
+      memory({ normalizedTranscript: undefined, normalizationModel: undefined }),
+      { transcript: 'normalized' }
+    );
+    expect(body.transcript).toBe('Um, so like, we went to the market, you know');
+  });
+
+  it('returns both side by side', () => {
+    const body = serializeMemory(memory(), { transcript: 'both' });
+    expect(body).toMatchObject({
+      transcript: 'Um, so like, we went to the market, you know',
+      normalizedTranscript: 'We went to the market',
+      normalizationModel: 'local-template-v1',
+    });
+  });
+
+  it('rejects unknown ?transcript values', () => {
+    expect(parseTranscriptVariant(undefined)).toBe('raw');
+    expect(parseTranscriptVariant('both')).toBe('both');
+    expect(() => parseTranscriptVariant('clean')).toThrow(ValidationError);
+  });
+});
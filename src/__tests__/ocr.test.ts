@@ -0,0 +1,74 @@
+/**
+ * Photo text (OCR) tests
+ * Verify text read from photos keeps its line breaks, and reaches the answer prompt verbatim
+ * next to the caption
+ */
+
+const mockReadText = jest.fn();
+const mockChatComplete = jest.fn();
+jest.mock('../services/ai/providers', () => ({
+  getAIProvider: () => ({ readText: mockReadText, chatComplete: mockChatComplete }),
+}));
+
+const mockSearchEvents = jest.fn();
+jest.mock('../services/retrieval/eventRetrievalService', () => ({
+  eventRetrievalService: { search: mockSearchEvents },
+}));
+
+jest.mock('../utils/retry', () => ({ withRetry: (fn: () => Promise<unknown>) => fn() }));
+
+jest.mock('../db/repositories', () => ({
+  memoryLabelRepository: { getLabelsByMemoryIds: jest.fn(async () => new Map()) },
+}));
+
+import { ocrService } from '../services/ai/ocrService';
+import { answerService } from '../services/answer/answerService';
+import { AIServiceError } from '../utils/errors';
+
+const image = { filename: 'sign.jpg', open: jest.fn() };
+
+describe('ocrService.readText', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('keeps line breaks and trims padding', async () => {
+    mockReadText.mockResolvedValue('\n  WIFI: cafe-guest   \nPW: latte2024\n\n');
+
+    expect(await ocrService.readText(image)).toEqual({ text: 'WIFI: cafe-guest\nPW: latte2024' });
+  });
+
+  it('reports provider failures as AI service errors', async () => {
+    mockReadText.mockRejectedValue(new Error('rate limited'));
+
+    await expect(ocrService.readText(image)).rejects.toBeInstanceOf(AIServiceError);
+  });
+});
+
+describe('answerService photo text evidence', () => {
+  it('gives the model the photo text as a quotable line under the caption', async () => {
+    const memory = {
+      id: 'm1',
+      transcript: 'A chalkboard sign by the counter of a cafe.',
+      ocrText: 'WIFI: cafe-guest\nPW: latte2024',
+    };
+    mockSearchEvents.mockResolvedValue({
+      events: [{
+        event: { id: 'e1', title: 'Coffee in Porto', summary: null, startTime: new Date('2026-05-01') },
+        primaryMemory: memory,
+        supportingMemories: [],
+        contextMemories: [],
+        relevanceScore: 0.8,
+      }],
+      segments: {},
+    });
+    mockChatComplete.mockResolvedValue('The password was "latte2024".');
+
+    const result = await answerService.generateAnswer('What was the wifi password at the cafe?', 'user-1');
+
+    expect(result.answer).toBe('The password was "latte2024".');
+    const { messages } = mockChatComplete.mock.calls[0][0];
+    expect(messages[0].content).toContain('Quote text in photos exactly');
+    expect(messages[1].content).toContain(
+      '  - A chalkboard sign by the counter of a cafe.\n    Text in photo: "WIFI: cafe-guest / PW: latte2024"'
+    );
+  });
+});
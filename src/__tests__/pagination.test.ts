@@ -0,0 +1,160 @@
+/**
+ * Keyset pagination tests
+ * Verify opaque cursors, the (captured_at, id) keyset query and GET /api/memories filters
+ */
+
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { v4 as uuid } from 'uuid';
+import { decodeCursor, encodeCursor, parsePageQuery } from '../utils/cursor';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret-for-testing-only';
+const USER = 'user-1';
+
+const mockQuery = jest.fn();
+jest.mock('../db', () => ({
+  getPool: jest.fn().mockReturnValue({ query: (...args: unknown[]) => mockQuery(...args) }),
+  withTransaction: jest.fn(),
+  closePool: jest.fn(),
+}));
+
+jest.mock('../db/repositories/memoryContextRepository', () => ({
+  memoryContextRepository: { findByMemoryIds: jest.fn().mockResolvedValue(new Map()) },
+}));
+
+jest.mock('../services/storage/storageService', () => ({
+  storageService: { initialize: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../services/auth/authService', () => {
+  const jwt = require('jsonwebtoken');
+  const secret = process.env.JWT_SECRET || 'test-jwt-secret-for-testing-only';
+  return {
+    authService: {
+      verifyToken: jest.fn().mockImplementation((t: string) => jwt.verify(t, secret)),
+      generateToken: jest.fn(),
+    },
+  };
+});
+
+import { app } from '../app';
+import { memoryRepository } from '../db/repositories/memoryRepository';
+
+function row(id: string, key: string) {
+  return {
+    id,
+    user_id: USER,
+    created_at: new Date(key),
+    captured_at: new Date(key),
+    source: 'upload',
+    media_type: 'photo',
+    storage_path: `image/${id}.jpg`,
+    transcript: null,
+    ai_summary: null,
+    processing_status: 'completed',
+    cursor_key: key,
+  };
+}
+
+function get(path: string) {
+  const token = jwt.sign({ userId: USER }, JWT_SECRET, { expiresIn: '1h' });
+  return request(app).get(path).set('Authorization', `Bearer ${token}`);
+}
+
+describe('cursor', () => {
+  const cursor = { key: '2026-05-01T10:00:00.123456Z', id: uuid() };
+
+  it('round-trips and is opaque', () => {
+    const encoded = encodeCursor('memories', cursor);
+    expect(encoded).not.toContain(cursor.id);
+    expect(decodeCursor('memories', encoded)).toEqual(cursor);
+  });
+
+  it('rejects tampered cursors and cursors from another listing', () => {
+    expect(() => decodeCursor('events', encodeCursor('memories', cursor))).toThrow('Invalid cursor');
+    expect(() => decodeCursor('memories', 'not-a-cursor')).toThrow('Invalid cursor');
+    expect(() => decodeCursor('memories', encodeCursor('memories', { ...cursor, id: "x' OR 1=1" }))).toThrow(
+      'Invalid cursor'
+    );
+  });
+
+  it('validates limit', () => {
+    expect(parsePageQuery({}, 'events', 50).limit).toBe(50);
+    expect(() => parsePageQuery({ limit: '0' }, 'memories')).toThrow('Limit must be between 1 and 100');
+    expect(() => parsePageQuery({ limit: 'abc' }, 'memories')).toThrow();
+  });
+});
+
+describe('memoryRepository.listPage', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('fetches one extra row to decide whether there is a next page', async () => {
+    const ids = [uuid(), uuid(), uuid()];
+    mockQuery.mockResolvedValueOnce({
+      rows: [row(ids[0], '2026-05-03T00:00:00.000001Z'), row(ids[1], '2026-05-02T00:00:00.000000Z'), row(ids[2], '2026-05-01T00:00:00.000000Z')],
+    });
+
+    const page = await memoryRepository.listPage(USER, {}, { limit: 2, includeTotal: false });
+
+    expect(page.items.map((m) => m.id)).toEqual(ids.slice(0, 2));
+    expect(decodeCursor('memories', page.nextCursor!)).toEqual({ key: '2026-05-02T00:00:00.000000Z', id: ids[1] });
+    expect(page.total).toBeUndefined();
+    const [sql, values] = mockQuery.mock.calls[0];
+    expect(sql).toContain('ORDER BY m.captured_at DESC, m.id DESC');
+    expect(values).toEqual([USER, 3]);
+  });
+
+  it('continues after the cursor and counts without it', async () => {
+    const cursor = { key: '2026-05-02T00:00:00.000000Z', id: uuid() };
+    mockQuery
+      .mockResolvedValueOnce({ rows: [row(uuid(), '2026-05-01T00:00:00.000000Z')] })
+      .mockResolvedValueOnce({ rows: [{ total: 3 }] });
+
+    const page = await memoryRepository.listPage(
+      USER,
+      { tag: 'Beach', place: '100%' },
+      { limit: 2, cursor, includeTotal: true }
+    );
+
+    expect(page.nextCursor).toBeNull();
+    expect(page.total).toBe(3);
+    const [sql, values] = mockQuery.mock.calls[0];
+    expect(sql).toContain('(m.captured_at, m.id) < ($4::timestamptz, $5::uuid)');
+    expect(values).toEqual([USER, 'Beach', '%100\\%%', cursor.key, cursor.id, 3]);
+    const [countSql, countValues] = mockQuery.mock.calls[1];
+    expect(countSql).not.toContain('m.captured_at, m.id');
+    expect(countValues).toEqual([USER, 'Beach', '%100\\%%']);
+  });
+});
+
+describe('GET /api/memories', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('passes filters and page options to listPage', async () => {
+    const listPage = jest
+      .spyOn(memoryRepository, 'listPage')
+      .mockResolvedValue({ items: [], nextCursor: null, total: 0 });
+    const labelId = uuid();
+
+    const res = await get(
+      `/api/memories?limit=5&includeTotal=true&mediaType=photo&processingStatus=completed&label=${labelId}&person=Sam&from=2026-01-01`
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toEqual({ memories: [], count: 0, nextCursor: null, total: 0 });
+    expect(listPage).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ mediaType: 'photo', processingStatus: 'completed', labelId, person: 'Sam', from: new Date('2026-01-01') }),
+      { limit: 5, cursor: undefined, includeTotal: true }
+    );
+  });
+
+  it('rejects unknown filter values and bad cursors', async () => {
+    const listPage = jest.spyOn(memoryRepository, 'listPage');
+
+    expect((await get('/api/memories?mediaType=sticker')).status).toBe(400);
+    expect((await get('/api/memories?label=rex')).status).toBe(400);
+    expect((await get('/api/memories?cursor=abc')).status).toBe(400);
+    expect(listPage).not.toHaveBeenCalled();
+  });
+});
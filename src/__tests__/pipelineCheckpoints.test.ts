@@ -0,0 +1,193 @@
+/**
+ * Pipeline checkpoint tests
+ * Verify each stage records its status, attempts, error and duration (also published to the
+ * live stream), that a retry after a late failure resumes at the failed stage without
+ * transcribing again, and that a user retry is handed to the job worker
+ */
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn((fn: (c: unknown) => Promise<unknown>) => fn({})),
+  closePool: jest.fn(),
+}));
+
+const memory = {
+  id: 'm1',
+  userId: 'user-1',
+  mediaType: 'audio',
+  storagePath: 'audio/m1.m4a',
+  processingStatus: 'pending',
+};
+
+// In-memory memory_processing_stages, with outputs round-tripped through JSON like JSONB
+const stages = new Map<string, any>();
+const mockStageRepository = {
+  findByMemoryId: jest.fn(async () => [...stages.values()].map((s) => ({ ...s }))),
+  start: jest.fn(async (memoryId: string, stage: string) => {
+    const previous = stages.get(stage);
+    stages.set(stage, { memoryId, stage, status: 'running', attempts: (previous?.attempts ?? 0) + 1 });
+    return { ...stages.get(stage) };
+  }),
+  complete: jest.fn(async (_memoryId: string, stage: string, durationMs: number, output: unknown) => {
+    const stored = output == null ? undefined : JSON.parse(JSON.stringify(output));
+    Object.assign(stages.get(stage), { status: 'completed', durationMs, output: stored });
+  }),
+  fail: jest.fn(async (_memoryId: string, stage: string, durationMs: number, lastError: string) => {
+    Object.assign(stages.get(stage), { status: 'failed', durationMs, lastError });
+  }),
+  clearOutputs: jest.fn(async () => stages.forEach((s) => delete s.output)),
+};
+
+const mockMemoryRepository = {
+  findByIdInternal: jest.fn(async () => ({ ...memory })),
+  updateInternal: jest.fn(async (_id: string, input: Record<string, unknown>) => {
+    Object.assign(memory, input);
+    return { ...memory };
+  }),
+};
+jest.mock('../db/repositories', () => ({
+  memoryRepository: mockMemoryRepository,
+  memoryEmbeddingRepository: { create: jest.fn() },
+  memoryContextRepository: { findByMemoryId: jest.fn(async () => null), upsert: jest.fn() },
+  memorySegmentRepository: { replaceForMemory: jest.fn() },
+  memoryProcessingStageRepository: mockStageRepository,
+}));
+
+jest.mock('../services/storage/storageService', () => ({
+  storageService: { mediaSource: jest.fn((p: string) => ({ filename: p, open: jest.fn() })) },
+}));
+
+const mockTranscribe = jest.fn();
+const mockNormalize = jest.fn();
+const mockGenerateEmbedding = jest.fn();
+jest.mock('../services/ai', () => ({
+  whisperService: { transcribe: mockTranscribe },
+  normalizationService: { normalizeWithModel: mockNormalize },
+  summarizationService: {
+    summarize: jest.fn(async () => ({ title: 'Market run', summary: 'I went to the market.', fallback: false })),
+  },
+  embeddingService: {
+    modelVersion: 'test-model',
+    generateEmbedding: mockGenerateEmbedding,
+    generateEmbeddings: jest.fn(async (texts: string[]) => texts.map(() => [0.3])),
+  },
+}));
+
+jest.mock('../services/media/videoService', () => ({ videoService: {} }));
+jest.mock('../services/media/renditionService', () => ({ renditionService: {} }));
+const mockRequeue = jest.fn();
+jest.mock('../services/jobs/jobQueue', () => ({
+  jobQueue: { enqueue: jest.fn(), requeueMemoryProcessing: mockRequeue },
+}));
+const mockPublish = jest.fn();
+jest.mock('../services/realtime/realtimeService', () => ({ realtimeService: { publish: mockPublish } }));
+jest.mock('../services/memories/memoryIndexingService', () => ({
+  memoryIndexingService: { buildIndexText: jest.fn(async (_id: string, text: string) => text) },
+}));
+
+import { memoryPipeline } from '../services/pipeline/memoryPipeline';
+import { ProcessingError } from '../utils/errors';
+
+describe('memoryPipeline stage checkpoints', () => {
+  beforeAll(() => {
+    mockTranscribe.mockResolvedValue({
+      text: 'Um, we went to the market',
+      segments: [{ start: 0, end: 2.5, text: 'Um, we went to the market' }],
+    });
+    mockNormalize.mockResolvedValue({ text: 'We went to the market', model: 'test-chat' });
+  });
+
+  it('records the failed stage and keeps the output of the stages before it', async () => {
+    mockGenerateEmbedding.mockRejectedValueOnce(new Error('embedding timeout'));
+
+    await expect(memoryPipeline.processMemory({ memoryId: 'm1' })).rejects.toBeInstanceOf(ProcessingError);
+
+    expect(memory.processingStatus).toBe('failed');
+    expect([...stages.keys()]).toEqual(['metadata', 'extract', 'normalize', 'summarize', 'embed']);
+    expect(stages.get('extract')).toMatchObject({
+      status: 'completed',
+      attempts: 1,
+      output: { text: 'Um, we went to the market', segments: [{ start: 0, end: 2.5, text: 'Um, we went to the market' }] },
+    });
+    expect(stages.get('embed')).toMatchObject({ status: 'failed', attempts: 1, lastError: 'embedding timeout' });
+    expect(typeof stages.get('embed').durationMs).toBe('number');
+    expect(mockPublish).toHaveBeenCalledWith('user-1', {
+      type: 'memory.stage',
+      data: expect.objectContaining({ memoryId: 'm1', stage: 'embed', status: 'failed', attempts: 1, error: 'embedding timeout' }),
+    });
+    expect(mockPublish).toHaveBeenLastCalledWith('user-1', {
+      type: 'memory.status',
+      data: expect.objectContaining({ memoryId: 'm1', processingStatus: 'failed' }),
+    });
+  });
+
+  it('resumes at the failed stage on retry without transcribing again', async () => {
+    mockGenerateEmbedding.mockResolvedValue([0.1, 0.2]);
+
+    const result = await memoryPipeline.retryFailedMemory('m1');
+
+    expect(result.memory).toMatchObject({
+      processingStatus: 'completed',
+      transcript: 'Um, we went to the market',
+      normalizedTranscript: 'We went to the market',
+      normalizationModel: 'test-chat',
+      aiTitle: 'Market run',
+    });
+    expect(mockTranscribe).toHaveBeenCalledTimes(1);
+    expect(mockNormalize).toHaveBeenCalledTimes(1);
+    expect(stages.get('extract')).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(stages.get('embed')).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(stages.get('extract').output).toBeUndefined();
+    expect(mockPublish).toHaveBeenLastCalledWith('user-1', {
+      type: 'memory.status',
+      data: { memoryId: 'm1', processingStatus: 'completed' },
+    });
+  });
+
+  it('keeps the memory completed when a failure follows the embed commit, and a retry re-extracts', async () => {
+    Object.assign(memory, { processingStatus: 'pending' });
+    stages.clear();
+    mockMemoryRepository.updateInternal.mockClear();
+    mockPublish.mockImplementation(async (_userId: string, event: any) => {
+      if (event.data.stage === 'embed' && event.data.status === 'completed') throw new Error('stream down');
+    });
+
+    const result = await memoryPipeline.processMemory({ memoryId: 'm1' });
+
+    mockPublish.mockReset();
+    expect(result.memory.processingStatus).toBe('completed');
+    expect(memory.processingStatus).toBe('completed');
+    expect(mockMemoryRepository.updateInternal).not.toHaveBeenCalledWith('m1', { processingStatus: 'failed' });
+    // Recorded in the completion transaction
+    expect(stages.get('embed')).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(mockStageRepository.complete).toHaveBeenCalledWith('m1', 'embed', expect.any(Number), null, {});
+
+    // Completed checkpoints whose outputs were cleared are run again rather than reused
+    Object.assign(memory, { processingStatus: 'failed' });
+    mockTranscribe.mockClear();
+    const retried = await memoryPipeline.retryFailedMemory('m1');
+
+    expect(retried.memory).toMatchObject({ processingStatus: 'completed', transcript: 'Um, we went to the market' });
+    expect(mockTranscribe).toHaveBeenCalledTimes(1);
+    expect(stages.get('extract')).toMatchObject({ status: 'completed', attempts: 2 });
+  });
+
+  it('requeues a failed memory for the worker instead of running it', async () => {
+    Object.assign(memory, { processingStatus: 'failed' });
+    mockTranscribe.mockClear();
+
+    const requeued = await memoryPipeline.requeueFailedMemory('m1');
+
+    expect(requeued.processingStatus).toBe('pending');
+    expect(mockRequeue).toHaveBeenCalledWith('m1', 'user-1', {});
+    expect(mockTranscribe).not.toHaveBeenCalled();
+  });
+
+  it('rejects requeueing a memory that has not failed', async () => {
+    Object.assign(memory, { processingStatus: 'completed' });
+    mockRequeue.mockClear();
+
+    await expect(memoryPipeline.requeueFailedMemory('m1')).rejects.toBeInstanceOf(ProcessingError);
+    expect(mockRequeue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Rank fusion tests
+ * Verify RRF merges lexical and vector candidates and reports the matching channels
+ */
+
+import { reciprocalRankFusion, toOrTsQuery, RRF_K } from '../services/retrieval/rankFusion';
+
+describe('reciprocalRankFusion', () => {
+  it('ranks ids found by both channels above single-channel hits', () => {
+    const fused = reciprocalRankFusion([
+      { channel: 'vector', ids: ['a', 'b', 'c'] },
+      { channel: 'lexical', ids: ['c', 'd'] },
+    ]);
+
+    expect(fused[0]).toMatchObject({ id: 'c', channels: ['vector', 'lexical'] });
+    expect(fused.map((f) => f.id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(fused.find((f) => f.id === 'd')!.channels).toEqual(['lexical']);
+  });
+
+  it('normalizes so the top of every non-empty channel scores 1', () => {
+    const both = reciprocalRankFusion([
+      { channel: 'vector', ids: ['a'] },
+      { channel: 'lexical', ids: ['a'] },
+    ]);
+    expect(both[0].score).toBeCloseTo(1, 10);
+
+    // An empty lexical channel does not halve vector-only scores
+    const vectorOnly = reciprocalRankFusion([
+      { channel: 'vector', ids: ['a', 'b'] },
+      { channel: 'lexical', ids: [] },
+    ]);
+    expect(vectorOnly[0].score).toBeCloseTo(1, 10);
+    expect(vectorOnly[1].score).toBeCloseTo((RRF_K + 1) / (RRF_K + 2), 10);
+  });
+
+  it('returns nothing when every channel is empty', () => {
+    expect(reciprocalRankFusion([{ channel: 'vector', ids: [] }])).toEqual([]);
+  });
+});
+
+describe('toOrTsQuery', () => {
+  it('ORs unique words and drops tsquery syntax', () => {
+    expect(toOrTsQuery("Coffee at Blue Bottle & Jojo's!")).toBe('coffee | at | blue | bottle | jojo | s');
+    expect(toOrTsQuery('café café')).toBe('café');
+  });
+
+  it('returns null when there are no words', () => {
+    expect(toOrTsQuery(' !? :* ')).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Live update tests
+ * Verify updates go out as user-scoped NOTIFY payloads, reach only that user's subscribers
+ * over a single LISTEN connection, and are written to GET /api/stream as SSE events
+ */
+
+import { EventEmitter } from 'events';
+
+const mockClients: any[] = [];
+jest.mock('pg', () => {
+  const { EventEmitter: Emitter } = jest.requireActual('events');
+  class Client extends Emitter {
+    connect = jest.fn(async () => undefined);
+    query = jest.fn(async () => ({ rows: [] }));
+    end = jest.fn(async () => undefined);
+    constructor() {
+      super();
+      mockClients.push(this);
+    }
+  }
+  return { Client };
+});
+
+const mockPoolQuery = jest.fn();
+jest.mock('../db', () => ({ getPool: () => ({ query: mockPoolQuery }) }));
+
+import { realtimeService } from '../services/realtime/realtimeService';
+import { streamController } from '../controllers/streamController';
+import { ProcessingStatus } from '../types';
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function notify(userId: string, type: string, data: Record<string, unknown>) {
+  mockClients[mockClients.length - 1].emit('notification', {
+    channel: 'glimps_realtime',
+    payload: JSON.stringify({ userId, type, data }),
+  });
+}
+
+describe('realtimeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClients.length = 0;
+  });
+
+  it('publishes user-scoped updates with pg_notify', async () => {
+    await realtimeService.publish('user-1', {
+      type: 'memory.status',
+      data: { memoryId: 'm1', processingStatus: ProcessingStatus.Completed },
+    });
+
+    expect(mockPoolQuery).toHaveBeenCalledWith('SELECT pg_notify($1, $2)', [
+      'glimps_realtime',
+      JSON.stringify({ userId: 'user-1', type: 'memory.status', data: { memoryId: 'm1', processingStatus: 'completed' } }),
+    ]);
+  });
+
+  it('drops updates too large for a NOTIFY payload', async () => {
+    await realtimeService.publish('user-1', {
+      type: 'event.created',
+      data: { eventId: 'e1', title: 'x'.repeat(9000), memoryIds: [] },
+    });
+
+    expect(mockPoolQuery).not.toHaveBeenCalled();
+  });
+
+  it('shares one LISTEN connection and delivers only the subscriber’s updates', async () => {
+    const first = jest.fn();
+    const second = jest.fn();
+    const other = jest.fn();
+    const unsubscribeFirst = realtimeService.subscribe('user-1', first);
+    const unsubscribeSecond = realtimeService.subscribe('user-1', second);
+    const unsubscribeOther = realtimeService.subscribe('user-2', other);
+    await flush();
+
+    expect(mockClients).toHaveLength(1);
+    expect(mockClients[0].query).toHaveBeenCalledWith('LISTEN glimps_realtime');
+
+    notify('user-1', 'memory.status', { memoryId: 'm1', processingStatus: 'processing' });
+    expect(first).toHaveBeenCalledWith({ type: 'memory.status', data: { memoryId: 'm1', processingStatus: 'processing' } });
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(other).not.toHaveBeenCalled();
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    expect(mockClients[0].end).not.toHaveBeenCalled();
+    unsubscribeOther();
+    await flush();
+    expect(mockClients[0].end).toHaveBeenCalled();
+  });
+});
+
+describe('GET /api/stream', () => {
+  beforeEach(() => {
+    mockClients.length = 0;
+  });
+
+  it('writes the user’s updates as SSE events until the client disconnects', async () => {
+    const req = Object.assign(new EventEmitter(), { userId: 'user-1' });
+    const res = {
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      write: jest.fn(),
+    };
+
+    streamController.stream(req as any, res as any);
+    await flush();
+    notify('user-1', 'context.suggested', { memoryId: 'm1', people: ['Ana'], tags: [] });
+    notify('user-2', 'memory.status', { memoryId: 'm2', processingStatus: 'failed' });
+
+    expect(res.setHeader).toHaveBeenCalledWith('Content-Type', 'text/event-stream');
+    expect(res.write.mock.calls.map(([chunk]) => chunk)).toEqual([
+      'retry: 3000\n\n',
+      'event: ready\ndata: {"userId":"user-1"}\n\n',
+      'event: context.suggested\ndata: {"memoryId":"m1","people":["Ana"],"tags":[]}\n\n',
+    ]);
+
+    req.emit('close');
+    await flush();
+    expect(mockClients[0].end).toHaveBeenCalled();
+  });
+});
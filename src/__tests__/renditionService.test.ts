@@ -0,0 +1,65 @@
+/**
+ * Rendition tests
+ * Verify thumbnails are fixed squares, previews keep the aspect ratio upright per the EXIF
+ * orientation, and no GPS (or other EXIF) metadata is carried into a rendition
+ */
+
+import sharp from 'sharp';
+import exifr from 'exifr';
+
+const stored = new Map<string, Buffer>();
+jest.mock('../services/storage/storageService', () => {
+  const actual = jest.requireActual('../services/storage/storageService');
+  return {
+    renditionPath: actual.renditionPath,
+    storageService: {
+      storeRendition: jest.fn(async (originalPath: string, size: string, image: Buffer, format: { ext: string }) => {
+        const target = actual.renditionPath(originalPath, size, format.ext);
+        stored.set(target, image);
+        return target;
+      }),
+    },
+  };
+});
+
+import { renditionService } from '../services/media/renditionService';
+import { config } from '../config';
+
+/** 400x200 JPEG shot with the camera turned (orientation 6) and a GPS fix */
+function cameraPhoto(): Promise<Buffer> {
+  return sharp({ create: { width: 400, height: 200, channels: 3, background: '#3a7' } })
+    .jpeg()
+    .withMetadata({ orientation: 6 })
+    .withExif({ IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '51/1 30/1 0/1' } })
+    .toBuffer();
+}
+
+describe('renditionService.generate', () => {
+  beforeEach(() => stored.clear());
+
+  it('stores a square thumbnail and an upright preview beside the original', async () => {
+    const original = await cameraPhoto();
+    expect(await exifr.gps(original)).toBeDefined();
+
+    const renditions = await renditionService.generate('image/abc.jpg', original);
+
+    expect(renditions).toEqual({ thumb: 'image/abc.thumb.webp', preview: 'image/abc.preview.webp' });
+
+    const thumb = await sharp(stored.get('image/abc.thumb.webp')!).metadata();
+    expect([thumb.format, thumb.width, thumb.height]).toEqual(['webp', config.thumbnailSize, config.thumbnailSize]);
+
+    // Rotated 90°: the landscape sensor image is a portrait photo
+    const preview = await sharp(stored.get('image/abc.preview.webp')!).metadata();
+    expect([preview.width, preview.height]).toEqual([200, 400]);
+  });
+
+  it('strips EXIF, including GPS, from every rendition', async () => {
+    await renditionService.generate('image/abc.jpg', await cameraPhoto());
+
+    for (const image of stored.values()) {
+      const metadata = await sharp(image).metadata();
+      expect(metadata.exif).toBeUndefined(); // GPS lives in the EXIF block
+      expect(metadata.xmp).toBeUndefined();
+    }
+  });
+});
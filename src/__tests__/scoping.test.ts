@@ -1,6 +1,7 @@
 /**
  * User scoping tests (integration)
- * Phase 6: Verify cross-user data isolation at the repository level
+ * Phase 6: Verify cross-user data isolation at the repository level, including the
+ * event formation candidate lookup
  *
  * These tests require a real Postgres database. They are skipped automatically
  * if DATABASE_URL points to a non-reachable host.
@@ -105,4 +106,41 @@ describe('User scoping (integration)', () => {
     // Cleanup
     await pool.query('DELETE FROM memories WHERE id = ANY($1::uuid[])', [[memA.id, memB.id]]);
   });
+
+  it('event formation candidates are the owner\'s memories nearest in capture time', async () => {
+    if (!pool) return; // skip: no test DB available
+    const { memoryRepository } = await import('../db/repositories/memoryRepository');
+
+    const around = new Date('2020-06-01T12:00:00Z');
+    const at = (minutes: number) => new Date(around.getTime() + minutes * 60 * 1000);
+    const create = (userId: string, capturedAt: Date) =>
+      memoryRepository.create({
+        userId,
+        capturedAt,
+        source: 'upload' as any,
+        mediaType: 'photo' as any,
+        storagePath: '/test/p.jpg',
+        processingStatus: 'completed' as any,
+      });
+
+    // Uploaded just now, but captured years ago around `around`
+    const early = await create(userAId, at(-50));
+    const near = await create(userAId, at(-5));
+    const after = await create(userAId, at(10));
+    const outside = await create(userAId, at(120));
+    const otherUser = await create(userBId, at(1));
+    const recent = await create(userAId, new Date());
+
+    const ids = (memories: { id: string }[]) => memories.map((m) => m.id);
+    expect(ids(await memoryRepository.listInTimeWindowWithContextInternal(userAId, around, 60)))
+      .toEqual([early.id, near.id, after.id]);
+    // Capped: the nearest win, not the earliest
+    expect(ids(await memoryRepository.listInTimeWindowWithContextInternal(userAId, around, 60, 2)))
+      .toEqual([near.id, after.id]);
+
+    // Cleanup
+    await pool.query('DELETE FROM memories WHERE id = ANY($1::uuid[])', [
+      [early.id, near.id, after.id, outside.id, otherUser.id, recent.id],
+    ]);
+  });
 });
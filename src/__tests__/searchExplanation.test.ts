@@ -0,0 +1,208 @@
+/**
+ * Search explanation tests
+ * Verify POST /api/search explains each result, points voice hits at the matching segment and
+ * logs the same explanation
+ */
+
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import { MediaType, MemorySourceEnum, ProcessingStatus, TagOrigin } from '../types';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret-for-testing-only';
+const USER = 'user-1';
+const NOW = new Date();
+
+const mockFindSimilar = jest.fn();
+const mockFindDistances = jest.fn();
+jest.mock('../db/repositories/memoryEmbeddingRepository', () => ({
+  memoryEmbeddingRepository: { findSimilar: mockFindSimilar, findDistances: mockFindDistances },
+}));
+
+const mockFindSimilarSegments = jest.fn();
+const mockSearchSegmentText = jest.fn();
+const mockFindBestSegments = jest.fn();
+jest.mock('../db/repositories/memorySegmentRepository', () => ({
+  memorySegmentRepository: {
+    findSimilar: mockFindSimilarSegments,
+    searchText: mockSearchSegmentText,
+    findBestMatches: mockFindBestSegments,
+  },
+}));
+
+const mockSearchText = jest.fn();
+const mockFindByIds = jest.fn();
+jest.mock('../db/repositories/memoryRepository', () => ({
+  memoryRepository: { searchText: mockSearchText, findByIds: mockFindByIds },
+}));
+
+jest.mock('../db/repositories/memoryContextRepository', () => ({
+  memoryContextRepository: {
+    findByMemoryIds: jest.fn().mockResolvedValue(
+      new Map([
+        ['mem-sam', { memoryId: 'mem-sam', locationName: 'Lake Merritt, Oakland', latitude: 37.8, longitude: -122.25, confirmed: true }],
+        ['mem-far', { memoryId: 'mem-far', locationName: 'Brooklyn', latitude: 40.68, longitude: -73.94, confirmed: true }],
+      ])
+    ),
+  },
+}));
+
+jest.mock('../db/repositories/memoryTagRepository', () => ({
+  memoryTagRepository: {
+    findByMemoryIds: jest.fn().mockResolvedValue(
+      new Map([['mem-sam', [{ id: 't1', memoryId: 'mem-sam', tag: 'picnic', origin: TagOrigin.AI }]]])
+    ),
+  },
+}));
+
+jest.mock('../db/repositories/memoryPeopleRepository', () => ({
+  memoryPeopleRepository: {
+    findByMemoryIds: jest.fn().mockResolvedValue(
+      new Map([['mem-sam', [{ id: 'p1', memoryId: 'mem-sam', personName: 'Sam Lee', confirmed: true }]]])
+    ),
+  },
+}));
+
+jest.mock('../db/repositories/memoryLabelRepository', () => ({
+  memoryLabelRepository: { getLabelsByMemoryIds: jest.fn().mockResolvedValue(new Map()) },
+}));
+
+jest.mock('../db/repositories/labelRepository', () => ({
+  labelRepository: { findByUserId: jest.fn().mockResolvedValue([]) },
+}));
+
+const mockCreateLog = jest.fn().mockResolvedValue({});
+jest.mock('../db/repositories/retrievalLogRepository', () => ({
+  retrievalLogRepository: { create: mockCreateLog },
+}));
+
+jest.mock('../db', () => ({
+  getPool: jest.fn().mockReturnValue({ query: jest.fn().mockResolvedValue({ rows: [] }) }),
+  withTransaction: jest.fn(),
+  closePool: jest.fn(),
+}));
+
+jest.mock('../services/storage/storageService', () => ({
+  storageService: { initialize: jest.fn().mockResolvedValue(undefined) },
+}));
+
+jest.mock('../services/auth/authService', () => {
+  const jwt = require('jsonwebtoken');
+  const secret = process.env.JWT_SECRET || 'test-jwt-secret-for-testing-only';
+  return {
+    authService: {
+      verifyToken: jest.fn().mockImplementation((t: string) => jwt.verify(t, secret)),
+      generateToken: jest.fn(),
+    },
+  };
+});
+
+import { app } from '../app';
+
+function memory(id: string, transcript: string) {
+  return {
+    id,
+    userId: USER,
+    createdAt: NOW,
+    capturedAt: NOW,
+    source: MemorySourceEnum.Upload,
+    mediaType: MediaType.Audio,
+    storagePath: `audio/${id}.m4a`,
+    transcript,
+    processingStatus: ProcessingStatus.Completed,
+  };
+}
+
+function search(body: object) {
+  const token = jwt.sign({ userId: USER }, JWT_SECRET, { expiresIn: '1h' });
+  return request(app).post('/api/search').set('Authorization', `Bearer ${token}`).send(body);
+}
+
+describe('POST /api/search explanations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFindByIds.mockResolvedValue([
+      memory('mem-sam', 'Picnic with Sam by the lake'),
+      memory('mem-far', 'Bagels in the morning'),
+    ]);
+    // mem-sam is a lexical-only hit, so its distance is looked up separately
+    mockFindSimilar.mockResolvedValue([{ memoryId: 'mem-far', distance: 0.4 }]);
+    mockSearchText.mockResolvedValue([{ memoryId: 'mem-sam', rank: 0.3 }]);
+    mockFindDistances.mockResolvedValue(new Map([['mem-sam', 0.55]]));
+    mockFindSimilarSegments.mockResolvedValue([]);
+    mockSearchSegmentText.mockResolvedValue([]);
+    mockFindBestSegments.mockResolvedValue(new Map());
+  });
+
+  it('returns the breakdown, matches and vector distance per result', async () => {
+    const res = await search({ query: 'picnic with Sam at the lake' });
+
+    expect(res.status).toBe(200);
+    const top = res.body.data.results[0];
+    expect(top.memory.id).toBe('mem-sam');
+    expect(top.matchedChannels).toEqual(['lexical']);
+    expect(top.explanation).toMatchObject({
+      matchedTerms: ['picnic', 'sam', 'lake'],
+      matchedEntities: { people: ['sam'], tags: ['picnic'] },
+      vectorDistance: 0.55,
+      lexicalRank: 0.3,
+    });
+    expect(Object.keys(top.explanation.breakdown)).toEqual(['relevance', 'temporal', 'place', 'people', 'tags']);
+    expect(mockFindDistances).toHaveBeenCalledWith(expect.any(Array), ['mem-sam'], USER);
+
+    const other = res.body.data.results[1];
+    expect(other.explanation).toMatchObject({ vectorDistance: 0.4, lexicalRank: null, matchedTerms: [] });
+  });
+
+  it('reports applied filters and the distance from the filter point', async () => {
+    const res = await search({
+      query: 'picnic',
+      filters: { latitude: 37.8, longitude: -122.26, radiusKm: 5 },
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.appliedFilters).toEqual({
+      location: { latitude: 37.8, longitude: -122.26, radiusKm: 5 },
+      excluded: 1,
+    });
+    expect(res.body.data.results).toHaveLength(1);
+    expect(res.body.data.results[0].explanation.distanceKm).toBeLessThan(1);
+  });
+
+  it('points voice hits at the matching segment of the recording', async () => {
+    const segment = (segmentId: string, memoryId: string, startSeconds: number, text: string) =>
+      ({ segmentId, memoryId, startSeconds, endSeconds: startSeconds + 6, text });
+    // s2 matches by vector and text, so it beats s1 although s1 is the closer vector
+    mockFindSimilarSegments.mockResolvedValue([
+      { ...segment('s1', 'mem-far', 12, 'Good morning everyone'), distance: 0.3 },
+      { ...segment('s2', 'mem-far', 312, 'The bagels were still warm'), distance: 0.35 },
+    ]);
+    mockSearchSegmentText.mockResolvedValue([{ ...segment('s2', 'mem-far', 312, 'The bagels were still warm'), rank: 0.2 }]);
+    mockFindBestSegments.mockResolvedValue(new Map([['mem-sam', segment('s9', 'mem-sam', 40, 'Sam brought the blanket')]]));
+
+    const res = await search({ query: 'warm bagels' });
+
+    expect(res.status).toBe(200);
+    const byId = Object.fromEntries(res.body.data.results.map((r: any) => [r.memory.id, r]));
+    expect(byId['mem-far'].matchedChannels).toEqual(['vector', 'segment']);
+    expect(byId['mem-far'].segment).toEqual(segment('s2', 'mem-far', 312, 'The bagels were still warm'));
+    // Memory-level hit: its closest segment is looked up afterwards
+    expect(mockFindBestSegments).toHaveBeenCalledWith(expect.any(Array), ['mem-sam'], USER);
+    expect(byId['mem-sam'].segment.segmentId).toBe('s9');
+
+    const explanation = mockCreateLog.mock.calls[0][0].searchMetadata.explanations
+      .find((e: any) => e.memoryId === 'mem-far');
+    expect(explanation.segment).toEqual({ segmentId: 's2', startSeconds: 312, endSeconds: 318 });
+  });
+
+  it('persists the explanations in the retrieval log', async () => {
+    const res = await search({ query: 'picnic with Sam' });
+
+    expect(mockCreateLog).toHaveBeenCalledTimes(1);
+    const log = mockCreateLog.mock.calls[0][0];
+    expect(log.userId).toBe(USER);
+    expect(log.memoryIds).toEqual(['mem-sam', 'mem-far']);
+    expect(log.searchMetadata.explanations[0]).toEqual(
+      JSON.parse(JSON.stringify({ memoryId: 'mem-sam', matchedChannels: ['lexical'], ...res.body.data.results[0].explanation }))
+    );
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Summarization tests
+ * Verify memory titles and summaries come from the chat provider with the note and place,
+ * stay within the length budget, and fall back to a filler-free excerpt on AI errors
+ */
+
+const mockChatComplete = jest.fn();
+jest.mock('../services/ai/providers', () => ({
+  getAIProvider: () => ({ chatComplete: mockChatComplete }),
+}));
+
+jest.mock('../utils/retry', () => ({ withRetry: (fn: () => Promise<unknown>) => fn() }));
+
+import { summarizationService, clipText } from '../services/ai/summarizationService';
+import { localProvider } from '../services/ai/providers/localProvider';
+import { config } from '../config';
+import { MediaType } from '../types';
+
+describe('summarizationService.summarize', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('asks for a title and summary with the user note and place', async () => {
+    mockChatComplete.mockResolvedValue('TITLE: "Pastéis with Ana."\nSUMMARY: I shared pastéis de nata with Ana by the river.');
+
+    const result = await summarizationService.summarize({
+      text: 'We got pastries by the river and they were still warm',
+      userNote: 'Ana’s birthday',
+      locationName: 'Lisbon, Portugal',
+      mediaType: MediaType.Audio,
+    });
+
+    expect(result).toEqual({
+      title: 'Pastéis with Ana',
+      summary: 'I shared pastéis de nata with Ana by the river.',
+      fallback: false,
+    });
+    const request = mockChatComplete.mock.calls[0][0];
+    expect(request.purpose).toBe('memory_summary');
+    expect(request.messages[1].content).toBe(
+      'Place: Lisbon, Portugal\nUser note: Ana’s birthday\nText (voice note):\nWe got pastries by the river and they were still warm'
+    );
+  });
+
+  it('keeps the title and summary within the length budget', async () => {
+    const long = 'We walked along the harbour and talked about everything that happened this year '.repeat(6);
+    mockChatComplete.mockResolvedValue(`TITLE: ${long}\nSUMMARY: ${long}`);
+
+    const result = await summarizationService.summarize({ text: 'Harbour walk' });
+
+    expect(result.title.length).toBeLessThanOrEqual(config.titleMaxLength);
+    expect(result.summary.length).toBeLessThanOrEqual(config.summaryMaxLength);
+    expect(result.summary).toMatch(/\w\.\.\.$/);
+  });
+
+  it('falls back to a filler-free excerpt when the AI fails', async () => {
+    mockChatComplete.mockRejectedValue(new Error('rate limited'));
+
+    const result = await summarizationService.summarize({
+      text: 'Um so, uh, we finally fixed the fence with Dad. It took all afternoon.',
+    });
+
+    expect(result).toEqual({
+      title: 'We finally fixed the fence with',
+      summary: 'We finally fixed the fence with Dad. It took all afternoon.',
+      fallback: true,
+    });
+  });
+
+  it('falls back when the response is not in the expected format', async () => {
+    mockChatComplete.mockResolvedValue('Sure! Here is a summary of your memory.');
+
+    const result = await summarizationService.summarize({ text: 'Picnic in the park', userNote: 'First picnic of spring' });
+
+    expect(result).toMatchObject({ title: 'First picnic of spring', summary: 'Picnic in the park', fallback: true });
+  });
+});
+
+describe('local provider memory summaries', () => {
+  it('answers in the format summarizationService parses', async () => {
+    mockChatComplete.mockImplementation((request) => localProvider.chatComplete(request));
+
+    const result = await summarizationService.summarize({
+      text: 'Dinner at the harbour with the team. The fish was great.',
+      mediaType: MediaType.Text,
+    });
+
+    expect(result).toEqual({
+      title: 'Dinner at the harbour with',
+      summary: 'Dinner at the harbour with the team.',
+      fallback: false,
+    });
+  });
+});
+
+describe('clipText', () => {
+  it('cuts at a word boundary', () => {
+    expect(clipText('Coffee with Sam at the corner cafe', 20)).toBe('Coffee with Sam...');
+    expect(clipText('  Short  text ', 20)).toBe('Short text');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Trash tests
+ * Verify soft delete moves memories (and emptied events) to the trash, restore brings
+ * them back with their events, and the purge deletes only expired trash
+ */
+
+const client = {};
+
+jest.mock('../db', () => ({
+  getPool: jest.fn(),
+  withTransaction: jest.fn((fn: (c: unknown) => Promise<unknown>) => fn(client)),
+  closePool: jest.fn(),
+}));
+
+const mockMemoryRepository = {
+  findByIds: jest.fn(),
+  findTrashedByIds: jest.fn(),
+  softDelete: jest.fn(),
+  restore: jest.fn(),
+  listTrashed: jest.fn(),
+  listTrashedBeforeInternal: jest.fn(),
+};
+jest.mock('../db/repositories/memoryRepository', () => ({ memoryRepository: mockMemoryRepository }));
+
+const mockEventRepository = {
+  findTrashedByIds: jest.fn(),
+  restore: jest.fn(),
+  listTrashed: jest.fn(),
+  delete: jest.fn(),
+};
+jest.mock('../db/repositories/eventRepository', () => ({ eventRepository: mockEventRepository }));
+
+const mockLinkRepository = {
+  findByMemoryIds: jest.fn(),
+  findByEventId: jest.fn(),
+};
+jest.mock('../db/repositories/memoryEventLinkRepository', () => ({
+  memoryEventLinkRepository: mockLinkRepository,
+}));
+
+const mockReconcileEvent = jest.fn();
+jest.mock('../services/events/eventEditingService', () => ({
+  eventEditingService: { reconcileEvent: mockReconcileEvent },
+}));
+
+const mockEnqueueProcessing = jest.fn();
+jest.mock('../services/jobs/jobQueue', () => ({
+  jobQueue: { enqueueMemoryProcessing: mockEnqueueProcessing },
+}));
+
+const mockDeleteMemories = jest.fn();
+jest.mock('../services/memories/memoryDeletionService', () => ({
+  memoryDeletionService: { deleteMemories: mockDeleteMemories },
+}));
+
+import { trashService } from '../services/memories/trashService';
+import { config } from '../config';
+import { NotFoundError } from '../utils/errors';
+import { ProcessingStatus } from '../types';
+
+const USER = 'user-1';
+const DAY = 24 * 60 * 60 * 1000;
+
+function memory(id: string, processingStatus = ProcessingStatus.Completed) {
+  return { id, userId: USER, storagePath: `image/${id}.jpg`, processingStatus };
+}
+
+describe('trashService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMemoryRepository.findTrashedByIds.mockResolvedValue([]);
+    mockEventRepository.findTrashedByIds.mockResolvedValue([]);
+    mockEventRepository.restore.mockResolvedValue([]);
+  });
+
+  it('trashes memories and reports events that were trashed or refreshed', async () => {
+    mockMemoryRepository.findByIds.mockResolvedValue([memory('m1'), memory('m2')]);
+    mockMemoryRepository.softDelete.mockResolvedValue([memory('m1'), memory('m2')]);
+    mockLinkRepository.findByMemoryIds.mockResolvedValue([
+      { memoryId: 'm1', eventId: 'e-partial' },
+      { memoryId: 'm2', eventId: 'e-all' },
+    ]);
+    mockReconcileEvent.mockImplementation(async (eventId: string) => (eventId === 'e-all' ? 'trashed' : 'updated'));
+
+    const result = await trashService.trashMemories(['m1', 'm2'], USER);
+
+    expect(mockMemoryRepository.softDelete).toHaveBeenCalledWith(['m1', 'm2'], USER, client);
+    expect(result).toEqual({
+      trashedMemoryIds: ['m1', 'm2'],
+      updatedEventIds: ['e-partial'],
+      trashedEventIds: ['e-all'],
+    });
+  });
+
+  it('trashes nothing when a memory is missing', async () => {
+    mockMemoryRepository.findByIds.mockResolvedValue([memory('m1')]);
+
+    await expect(trashService.trashMemories(['m1', 'm-other'], USER)).rejects.toBeInstanceOf(NotFoundError);
+    expect(mockMemoryRepository.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('restores an event together with the memories trashed with it', async () => {
+    mockEventRepository.findTrashedByIds.mockResolvedValue([{ id: 'e1' }]);
+    mockLinkRepository.findByEventId.mockResolvedValue([
+      { memoryId: 'm1', eventId: 'e1' },
+      { memoryId: 'm2', eventId: 'e1' },
+    ]);
+    mockMemoryRepository.findTrashedByIds.mockImplementation(async (ids: string[]) => ids.map((id) => memory(id)));
+    mockMemoryRepository.restore.mockResolvedValue([memory('m1'), memory('m2', ProcessingStatus.Pending)]);
+    mockLinkRepository.findByMemoryIds.mockResolvedValue([
+      { memoryId: 'm1', eventId: 'e1' },
+      { memoryId: 'm2', eventId: 'e1' },
+    ]);
+    mockEventRepository.restore.mockResolvedValue(['e1']);
+
+    const result = await trashService.restore({ eventIds: ['e1'] }, USER);
+
+    expect(mockMemoryRepository.restore).toHaveBeenCalledWith(['m1', 'm2'], USER, client);
+    expect(mockEventRepository.restore).toHaveBeenCalledWith(['e1'], USER, client);
+    expect(mockReconcileEvent).toHaveBeenCalledWith('e1', USER, client);
+    // Only the unprocessed memory goes back on the queue
+    expect(mockEnqueueProcessing).toHaveBeenCalledTimes(1);
+    expect(mockEnqueueProcessing).toHaveBeenCalledWith('m2', USER, undefined, client);
+    expect(result).toEqual({ restoredMemoryIds: ['m1', 'm2'], restoredEventIds: ['e1'] });
+  });
+
+  it('rejects restoring a memory that is not in the trash', async () => {
+    await expect(trashService.restore({ memoryIds: ['m1'] }, USER)).rejects.toBeInstanceOf(NotFoundError);
+    expect(mockMemoryRepository.restore).not.toHaveBeenCalled();
+  });
+
+  it('empties the trash in batches, including every leftover trashed event', async () => {
+    mockMemoryRepository.listTrashed
+      .mockResolvedValueOnce([{ id: 'm1' }, { id: 'm2' }])
+      .mockResolvedValueOnce([]);
+    mockDeleteMemories.mockResolvedValueOnce({ deletedMemoryIds: ['m1', 'm2'], deletedEventIds: ['e1'] });
+    // More leftover events than fit in one page
+    mockEventRepository.listTrashed
+      .mockResolvedValueOnce([{ id: 'e2' }, { id: 'e3' }])
+      .mockResolvedValueOnce([{ id: 'e4' }])
+      .mockResolvedValueOnce([]);
+
+    const result = await trashService.emptyTrash(USER);
+
+    expect(mockEventRepository.delete.mock.calls.map(([id]) => id)).toEqual(['e2', 'e3', 'e4']);
+    expect(result).toEqual({ deletedMemoryIds: ['m1', 'm2'], deletedEventIds: ['e1', 'e2', 'e3', 'e4'] });
+  });
+
+  it('purges memories trashed before the retention window, per user', async () => {
+    const now = new Date('2026-06-30T00:00:00Z');
+    mockMemoryRepository.listTrashedBeforeInternal
+      .mockResolvedValueOnce([
+        { id: 'm1', userId: 'u1' },
+        { id: 'm2', userId: 'u2' },
+        { id: 'm3', userId: 'u1' },
+      ])
+      .mockResolvedValueOnce([]);
+    mockDeleteMemories.mockImplementation(async (ids: string[]) => ({ deletedMemoryIds: ids }));
+
+    expect(await trashService.purgeExpiredInternal(now)).toBe(3);
+    expect(mockMemoryRepository.listTrashedBeforeInternal.mock.calls[0][0]).toEqual(
+      new Date(now.getTime() - config.trashRetentionDays * DAY)
+    );
+    expect(mockDeleteMemories).toHaveBeenCalledWith(['m1', 'm3'], 'u1');
+    expect(mockDeleteMemories).toHaveBeenCalledWith(['m2'], 'u2');
+  });
+});
@@ -5,32 +5,24 @@
 
 import request from 'supertest';
 import crypto from 'crypto';
+import { Readable } from 'stream';
 
 // Mock heavy dependencies before app import
 jest.mock('../services/storage/storageService', () => ({
   storageService: {
     initialize: jest.fn().mockResolvedValue(undefined),
     storeFileFromBuffer: jest.fn().mockResolvedValue({ path: '/stored/test-file.m4a' }),
+    storeText: jest.fn().mockResolvedValue({ path: 'text/note.txt' }),
+    getDownloadUrl: jest.fn().mockResolvedValue(null),
+    getFileSize: jest.fn(),
+    openReadStream: jest.fn(),
   },
+  modalityFromExtension: jest.requireActual('../services/storage/storageService').modalityFromExtension,
 }));
 
-jest.mock('../services/pipeline/memoryPipeline', () => ({
-  memoryPipeline: {
-    processMemory: jest.fn().mockResolvedValue({
-      memory: {
-        id: 'mem-id-1',
-        userId: 'user-id-1',
-        capturedAt: new Date(),
-        source: 'upload',
-        mediaType: 'audio',
-        storagePath: '/stored/test-file.m4a',
-        processingStatus: 'complete',
-        transcript: null,
-        summary: null,
-        locationName: null,
-      },
-      processingTimeMs: 100,
-    }),
+jest.mock('../services/jobs/jobQueue', () => ({
+  jobQueue: {
+    enqueueMemoryProcessing: jest.fn().mockResolvedValue({ id: 'job-id-1' }),
   },
 }));
 
@@ -45,6 +37,7 @@ jest.mock('../db/repositories/memoryRepository', () => ({
       storagePath: '/stored/test-file.m4a',
       processingStatus: 'pending',
     }),
+    findById: jest.fn(),
   },
 }));
 
@@ -76,11 +69,14 @@ jest.mock('../services/auth/authService', () => ({
 
 import { app } from '../app';
 import { memoryContextRepository } from '../db/repositories/memoryContextRepository';
+import { memoryRepository } from '../db/repositories/memoryRepository';
+import { jobQueue } from '../services/jobs/jobQueue';
+import { storageService } from '../services/storage/storageService';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret-for-testing-only';
 
-function makeSignedUploadUrl(userId: string, fileType: 'voice' | 'image'): { url: string; fileKey: string } {
-  const ext = fileType === 'voice' ? 'm4a' : 'jpg';
+function makeSignedUploadUrl(userId: string, fileType: 'voice' | 'image' | 'video' | 'text'): { url: string; fileKey: string } {
+  const ext = { voice: 'm4a', image: 'jpg', video: 'mp4', text: 'txt' }[fileType];
   const fileKey = `${userId}/${Date.now()}-abc123.${ext}`;
   const expiresAt = Date.now() + 3600 * 1000;
   const signature = crypto
@@ -141,6 +137,13 @@ describe('POST /api/upload/signed', () => {
         locationName: 'London',
       })
     );
+
+    // Processing is handed to the durable job queue, not run inline
+    expect(jobQueue.enqueueMemoryProcessing).toHaveBeenCalledWith(
+      'mem-id-1',
+      VALID_USER_ID,
+      expect.objectContaining({ latitude: 51.5074, longitude: -0.1278, locationName: 'London' })
+    );
   });
 
   it('returns 201 without calling context upsert when no location is provided', async () => {
@@ -185,3 +188,185 @@ describe('POST /api/upload/signed', () => {
     expect(res.body.ok).toBe(false);
   });
 });
+
+describe('text memories', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts a signed .txt upload as a text memory', async () => {
+    const { url } = makeSignedUploadUrl(VALID_USER_ID, 'text');
+
+    const res = await request(app)
+      .post(url)
+      .attach('file', Buffer.from('Remember to call the plumber'), 'note.txt');
+
+    expect(res.status).toBe(201);
+    expect(memoryRepository.create).toHaveBeenCalledWith(expect.objectContaining({ mediaType: 'text' }));
+    expect(jobQueue.enqueueMemoryProcessing).toHaveBeenCalled();
+  });
+
+  it('rejects an empty signed .txt upload', async () => {
+    const { url } = makeSignedUploadUrl(VALID_USER_ID, 'text');
+
+    const res = await request(app)
+      .post(url)
+      .attach('file', Buffer.from('   '), 'note.txt');
+
+    expect(res.status).toBe(400);
+    expect(memoryRepository.create).not.toHaveBeenCalled();
+  });
+
+  it('creates a text memory from a JSON body', async () => {
+    const res = await request(app)
+      .post('/api/memories/text')
+      .set('Authorization', 'Bearer valid-test-token')
+      .send({ text: '  Idea: a bike trip along the coast  ', locationName: 'Lisbon' });
+
+    expect(res.status).toBe(201);
+    expect(storageService.storeText).toHaveBeenCalledWith('Idea: a bike trip along the coast');
+    expect(memoryRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'test-user-id', mediaType: 'text', storagePath: 'text/note.txt' })
+    );
+    expect(jobQueue.enqueueMemoryProcessing).toHaveBeenCalledWith(
+      'mem-id-1',
+      'test-user-id',
+      { locationName: 'Lisbon' }
+    );
+  });
+
+  it('rejects a missing or oversized text', async () => {
+    const missing = await request(app)
+      .post('/api/memories/text')
+      .set('Authorization', 'Bearer valid-test-token')
+      .send({});
+    const oversized = await request(app)
+      .post('/api/memories/text')
+      .set('Authorization', 'Bearer valid-test-token')
+      .send({ text: 'a'.repeat(10001) });
+
+    expect(missing.status).toBe(400);
+    expect(oversized.status).toBe(400);
+    expect(memoryRepository.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('video memories', () => {
+  const CLIP = Buffer.from('0123456789');
+
+  beforeEach(() => {
+    (memoryRepository.findById as jest.Mock).mockResolvedValue({
+      id: 'mem-id-1',
+      mediaType: 'video',
+      storagePath: 'video/clip.mp4',
+    });
+    (storageService.getFileSize as jest.Mock).mockResolvedValue(CLIP.length);
+    (storageService.openReadStream as jest.Mock).mockImplementation(async (_path, range) =>
+      Readable.from([range ? CLIP.subarray(range.start, range.end + 1) : CLIP])
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('accepts a signed .mp4 upload as a video memory', async () => {
+    const { url } = makeSignedUploadUrl(VALID_USER_ID, 'video');
+
+    const res = await request(app)
+      .post(url)
+      .attach('file', CLIP, { filename: 'clip.mp4', contentType: 'video/mp4' });
+
+    expect(res.status).toBe(201);
+    expect(memoryRepository.create).toHaveBeenCalledWith(expect.objectContaining({ mediaType: 'video' }));
+  });
+
+  it('serves the whole clip as video/mp4 and advertises range support', async () => {
+    const res = await request(app)
+      .get('/api/memories/a0b1c2d3-e4f5-6789-abcd-ef0123456789/asset')
+      .set('Authorization', 'Bearer valid-test-token')
+      .responseType('blob');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('video/mp4');
+    expect(res.headers['accept-ranges']).toBe('bytes');
+    expect(res.body.toString()).toBe('0123456789');
+  });
+
+  it('serves a requested byte range with 206', async () => {
+    const res = await request(app)
+      .get('/api/memories/a0b1c2d3-e4f5-6789-abcd-ef0123456789/asset')
+      .set('Authorization', 'Bearer valid-test-token')
+      .set('Range', 'bytes=2-5')
+      .responseType('blob');
+
+    expect(res.status).toBe(206);
+    expect(res.headers['content-range']).toBe('bytes 2-5/10');
+    expect(res.headers['content-length']).toBe('4');
+    expect(res.body.toString()).toBe('2345');
+    expect(storageService.openReadStream).toHaveBeenCalledWith('video/clip.mp4', { start: 2, end: 5 });
+  });
+
+  it('rejects an unsatisfiable range with 416', async () => {
+    const res = await request(app)
+      .get('/api/memories/a0b1c2d3-e4f5-6789-abcd-ef0123456789/asset')
+      .set('Authorization', 'Bearer valid-test-token')
+      .set('Range', 'bytes=20-30');
+
+    expect(res.status).toBe(416);
+    expect(res.headers['content-range']).toBe('bytes */10');
+    expect(storageService.openReadStream).not.toHaveBeenCalled();
+  });
+});
+
+describe('photo renditions', () => {
+  const ASSET_URL = '/api/memories/a0b1c2d3-e4f5-6789-abcd-ef0123456789/asset';
+  const photo = {
+    id: 'mem-id-1',
+    mediaType: 'photo',
+    storagePath: 'image/p.jpg',
+    renditions: { thumb: 'image/p.thumb.webp', preview: 'image/p.preview.webp' },
+  };
+
+  beforeEach(() => {
+    (storageService.getFileSize as jest.Mock).mockResolvedValue(3);
+    (storageService.openReadStream as jest.Mock).mockImplementation(async () => Readable.from([Buffer.from('img')]));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('serves the requested rendition', async () => {
+    (memoryRepository.findById as jest.Mock).mockResolvedValue(photo);
+
+    const res = await request(app)
+      .get(`${ASSET_URL}?size=thumb`)
+      .set('Authorization', 'Bearer valid-test-token');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('image/webp');
+    expect(storageService.openReadStream).toHaveBeenCalledWith('image/p.thumb.webp');
+  });
+
+  it('falls back to the original until renditions exist', async () => {
+    (memoryRepository.findById as jest.Mock).mockResolvedValue({ ...photo, renditions: undefined });
+
+    const res = await request(app)
+      .get(`${ASSET_URL}?size=preview`)
+      .set('Authorization', 'Bearer valid-test-token');
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('image/jpeg');
+    expect(storageService.openReadStream).toHaveBeenCalledWith('image/p.jpg');
+  });
+
+  it('rejects an unknown size', async () => {
+    const res = await request(app)
+      .get(`${ASSET_URL}?size=huge`)
+      .set('Authorization', 'Bearer valid-test-token');
+
+    expect(res.status).toBe(400);
+    expect(memoryRepository.findById).not.toHaveBeenCalled();
+  });
+});
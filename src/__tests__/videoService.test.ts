@@ -0,0 +1,140 @@
+/**
+ * Video service tests
+ * Verify keyframe sampling, the time-aligned merge of captions and speech, and that a clip is
+ * probed, captioned per keyframe and transcribed from its audio track (ffmpeg is mocked)
+ */
+
+import fs from 'fs';
+
+const mockExecFile = jest.fn();
+jest.mock('child_process', () => ({ execFile: mockExecFile }));
+
+jest.mock('../services/storage/storageService', () => ({
+  storageService: { getLocalPath: jest.fn((p: string) => `/uploads/${p}`) },
+}));
+
+const mockCaption = jest.fn();
+const mockTranscribe = jest.fn();
+jest.mock('../services/ai', () => ({
+  visionService: { caption: mockCaption },
+  whisperService: { transcribe: mockTranscribe },
+}));
+
+import { videoService, mergeTimeline, sampleKeyframeTimes, timelineSegments } from '../services/media/videoService';
+import { ProcessingError } from '../utils/errors';
+
+type ExecCallback = (error: Error | null, stdout: string, stderr: string) => void;
+
+/** ffprobe reports the given duration/streams; ffmpeg writes its output file */
+function fakeTools(durationSeconds: number, streams: string[]): void {
+  mockExecFile.mockImplementation((command: string, args: string[], _opts: unknown, cb: ExecCallback) => {
+    if (command === 'ffprobe') {
+      cb(null, JSON.stringify({
+        format: { duration: String(durationSeconds) },
+        streams: streams.map((codec_type) => ({ codec_type })),
+      }), '');
+      return;
+    }
+    fs.writeFileSync(args[args.length - 1], 'frame-or-audio');
+    cb(null, '', '');
+  });
+}
+
+describe('sampleKeyframeTimes', () => {
+  it('takes one frame per interval from the middle of each slot', () => {
+    expect(sampleKeyframeTimes(12, 5, 8)).toEqual([2, 6, 10]);
+  });
+
+  it('spreads the maximum number of frames over long clips', () => {
+    expect(sampleKeyframeTimes(100, 5, 4)).toEqual([12.5, 37.5, 62.5, 87.5]);
+  });
+
+  it('falls back to the first frame when the duration is unknown', () => {
+    expect(sampleKeyframeTimes(0, 5, 8)).toEqual([0]);
+  });
+});
+
+describe('mergeTimeline', () => {
+  it('interleaves scenes and speech by time, scenes first on ties', () => {
+    const text = mergeTimeline(
+      [{ at: 2, caption: 'A beach at sunset' }, { at: 65, caption: 'Kids building a sandcastle' }],
+      [{ start: 2, end: 4, text: 'Look at that!' }, { start: 30, end: 33, text: ' So warm today ' }]
+    );
+
+    expect(text).toBe([
+      '[0:02] Scene: A beach at sunset',
+      '[0:02] "Look at that!"',
+      '[0:30] "So warm today"',
+      '[1:05] Scene: Kids building a sandcastle',
+    ].join('\n'));
+  });
+
+  it('drops empty captions and speech', () => {
+    expect(mergeTimeline([{ at: 0, caption: ' ' }], [{ start: 1, end: 2, text: '' }])).toBe('');
+  });
+});
+
+describe('timelineSegments', () => {
+  it('times each line, scenes lasting until the next keyframe or the end of the clip', () => {
+    const segments = timelineSegments(
+      [{ at: 2, caption: 'A beach at sunset' }, { at: 65, caption: 'Kids building a sandcastle' }],
+      [{ start: 30, end: 33, text: ' So warm today ' }],
+      90
+    );
+
+    expect(segments).toEqual([
+      { start: 2, end: 65, text: 'Scene: A beach at sunset' },
+      { start: 30, end: 33, text: '"So warm today"' },
+      { start: 65, end: 90, text: 'Scene: Kids building a sandcastle' },
+    ]);
+  });
+});
+
+describe('videoService.transcribe', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCaption.mockResolvedValue({ caption: 'A dog on the grass' });
+  });
+
+  it('captions keyframes and merges timed speech from the audio track', async () => {
+    fakeTools(8, ['video', 'audio']);
+    mockTranscribe.mockResolvedValue({
+      text: 'Good boy',
+      segments: [{ start: 3.2, end: 4, text: 'Good boy' }],
+    });
+
+    const result = await videoService.transcribe('video/clip.mp4');
+
+    expect(result).toEqual({
+      text: '[0:02] Scene: A dog on the grass\n[0:03] "Good boy"\n[0:06] Scene: A dog on the grass',
+      segments: [
+        { start: 2, end: 6, text: 'Scene: A dog on the grass' },
+        { start: 3.2, end: 4, text: '"Good boy"' },
+        { start: 6, end: 8, text: 'Scene: A dog on the grass' },
+      ],
+      durationSeconds: 8,
+      keyframes: 2,
+      speechSegments: 1,
+    });
+    expect(mockExecFile.mock.calls[0][1]).toContain('/uploads/video/clip.mp4');
+    expect(mockTranscribe).toHaveBeenCalledWith(expect.objectContaining({ filename: 'audio.m4a' }));
+  });
+
+  it('skips transcription for clips without an audio track', async () => {
+    fakeTools(3, ['video']);
+
+    const result = await videoService.transcribe('video/silent.mov');
+
+    expect(result.text).toBe('[0:01] Scene: A dog on the grass');
+    expect(mockTranscribe).not.toHaveBeenCalled();
+  });
+
+  it('fails with a ProcessingError when ffprobe is missing', async () => {
+    mockExecFile.mockImplementation((_c: string, _a: string[], _o: unknown, cb: ExecCallback) => {
+      cb(Object.assign(new Error('spawn ffprobe ENOENT'), { code: 'ENOENT' }), '', '');
+    });
+
+    await expect(videoService.transcribe('video/clip.mp4')).rejects.toBeInstanceOf(ProcessingError);
+    expect(mockCaption).not.toHaveBeenCalled();
+  });
+});
@@ -2,6 +2,7 @@
  * Centralized Configuration
  */
 
+import path from 'path';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -15,16 +16,75 @@ interface Config {
   // Database
   databaseUrl: string;
 
-  // OpenAI
-  openaiApiKey: string;
+  // AI provider
+  aiProvider: 'openai' | 'local';
+  openaiApiKey: string; // Required only when aiProvider is 'openai'
+  openaiChatModel: string;
+  openaiVisionModel: string;
+  openaiTranscriptionModel: string;
+  openaiEmbeddingModel: string;
 
   // Storage
-  storagePath: string;
+  storageDriver: 'local' | 's3';
+  storagePath: string; // Local driver root
+  s3Bucket: string; // Required only when storageDriver is 's3'
+  s3Region: string;
+  s3Endpoint?: string; // S3-compatible services (MinIO etc.)
+  s3AccessKeyId?: string; // Falls back to the default AWS credential chain
+  s3SecretAccessKey?: string;
+  s3ForcePathStyle: boolean;
+  storagePresignExpiresSeconds: number;
   maxFileSize: number; // bytes
+  maxTextMemoryLength: number; // characters in a text memory
+  importMaxSize: number; // bytes, account import archives
+
+  // Photo renditions
+  renditionFormat: 'webp' | 'jpeg';
+  thumbnailSize: number; // px, square
+  previewSize: number; // px, longest edge
 
   // Processing
   maxRetries: number;
   retryBackoffMs: number;
+  ffmpegPath: string;
+  ffprobePath: string;
+  videoKeyframeIntervalSeconds: number; // One captioned keyframe per this many seconds of video
+  videoMaxKeyframes: number; // Longer clips spread this many keyframes evenly instead
+  gazetteerPath: string; // Offline reverse-geocoding places (GeoNames extract)
+  reverseGeocodeMaxKm: number; // EXIF coordinates farther than this from any place get no name
+  titleMaxLength: number; // characters in a memory's AI title
+  summaryMaxLength: number; // characters in a memory's AI summary
+
+  // Search ranking (hybridScore); weights need not sum to 1
+  searchWeights: {
+    relevance: number;
+    temporal: number;
+    place: number;
+    people: number;
+    tags: number;
+  };
+  searchTemporalHalfLifeDays: number; // Temporal boost halves per this many days outside the queried time
+
+  // Background jobs
+  jobWorkerEnabled: boolean;
+  jobPollIntervalMs: number;
+  jobVisibilityTimeoutMs: number; // Lease length; an unfinished job becomes claimable again after this
+  jobMaxAttempts: number;
+  jobBackoffMs: number;
+
+  // Trash
+  trashRetentionDays: number; // Trashed memories/events are purged after this many days
+  trashPurgeIntervalMs: number;
+
+  // Account exports
+  exportRetentionDays: number; // Export archives are deleted this many days after they were built
+  exportPurgeIntervalMs: number;
+
+  // Indexing
+  reindexDebounceMs: number; // Curation edits within this window re-embed a memory once
+
+  // Live updates (GET /api/stream)
+  streamHeartbeatMs: number; // Comment line sent on idle streams so proxies keep them open
 
   // Authentication
   jwtSecret: string;
@@ -42,6 +102,16 @@ interface Config {
   signedUrlExpiry: number;
 }
 
+function parseWeight(key: string, fallback: number): number {
+  const raw = process.env[key];
+  if (raw === undefined || raw === '') return fallback;
+  const value = parseFloat(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${key}: ${raw} (expected a non-negative number)`);
+  }
+  return value;
+}
+
 function validateEnv(key: string): string {
   const value = process.env[key];
   if (!value) {
@@ -50,6 +120,21 @@ function validateEnv(key: string): string {
   return value;
 }
 
+const aiProvider = process.env.AI_PROVIDER || 'openai';
+if (aiProvider !== 'openai' && aiProvider !== 'local') {
+  throw new Error(`Invalid AI_PROVIDER: ${aiProvider} (expected 'openai' or 'local')`);
+}
+
+const renditionFormat = process.env.RENDITION_FORMAT || 'webp';
+if (renditionFormat !== 'webp' && renditionFormat !== 'jpeg') {
+  throw new Error(`Invalid RENDITION_FORMAT: ${renditionFormat} (expected 'webp' or 'jpeg')`);
+}
+
+const storageDriver = process.env.STORAGE_DRIVER || 'local';
+if (storageDriver !== 'local' && storageDriver !== 's3') {
+  throw new Error(`Invalid STORAGE_DRIVER: ${storageDriver} (expected 'local' or 's3')`);
+}
+
 export const config: Config = {
   // Server
   port: parseInt(process.env.PORT || '3000', 10),
@@ -58,16 +143,75 @@ export const config: Config = {
   // Database
   databaseUrl: validateEnv('DATABASE_URL'),
 
-  // OpenAI
-  openaiApiKey: validateEnv('OPENAI_API_KEY'),
+  // AI provider
+  aiProvider: aiProvider as 'openai' | 'local',
+  openaiApiKey: aiProvider === 'openai' ? validateEnv('OPENAI_API_KEY') : process.env.OPENAI_API_KEY || '',
+  openaiChatModel: process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+  openaiVisionModel: process.env.OPENAI_VISION_MODEL || 'gpt-4o-mini',
+  openaiTranscriptionModel: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1',
+  openaiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-large',
 
   // Storage
+  storageDriver: storageDriver as 'local' | 's3',
   storagePath: process.env.STORAGE_PATH || './storage/uploads',
+  s3Bucket: storageDriver === 's3' ? validateEnv('S3_BUCKET') : process.env.S3_BUCKET || '',
+  s3Region: process.env.S3_REGION || 'us-east-1',
+  s3Endpoint: process.env.S3_ENDPOINT || undefined,
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+  s3ForcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  storagePresignExpiresSeconds: parseInt(process.env.STORAGE_PRESIGN_EXPIRES_SECONDS || '300', 10),
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '52428800', 10), // 50MB default
+  maxTextMemoryLength: parseInt(process.env.MAX_TEXT_MEMORY_LENGTH || '10000', 10),
+  importMaxSize: parseInt(process.env.IMPORT_MAX_SIZE || '10737418240', 10), // 10GB default
+
+  // Photo renditions
+  renditionFormat: renditionFormat as 'webp' | 'jpeg',
+  thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE || '256', 10),
+  previewSize: parseInt(process.env.PREVIEW_SIZE || '1280', 10),
 
   // Processing
   maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
   retryBackoffMs: parseInt(process.env.RETRY_BACKOFF_MS || '1000', 10),
+  ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+  ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+  videoKeyframeIntervalSeconds: parseWeight('VIDEO_KEYFRAME_INTERVAL_SECONDS', 5) || 5,
+  videoMaxKeyframes: parseInt(process.env.VIDEO_MAX_KEYFRAMES || '8', 10),
+  gazetteerPath: process.env.GAZETTEER_PATH || path.join(__dirname, '../../data/geonames/cities15000.tsv'),
+  reverseGeocodeMaxKm: parseWeight('REVERSE_GEOCODE_MAX_KM', 50),
+  titleMaxLength: parseInt(process.env.TITLE_MAX_LENGTH || '60', 10),
+  summaryMaxLength: parseInt(process.env.SUMMARY_MAX_LENGTH || '280', 10),
+
+  // Search ranking
+  searchWeights: {
+    relevance: parseWeight('SEARCH_WEIGHT_RELEVANCE', 0.45),
+    temporal: parseWeight('SEARCH_WEIGHT_TEMPORAL', 0.2),
+    place: parseWeight('SEARCH_WEIGHT_PLACE', 0.2),
+    people: parseWeight('SEARCH_WEIGHT_PEOPLE', 0.1),
+    tags: parseWeight('SEARCH_WEIGHT_TAGS', 0.05),
+  },
+  searchTemporalHalfLifeDays: parseWeight('SEARCH_TEMPORAL_HALF_LIFE_DAYS', 7) || 7,
+
+  // Background jobs
+  jobWorkerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10),
+  jobVisibilityTimeoutMs: parseInt(process.env.JOB_VISIBILITY_TIMEOUT_MS || '300000', 10), // 5 min
+  jobMaxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5', 10),
+  jobBackoffMs: parseInt(process.env.JOB_BACKOFF_MS || '5000', 10),
+
+  // Trash
+  trashRetentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  trashPurgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '3600000', 10), // hourly
+
+  // Account exports
+  exportRetentionDays: parseInt(process.env.EXPORT_RETENTION_DAYS || '7', 10),
+  exportPurgeIntervalMs: parseInt(process.env.EXPORT_PURGE_INTERVAL_MS || '3600000', 10), // hourly
+
+  // Indexing
+  reindexDebounceMs: parseInt(process.env.REINDEX_DEBOUNCE_MS || '10000', 10),
+
+  // Live updates
+  streamHeartbeatMs: parseInt(process.env.STREAM_HEARTBEAT_MS || '25000', 10),
 
   // Authentication
   jwtSecret: process.env.JWT_SECRET || 'dev-secret-change-in-prod',
@@ -3,16 +3,26 @@
  * Phase 6: Delete account and export data (App Store compliance).
  */
 
+import fs from 'fs/promises';
 import { Response, NextFunction } from 'express';
 import { withTransaction } from '../db';
-import { memoryRepository, eventRepository } from '../db/repositories';
+import { accountExportRepository } from '../db/repositories';
+import { accountExportService } from '../services/account/accountExportService';
+import { accountImportService } from '../services/account/accountImportService';
+import { storageService } from '../services/storage/storageService';
 import { AuthRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
 import { ValidationError } from '../utils/errors';
+import { ExportStatus } from '../types';
+
+function exportFileName(date: Date): string {
+  return `glimps-export-${date.toISOString().slice(0, 10)}.tar.gz`;
+}
 
 export class AccountController {
   /**
    * DELETE /api/account
-   * Delete the authenticated user and all their data (cascades).
+   * Delete the authenticated user and all their data (cascades), and their export archives.
    */
   async deleteAccount(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -21,9 +31,15 @@ export class AccountController {
         return next(new ValidationError('User not authenticated'));
       }
 
-      await withTransaction(async (client) => {
+      const exportPaths = await withTransaction(async (client) => {
+        const paths = await accountExportRepository.findStoragePathsByUser(userId, client);
         await client.query('DELETE FROM users WHERE id = $1', [userId]);
+        return paths;
       });
+      // Files go only after the rows are gone
+      for (const exportPath of exportPaths) {
+        await storageService.deleteFile(exportPath);
+      }
 
       res.json({ ok: true, data: { deleted: true } });
     } catch (error) {
@@ -33,31 +49,112 @@ export class AccountController {
 
   /**
    * GET /api/account/export
-   * Export all user data as JSON (memories and events).
+   * Stream the full export archive (.tar.gz) directly. For large libraries prefer
+   * POST /api/account/exports, whose download can be resumed.
    */
   async exportData(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    const userId = req.userId;
+    if (!userId) {
+      return next(new ValidationError('User not authenticated'));
+    }
+
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(new Date())}"`);
+
     try {
-      const userId = req.userId;
-      if (!userId) {
-        return next(new ValidationError('User not authenticated'));
+      await accountExportService.writeArchive(userId, res);
+    } catch (error) {
+      if (!res.headersSent) return next(error);
+      // Mid-stream failure: the archive is truncated, so abort rather than end cleanly
+      logger.error('Streaming account export failed', error, { userId });
+      res.destroy(error instanceof Error ? error : undefined);
+    }
+  }
+
+  /**
+   * POST /api/account/exports
+   * Start building an export archive in the background; while one is pending or running,
+   * returns that one instead.
+   */
+  async createExport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const exp = await accountExportService.requestExport(req.userId!);
+      res.status(202).json({ ok: true, data: { export: exp } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/account/exports/:id
+   */
+  async getExport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const exp = await accountExportRepository.findById(req.params.id, req.userId!);
+      res.json({ ok: true, data: { export: exp } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /api/account/exports/:id/download
+   * Supports HTTP Range requests so interrupted downloads can resume.
+   */
+  async downloadExport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const exp = await accountExportRepository.findById(req.params.id, req.userId!);
+      if (exp.status !== ExportStatus.Completed || !exp.storagePath) {
+        res.status(409).json({
+          ok: false,
+          error: { code: 'EXPORT_NOT_READY', message: `Export is ${exp.status}` },
+        });
+        return;
       }
+      const downloadName = exportFileName(exp.completedAt ?? exp.createdAt);
 
-      const memories = await memoryRepository.listRecent(10000, userId);
-      const events = await eventRepository.listRecent(10000, userId);
-
-      res.json({
-        ok: true,
-        data: {
-          user: { id: userId },
-          memories,
-          events,
-          exportedAt: new Date().toISOString(),
-        },
+      // Object storage serves Range requests itself
+      const url = await storageService.getDownloadUrl(exp.storagePath, {
+        contentType: 'application/gzip',
+        downloadName,
       });
+      if (url) {
+        res.redirect(302, url);
+        return;
+      }
+
+      res.download(
+        storageService.getLocalPath(exp.storagePath)!,
+        downloadName,
+        { acceptRanges: true, headers: { 'Cache-Control': 'private' } },
+        (err) => {
+          if (err && !res.headersSent) next(err);
+        }
+      );
     } catch (error) {
       next(error);
     }
   }
+
+  /**
+   * POST /api/account/import
+   * Restore an export archive (multipart field "archive") into the authenticated account.
+   */
+  async importArchive(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        return next(new ValidationError('No archive uploaded (field "archive")'));
+      }
+      const result = await accountImportService.importArchive(req.userId!, req.file.path);
+      res.status(201).json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    } finally {
+      if (req.file) {
+        await fs.rm(req.file.path, { force: true }).catch(() => undefined);
+      }
+    }
+  }
 }
 
 export const accountController = new AccountController();
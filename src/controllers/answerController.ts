@@ -56,6 +56,7 @@ export class AnswerController {
             capturedAt: m.capturedAt,
             mediaType: m.mediaType,
             locationName: m.locationName,
+            ...(result.segments[m.id] && { segment: result.segments[m.id] }),
           })),
           events: result.events,
           eventIds: result.eventIds,
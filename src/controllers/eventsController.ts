@@ -6,19 +6,45 @@
 import { Response, NextFunction } from 'express';
 import { eventRepository, memoryEventLinkRepository, memoryRepository } from '../db/repositories';
 import { eventRetrievalService } from '../services/retrieval/eventRetrievalService';
+import { eventEditingService } from '../services/events/eventEditingService';
 import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
 import { AuthRequest } from '../middleware/auth';
-import { serializeMemory } from '../utils/serializeMemory';
+import { serializeMemory, parseTranscriptVariant } from '../utils/serializeMemory';
+import { parseDateQuery, parsePageQuery } from '../utils/cursor';
+import { RelationshipType } from '../types';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function requireUUID(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !UUID_REGEX.test(value)) {
+    throw new ValidationError(`${field} must be a valid UUID`);
+  }
+  return value;
+}
 
 export class EventsController {
   /**
    * GET /api/events
+   * Query: limit (default 50), cursor, includeTotal, from, to
    */
   async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.userId!;
-      const events = await eventRepository.listRecent(50, userId);
-      res.json({ ok: true, data: { events } });
+      const page = parsePageQuery(req.query, 'events', 50);
+      const result = await eventRepository.listPage(
+        userId,
+        { from: parseDateQuery(req.query.from, 'from'), to: parseDateQuery(req.query.to, 'to') },
+        page
+      );
+      res.json({
+        ok: true,
+        data: {
+          events: result.items,
+          nextCursor: result.nextCursor,
+          ...(result.total !== undefined && { total: result.total }),
+        },
+      });
     } catch (error) {
       next(error);
     }
@@ -26,11 +52,13 @@ export class EventsController {
 
   /**
    * GET /api/events/:eventId
+   * Query: transcript (raw | normalized | both) for the event's memories
    */
   async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.userId!;
       const { eventId } = req.params;
+      const transcript = parseTranscriptVariant(req.query.transcript);
 
       // Ownership enforced by findById with userId
       const event = await eventRepository.findById(eventId, userId);
@@ -60,9 +88,9 @@ export class EventsController {
         ok: true,
         data: {
           event,
-          primaryMemory: primaryMemory ? serializeMemory(primaryMemory) : undefined,
-          supportingMemories: supportingMemories.map((m) => serializeMemory(m!)),
-          contextMemories: contextMemories.map((m) => serializeMemory(m!)),
+          primaryMemory: primaryMemory ? serializeMemory(primaryMemory, { transcript }) : undefined,
+          supportingMemories: supportingMemories.map((m) => serializeMemory(m!, { transcript })),
+          contextMemories: contextMemories.map((m) => serializeMemory(m!, { transcript })),
         },
       });
     } catch (error) {
@@ -90,6 +118,83 @@ export class EventsController {
       next(error);
     }
   }
+
+  /**
+   * POST /api/events/:eventId/merge
+   * Body: { sourceEventId } — source is merged into :eventId and deleted.
+   */
+  async merge(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { eventId } = req.params;
+      const sourceEventId = requireUUID(req.body.sourceEventId, 'sourceEventId');
+
+      logger.info('Event merge request', { eventId, sourceEventId });
+      const event = await eventEditingService.mergeEvents(eventId, sourceEventId, userId);
+      res.json({ ok: true, data: { event, deletedEventIds: [sourceEventId] } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/events/:eventId/split
+   * Body: { at: ISO timestamp } or { memoryIds: string[] } — matching memories move to a new event.
+   */
+  async split(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { eventId } = req.params;
+      const { at, memoryIds } = req.body;
+
+      let splitAt: Date | undefined;
+      if (at != null) {
+        splitAt = new Date(at);
+        if (isNaN(splitAt.getTime())) throw new ValidationError('at must be a valid timestamp');
+      }
+      if (memoryIds != null) {
+        if (!Array.isArray(memoryIds) || memoryIds.length === 0) {
+          throw new ValidationError('memoryIds must be a non-empty array');
+        }
+        memoryIds.forEach((id: unknown) => requireUUID(id, 'memoryIds[]'));
+      }
+
+      logger.info('Event split request', { eventId, at: splitAt, memoryCount: memoryIds?.length });
+      const result = await eventEditingService.splitEvent(eventId, userId, { at: splitAt, memoryIds });
+      res.status(201).json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/events/:eventId/memories
+   * Body: { memoryId, fromEventId?, relationshipType? } — move a memory into :eventId.
+   */
+  async moveMemory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { eventId } = req.params;
+      const memoryId = requireUUID(req.body.memoryId, 'memoryId');
+      const fromEventId = req.body.fromEventId != null
+        ? requireUUID(req.body.fromEventId, 'fromEventId')
+        : undefined;
+      const relationshipType = req.body.relationshipType as RelationshipType | undefined;
+      if (relationshipType != null && !Object.values(RelationshipType).includes(relationshipType)) {
+        throw new ValidationError('relationshipType must be primary, supporting or context');
+      }
+
+      logger.info('Event memory move request', { eventId, memoryId, fromEventId, relationshipType });
+      const result = await eventEditingService.moveMemory(eventId, userId, {
+        memoryId,
+        fromEventId,
+        relationshipType,
+      });
+      res.json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const eventsController = new EventsController();
@@ -4,13 +4,21 @@
  */
 
 import { Response, NextFunction } from 'express';
-import { labelRepository } from '../db/repositories';
+import { labelRepository, memoryLabelRepository } from '../db/repositories';
+import { jobQueue } from '../services/jobs/jobQueue';
 import { ValidationError } from '../utils/errors';
 import { LabelKind } from '../types';
 import { AuthRequest } from '../middleware/auth';
 
 const VALID_KINDS: LabelKind[] = ['person', 'pet', 'event', 'place', 'note'];
 
+/** Label names are part of each labelled memory's index text */
+async function scheduleReindex(memoryIds: string[], userId: string): Promise<void> {
+  for (const memoryId of memoryIds) {
+    await jobQueue.scheduleReindex(memoryId, userId);
+  }
+}
+
 export class LabelsController {
   async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -66,6 +74,9 @@ export class LabelsController {
         updates.kind = kind as LabelKind;
       }
       const label = await labelRepository.update(id, userId, updates);
+      if (updates.name !== undefined) {
+        await scheduleReindex(await memoryLabelRepository.getMemoryIdsByLabelId(id), userId);
+      }
       res.json({
         ok: true,
         data: { label },
@@ -79,7 +90,9 @@ export class LabelsController {
     try {
       const userId = req.userId!;
       const { id } = req.params;
+      const memoryIds = await memoryLabelRepository.getMemoryIdsByLabelId(id);
       await labelRepository.delete(id, userId);
+      await scheduleReindex(memoryIds, userId);
       res.json({
         ok: true,
         data: { deleted: true },
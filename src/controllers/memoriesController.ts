@@ -5,6 +5,7 @@
 
 import { Response, NextFunction } from 'express';
 import path from 'path';
+import { pipeline } from 'stream/promises';
 import {
   memoryRepository,
   memoryContextRepository,
@@ -12,15 +13,34 @@ import {
   memoryPeopleRepository,
   memoryLabelRepository,
   labelRepository,
+  memoryProcessingStageRepository,
 } from '../db/repositories';
 import { storageService } from '../services/storage/storageService';
 import { memoryPipeline } from '../services/pipeline/memoryPipeline';
+import { trashService } from '../services/memories/trashService';
+import { memoryEditingService } from '../services/memories/memoryEditingService';
+import { jobQueue } from '../services/jobs/jobQueue';
 import { logger } from '../utils/logger';
 import { ValidationError } from '../utils/errors';
-import { serializeMemory } from '../utils/serializeMemory';
-import { MemorySourceEnum, MediaType, ProcessingStatus, TagOrigin, Modality } from '../types';
+import { serializeMemory, parseTranscriptVariant } from '../utils/serializeMemory';
+import { parseTextMemory } from '../utils/textMemory';
+import { parseDateQuery, parsePageQuery } from '../utils/cursor';
+import {
+  MemorySourceEnum,
+  MediaType,
+  ProcessingStatus,
+  TagOrigin,
+  Modality,
+  MemoryListFilters,
+  EditMemoryInput,
+  mediaTypeForModality,
+  RenditionSize,
+} from '../types';
 import { AuthRequest } from '../middleware/auth';
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_BULK_DELETE = 100;
+
 export class MemoriesController {
   /**
    * POST /api/memories/upload
@@ -38,13 +58,14 @@ export class MemoriesController {
       if (req.body.locationName) metadata.locationName = req.body.locationName;
 
       logger.info('Memory upload request', { modality, fileSize: file!.size });
+      if (modality === Modality.Text) parseTextMemory(file!.buffer);
 
       const storedFile = await storageService.storeFile(file!, modality);
       metadata.originalFilename = storedFile.originalName;
       metadata.fileSize = storedFile.size;
       metadata.mimeType = storedFile.mimeType;
 
-      const mediaType = modality === 'voice' ? MediaType.Audio : MediaType.Photo;
+      const mediaType = mediaTypeForModality(modality);
       const memory = await memoryRepository.create({
         userId,
         capturedAt,
@@ -54,11 +75,49 @@ export class MemoriesController {
         processingStatus: ProcessingStatus.Pending,
       });
 
-      const result = await memoryPipeline.processMemory({ memoryId: memory.id, metadata, userId });
+      // Processing runs in the background job worker; clients poll the memory for status.
+      await jobQueue.enqueueMemoryProcessing(memory.id, userId, metadata);
+
+      logger.info('Memory upload accepted', { memoryId: memory.id });
+
+      res.status(201).json({ ok: true, data: { memory: serializeMemory(memory), processingTimeMs: 0 } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/memories/text
+   * Body: { text, recordedAt?, latitude?, longitude?, locationName? } — a typed note; skips
+   * transcription/captioning but is otherwise processed like an upload
+   */
+  async createText(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const body = req.body ?? {};
+      const text = parseTextMemory(body.text);
+      const capturedAt = parseDateQuery(body.recordedAt, 'recordedAt') ?? new Date();
+
+      const metadata: Record<string, any> = {};
+      if (body.latitude != null) metadata.latitude = parseFloat(body.latitude);
+      if (body.longitude != null) metadata.longitude = parseFloat(body.longitude);
+      if (body.locationName) metadata.locationName = body.locationName;
+
+      const storedFile = await storageService.storeText(text);
+      const memory = await memoryRepository.create({
+        userId,
+        capturedAt,
+        source: MemorySourceEnum.Upload,
+        mediaType: MediaType.Text,
+        storagePath: storedFile.path,
+        processingStatus: ProcessingStatus.Pending,
+      });
+
+      await jobQueue.enqueueMemoryProcessing(memory.id, userId, metadata);
 
-      logger.info('Memory upload completed', { memoryId: result.memory.id });
+      logger.info('Text memory accepted', { memoryId: memory.id, textLength: text.length });
 
-      res.status(201).json({ ok: true, data: { memory: serializeMemory(result.memory), processingTimeMs: result.processingTimeMs } });
+      res.status(201).json({ ok: true, data: { memory: serializeMemory(memory), processingTimeMs: 0 } });
     } catch (error) {
       next(error);
     }
@@ -66,6 +125,7 @@ export class MemoriesController {
 
   /**
    * POST /api/memories/:id/retry
+   * Requeues a failed memory (202); clients follow its status like an upload
    */
   async retryProcessing(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -74,8 +134,8 @@ export class MemoriesController {
       // Ownership enforced by findById with userId
       await memoryRepository.findById(memoryId, userId);
       logger.info('Retry processing request', { memoryId });
-      const result = await memoryPipeline.retryFailedMemory(memoryId);
-      res.json({ ok: true, data: { memory: serializeMemory(result.memory), processingTimeMs: result.processingTimeMs } });
+      const memory = await memoryPipeline.requeueFailedMemory(memoryId);
+      res.status(202).json({ ok: true, data: { memory: serializeMemory(memory) } });
     } catch (error) {
       next(error);
     }
@@ -83,43 +143,176 @@ export class MemoriesController {
 
   /**
    * GET /api/memories
+   * Query: limit, cursor, includeTotal, from, to, mediaType, processingStatus, label (id), person, tag, place,
+   * transcript (raw | normalized | both)
    */
   async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.userId!;
-      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
-      if (limit < 1 || limit > 100) throw new ValidationError('Limit must be between 1 and 100');
-      const memories = await memoryRepository.listRecentWithContext(limit, userId);
-      res.json({ ok: true, data: { memories: memories.map(serializeMemory), count: memories.length } });
+      const page = parsePageQuery(req.query, 'memories');
+      const filters = this.parseListFilters(req.query);
+      const transcript = parseTranscriptVariant(req.query.transcript);
+      const result = await memoryRepository.listPage(userId, filters, page);
+      res.json({
+        ok: true,
+        data: {
+          memories: result.items.map((m) => serializeMemory(m, { transcript })),
+          count: result.items.length,
+          nextCursor: result.nextCursor,
+          ...(result.total !== undefined && { total: result.total }),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private parseListFilters(query: Record<string, unknown>): MemoryListFilters {
+    const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+    const filters: MemoryListFilters = {
+      from: parseDateQuery(query.from, 'from'),
+      to: parseDateQuery(query.to, 'to'),
+      person: text(query.person),
+      tag: text(query.tag),
+      place: text(query.place),
+    };
+
+    const mediaType = text(query.mediaType);
+    if (mediaType) {
+      if (!Object.values(MediaType).includes(mediaType as MediaType)) {
+        throw new ValidationError(`mediaType must be one of: ${Object.values(MediaType).join(', ')}`);
+      }
+      filters.mediaType = mediaType as MediaType;
+    }
+    const status = text(query.processingStatus);
+    if (status) {
+      if (!Object.values(ProcessingStatus).includes(status as ProcessingStatus)) {
+        throw new ValidationError(`processingStatus must be one of: ${Object.values(ProcessingStatus).join(', ')}`);
+      }
+      filters.processingStatus = status as ProcessingStatus;
+    }
+    const label = text(query.label);
+    if (label) {
+      if (!UUID_REGEX.test(label)) throw new ValidationError('label must be a valid UUID');
+      filters.labelId = label;
+    }
+    return filters;
+  }
+
+  /**
+   * DELETE /api/memories/:id
+   * Moves the memory to the trash (see /api/trash)
+   */
+  async deleteMemory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = req.params;
+      logger.info('Memory delete request', { memoryId: id });
+      const result = await trashService.trashMemories([id], userId);
+      res.json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/memories/bulk-delete
+   * Body: { memoryIds: string[] } — all or nothing; memories move to the trash
+   */
+  async bulkDelete(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { memoryIds } = req.body;
+      if (!Array.isArray(memoryIds) || memoryIds.length === 0) {
+        throw new ValidationError('memoryIds must be a non-empty array');
+      }
+      if (memoryIds.length > MAX_BULK_DELETE) {
+        throw new ValidationError(`At most ${MAX_BULK_DELETE} memories can be deleted at once`);
+      }
+      for (const id of memoryIds) {
+        if (typeof id !== 'string' || !UUID_REGEX.test(id)) {
+          throw new ValidationError('memoryIds[] must be a valid UUID');
+        }
+      }
+      logger.info('Memory bulk delete request', { memoryCount: memoryIds.length });
+      const result = await trashService.trashMemories(memoryIds, userId);
+      res.json({ ok: true, data: result });
     } catch (error) {
       next(error);
     }
   }
 
   /**
-   * GET /api/memories/:id/asset
+   * GET /api/memories/:id/asset?size=original|thumb|preview
+   * Photos have thumb and preview renditions once processed; until then (and for other media)
+   * every size serves the original. Supports single HTTP Range requests so players can seek
+   * in video and audio.
    */
   async getAsset(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.userId!;
       const { id } = req.params;
+      const size = (req.query.size as string | undefined) ?? 'original';
+      if (size !== 'original' && !Object.values(RenditionSize).includes(size as RenditionSize)) {
+        return next(new ValidationError('size must be "original", "thumb" or "preview"'));
+      }
       // findById enforces ownership
       const memory = await memoryRepository.findById(id, userId);
+      const rendition = size === 'original' ? undefined : memory.renditions?.[size as RenditionSize];
+      const assetPath = rendition ?? memory.storagePath;
 
-      const buffer = await storageService.readFile(memory.storagePath);
-      const ext = path.extname(memory.storagePath).toLowerCase();
+      const ext = path.extname(assetPath).toLowerCase();
       const mimeByExt: Record<string, string> = {
         '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png',
         '.gif': 'image/gif', '.webp': 'image/webp',
         '.m4a': 'audio/mp4', '.mp4': 'audio/mp4', '.mp3': 'audio/mpeg',
         '.wav': 'audio/wav', '.webm': 'audio/webm',
+        '.txt': 'text/plain; charset=utf-8',
+      };
+      // .mp4 is also an audio container; the media type decides
+      const videoMimeByExt: Record<string, string> = {
+        '.mp4': 'video/mp4', '.m4v': 'video/x-m4v', '.mov': 'video/quicktime',
       };
-      const contentType = mimeByExt[ext] ?? 'application/octet-stream';
+      const contentType = (memory.mediaType === MediaType.Video ? videoMimeByExt[ext] : mimeByExt[ext])
+        ?? 'application/octet-stream';
+
+      // Object storage: hand the client a short-lived presigned URL instead of proxying bytes
+      // (object storage serves Range requests itself)
+      const url = await storageService.getDownloadUrl(assetPath, { contentType });
+      if (url) {
+        res.setHeader('Cache-Control', 'private, no-store');
+        res.redirect(302, url);
+        return;
+      }
+
+      const fileSize = await storageService.getFileSize(assetPath);
       res.setHeader('Content-Type', contentType);
+      res.setHeader('Accept-Ranges', 'bytes');
       res.setHeader('Cache-Control', 'private, max-age=300');
-      res.send(buffer);
+
+      // Malformed and multi-range headers are ignored: the whole file is served
+      const ranges = req.range(fileSize, { combine: true });
+      if (ranges === -1) {
+        res.setHeader('Content-Range', `bytes */${fileSize}`);
+        res.status(416).end();
+        return;
+      }
+      if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        const { start, end } = ranges[0];
+        const stream = await storageService.openReadStream(assetPath, { start, end });
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${fileSize}`);
+        res.setHeader('Content-Length', end - start + 1);
+        await pipeline(stream, res);
+        return;
+      }
+
+      const stream = await storageService.openReadStream(assetPath);
+      res.setHeader('Content-Length', fileSize);
+      await pipeline(stream, res);
     } catch (error) {
-      next(error);
+      if (!res.headersSent) return next(error);
+      logger.error('Asset stream failed', error, { memoryId: req.params.id });
     }
   }
 
@@ -154,6 +347,7 @@ export class MemoriesController {
       await memoryRepository.findById(memoryId, userId);
       await labelRepository.findById(labelId, userId);
       await memoryLabelRepository.addLabelToMemory(memoryId, labelId);
+      await jobQueue.scheduleReindex(memoryId, userId);
       const labelIds = await memoryLabelRepository.getLabelIdsByMemoryId(memoryId);
       const labels = await Promise.all(
         labelIds.map((lid) => labelRepository.findById(lid, userId).catch(() => null))
@@ -174,6 +368,7 @@ export class MemoriesController {
       await memoryRepository.findById(memoryId, userId);
       await labelRepository.findById(labelId, userId);
       await memoryLabelRepository.removeLabelFromMemory(memoryId, labelId);
+      await jobQueue.scheduleReindex(memoryId, userId);
       res.json({ ok: true, data: { removed: true } });
     } catch (error) {
       next(error);
@@ -182,13 +377,66 @@ export class MemoriesController {
 
   /**
    * GET /api/memories/:id
+   * Query: transcript (raw | normalized | both)
+   * processingStages: the pipeline checkpoints (status, attempts, last error, duration per stage)
    */
   async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const userId = req.userId!;
       const { id } = req.params;
+      const transcript = parseTranscriptVariant(req.query.transcript);
+      // Ownership enforced by findByIdWithContext before the stages are read
       const memory = await memoryRepository.findByIdWithContext(id, userId);
-      res.json({ ok: true, data: { memory: serializeMemory(memory) } });
+      const stages = await memoryProcessingStageRepository.findByMemoryId(id);
+      res.json({
+        ok: true,
+        data: {
+          memory: serializeMemory(memory, { transcript }),
+          processingStages: stages.map((s) => ({
+            stage: s.stage,
+            status: s.status,
+            attempts: s.attempts,
+            lastError: s.lastError,
+            startedAt: s.startedAt instanceof Date ? s.startedAt.toISOString() : s.startedAt,
+            completedAt: s.completedAt instanceof Date ? s.completedAt.toISOString() : s.completedAt,
+            durationMs: s.durationMs,
+          })),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /api/memories/:id
+   * Body: { transcript?: string, capturedAt?: ISO date } — the machine transcript is kept
+   * as originalTranscript; the memory is re-embedded and its events re-synthesized
+   */
+  async update(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = req.params;
+      const { transcript, capturedAt } = req.body ?? {};
+      const input: EditMemoryInput = {};
+      if (transcript !== undefined) {
+        if (typeof transcript !== 'string' || !transcript.trim()) {
+          throw new ValidationError('transcript must be a non-empty string');
+        }
+        input.transcript = transcript.trim();
+      }
+      if (capturedAt !== undefined) {
+        input.capturedAt = parseDateQuery(capturedAt, 'capturedAt');
+      }
+      if (input.transcript === undefined && input.capturedAt === undefined) {
+        throw new ValidationError('Provide transcript and/or capturedAt');
+      }
+      logger.info('Memory edit request', { memoryId: id, fields: Object.keys(input) });
+      const result = await memoryEditingService.editMemory(id, userId, input);
+      res.json({
+        ok: true,
+        data: { memory: serializeMemory(result.memory), refreshedEventIds: result.refreshedEventIds },
+      });
     } catch (error) {
       next(error);
     }
@@ -273,6 +521,9 @@ export class MemoriesController {
           await memoryPeopleRepository.create({ memoryId, personName: name.trim(), confirmed: true });
         }
       }
+      if (hasContext || Array.isArray(body.tags) || Array.isArray(body.people)) {
+        await jobQueue.scheduleReindex(memoryId, userId);
+      }
       const [context, tags, people] = await Promise.all([
         memoryContextRepository.findByMemoryId(memoryId),
         memoryTagRepository.findByMemoryId(memoryId),
@@ -321,6 +572,9 @@ export class MemoriesController {
           }
         }
       }
+      if (body.place === true || Array.isArray(body.people) || Array.isArray(body.tags)) {
+        await jobQueue.scheduleReindex(memoryId, userId);
+      }
       const [context, tags, people] = await Promise.all([
         memoryContextRepository.findByMemoryId(memoryId),
         memoryTagRepository.findByMemoryId(memoryId),
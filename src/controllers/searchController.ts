@@ -5,6 +5,7 @@
 
 import { Response, NextFunction } from 'express';
 import { retrievalService } from '../services/retrieval/retrievalService';
+import { retrievalLogRepository } from '../db/repositories';
 import { logger } from '../utils/logger';
 import { ValidationError } from '../utils/errors';
 import { AuthRequest } from '../middleware/auth';
@@ -57,7 +58,34 @@ export class SearchController {
       
       logger.info('Search request', { query, filters: searchFilters });
       
-      const result = await retrievalService.search(query, searchFilters, req.userId!);
+      const userId = req.userId!;
+      const result = await retrievalService.search(query, searchFilters, userId);
+
+      // Log the retrieval with the same explanations the client receives
+      const { dateRange, location, excluded } = result.appliedFilters;
+      await retrievalLogRepository.create({
+        userId,
+        userQuery: query,
+        memoryIds: result.results.map((r) => r.memory.id),
+        searchMetadata: {
+          type: 'search',
+          k: searchFilters.limit ?? 10,
+          scores: result.results.map((r) => r.score),
+          timeFilters: dateRange,
+          locationFilters: location,
+          excludedByFilters: excluded,
+          latencyMs: result.searchTimeMs,
+          explanations: result.results.map((r) => ({
+            memoryId: r.memory.id,
+            matchedChannels: r.matchedChannels,
+            ...(r.segment && {
+              segment: { segmentId: r.segment.segmentId, startSeconds: r.segment.startSeconds, endSeconds: r.segment.endSeconds },
+            }),
+            ...r.explanation,
+          })),
+        },
+      });
+
       res.json({ ok: true, data: result });
     } catch (error) {
       next(error);
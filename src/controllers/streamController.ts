@@ -0,0 +1,51 @@
+/**
+ * Stream Controller
+ * Server-Sent Events with the authenticated user's live updates (see realtimeService)
+ */
+
+import { Response } from 'express';
+import { realtimeService, RealtimeEvent } from '../services/realtime/realtimeService';
+import { AuthRequest } from '../middleware/auth';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/** Reconnect delay suggested to EventSource clients */
+const CLIENT_RETRY_MS = 3000;
+
+export class StreamController {
+  /**
+   * GET /api/stream
+   * text/event-stream of memory.status, memory.stage, event.created, event.updated and
+   * context.suggested updates, each `data` a JSON object. Starts with a `ready` event; updates
+   * missed while disconnected are not replayed, so clients refetch after reconnecting.
+   */
+  stream(req: AuthRequest, res: Response): void {
+    const userId = req.userId!;
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // nginx: do not buffer the stream
+    res.flushHeaders();
+
+    const send = (event: RealtimeEvent | { type: 'ready'; data: Record<string, unknown> }) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    };
+
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+    send({ type: 'ready', data: { userId } });
+
+    const unsubscribe = realtimeService.subscribe(userId, send);
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), config.streamHeartbeatMs);
+    logger.info('Live stream opened', { userId });
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.info('Live stream closed', { userId });
+    });
+  }
+}
+
+export const streamController = new StreamController();
@@ -0,0 +1,103 @@
+/**
+ * Trash Controller
+ * List, restore and permanently delete trashed memories and events.
+ * SECURITY: All service calls pass userId — ownership is enforced at the DB layer.
+ */
+
+import { Response, NextFunction } from 'express';
+import { trashService } from '../services/memories/trashService';
+import { memoryDeletionService } from '../services/memories/memoryDeletionService';
+import { logger } from '../utils/logger';
+import { NotFoundError, ValidationError } from '../utils/errors';
+import { serializeMemory } from '../utils/serializeMemory';
+import { memoryRepository } from '../db/repositories';
+import { AuthRequest } from '../middleware/auth';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function optionalUUIDs(value: unknown, field: string): string[] {
+  if (value == null) return [];
+  if (!Array.isArray(value) || !value.every((id) => typeof id === 'string' && UUID_REGEX.test(id))) {
+    throw new ValidationError(`${field} must be an array of UUIDs`);
+  }
+  return value;
+}
+
+export class TrashController {
+  /**
+   * GET /api/trash
+   */
+  async list(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 100;
+      if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+        throw new ValidationError('Limit must be between 1 and 500');
+      }
+      const trash = await trashService.listTrash(userId, limit);
+      res.json({
+        ok: true,
+        data: {
+          memories: trash.memories.map((m) => serializeMemory(m)),
+          events: trash.events,
+          retentionDays: trash.retentionDays,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /api/trash/restore
+   * Body: { memoryIds?: string[], eventIds?: string[] }
+   */
+  async restore(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const memoryIds = optionalUUIDs(req.body.memoryIds, 'memoryIds');
+      const eventIds = optionalUUIDs(req.body.eventIds, 'eventIds');
+      if (memoryIds.length === 0 && eventIds.length === 0) {
+        throw new ValidationError('Provide memoryIds or eventIds to restore');
+      }
+      logger.info('Trash restore request', { memoryCount: memoryIds.length, eventCount: eventIds.length });
+      const result = await trashService.restore({ memoryIds, eventIds }, userId);
+      res.json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/trash/memories/:id
+   * Permanently delete one trashed memory
+   */
+  async deleteMemory(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const { id } = req.params;
+      const [trashed] = await memoryRepository.findTrashedByIds([id], userId);
+      if (!trashed) throw new NotFoundError('Trashed memory', id);
+      const result = await memoryDeletionService.deleteMemories([id], userId);
+      res.json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/trash
+   * Permanently delete everything in the trash
+   */
+  async empty(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userId = req.userId!;
+      const result = await trashService.emptyTrash(userId);
+      res.json({ ok: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const trashController = new TrashController();
@@ -4,22 +4,23 @@
  */
 
 import { Response, NextFunction } from 'express';
-import { signedUrlService } from '../services/storage/signedUrlService';
-import { storageService } from '../services/storage/storageService';
+import { signedUrlService, SignedUploadFileType } from '../services/storage/signedUrlService';
+import { storageService, modalityFromExtension } from '../services/storage/storageService';
 import { memoryRepository, memoryContextRepository } from '../db/repositories';
-import { memoryPipeline } from '../services/pipeline/memoryPipeline';
+import { jobQueue } from '../services/jobs/jobQueue';
 import { logger } from '../utils/logger';
 import { ValidationError, DatabaseError } from '../utils/errors';
 import { AuthRequest } from '../middleware/auth';
 import { serializeMemory } from '../utils/serializeMemory';
-import { Modality, MemorySourceEnum, MediaType, ProcessingStatus } from '../types';
+import { parseTextMemory } from '../utils/textMemory';
+import { Modality, MemorySourceEnum, ProcessingStatus, mediaTypeForModality } from '../types';
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 export class UploadController {
   /**
    * POST /api/upload/request-url
-   * Authenticated. Body: { fileType: 'voice' | 'image' }. Returns signed upload URL and metadata.
+   * Authenticated. Body: { fileType: 'voice' | 'image' | 'video' | 'text' }. Returns signed upload URL and metadata.
    */
   async requestUploadUrl(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -27,9 +28,9 @@ export class UploadController {
       if (!userId) {
         return next(new ValidationError('User not authenticated'));
       }
-      const fileType = req.body.fileType as 'voice' | 'image';
-      if (!fileType || !['voice', 'image'].includes(fileType)) {
-        throw new ValidationError('fileType must be "voice" or "image"');
+      const fileType = req.body.fileType as SignedUploadFileType;
+      if (!fileType || !['voice', 'image', 'video', 'text'].includes(fileType)) {
+        throw new ValidationError('fileType must be "voice", "image", "video" or "text"');
       }
 
       const data = signedUrlService.generateUpload(userId, fileType);
@@ -94,8 +95,8 @@ export class UploadController {
       }
 
       const ext = fileKey.split('.').pop()?.toLowerCase() || '';
-      const voiceExts = ['m4a', 'mp4', 'mp3', 'wav', 'webm'];
-      const modality: Modality = voiceExts.includes(ext) ? ('voice' as Modality) : ('image' as Modality);
+      const modality = modalityFromExtension(ext);
+      if (modality === Modality.Text) parseTextMemory(file.buffer);
 
       const storedFile = await storageService.storeFileFromBuffer(
         file.buffer,
@@ -108,7 +109,7 @@ export class UploadController {
         fileSize: file.size,
         mimeType: file.mimetype,
       };
-      const mediaType = modality === 'voice' ? MediaType.Audio : MediaType.Photo;
+      const mediaType = mediaTypeForModality(modality);
 
       // SECURITY: If the user doesn't exist in our DB, reject — no orphan memories.
       let memory: Awaited<ReturnType<typeof memoryRepository.create>>;
@@ -144,18 +145,17 @@ export class UploadController {
         });
       }
 
-      memoryPipeline.processMemory({
-        memoryId: memory.id,
-        metadata: {
+      // Durable: the job survives restarts and is retried with backoff on failure.
+      await jobQueue.enqueueMemoryProcessing(
+        memory.id,
+        userId,
+        {
           ...fileMetadata,
           latitude: hasLocation ? latitude : undefined,
           longitude: hasLocation ? longitude : undefined,
           locationName,
-        },
-        userId,
-      }).catch((error) => {
-        logger.error('Async pipeline failed after signed upload', { error, memoryId: memory.id });
-      });
+        }
+      );
 
       logger.info('Signed upload accepted', {
         memoryId: memory.id,
@@ -0,0 +1,41 @@
+-- Migration 007: Durable background job queue
+-- Replaces fire-and-forget pipeline promises. Workers claim jobs under a lease
+-- (locked_until); a job whose lease expires becomes claimable again.
+-- Safe to re-run.
+
+DO $$ BEGIN
+  CREATE TYPE job_status_enum AS ENUM ('queued', 'running', 'completed', 'dead');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    type TEXT NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    memory_id UUID REFERENCES memories(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    status job_status_enum NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by TEXT,
+    locked_until TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+-- Claim path: queued jobs that are due, and running jobs whose lease expired
+CREATE INDEX IF NOT EXISTS idx_jobs_queued_run_at ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_running_locked_until ON jobs(locked_until) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_jobs_memory_id ON jobs(memory_id);
+CREATE INDEX IF NOT EXISTS idx_jobs_dead ON jobs(updated_at DESC) WHERE status = 'dead';
+
+-- At most one active job of each type per memory (enqueue is idempotent)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_active_per_memory
+    ON jobs(type, memory_id)
+    WHERE status IN ('queued', 'running') AND memory_id IS NOT NULL;
+
+-- DOWN (if needed):
+-- DROP TABLE IF EXISTS jobs;
+-- DROP TYPE IF EXISTS job_status_enum;
@@ -0,0 +1,8 @@
+-- Migration 008: Per-user captured_at index
+-- Event formation looks up the owner's memories in a captured_at window around a new memory.
+-- Safe to re-run.
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_captured_at ON memories(user_id, captured_at);
+
+-- DOWN (if needed):
+-- DROP INDEX IF EXISTS idx_memories_user_captured_at;
@@ -0,0 +1,26 @@
+-- Migration 009: Account export archives
+-- Large exports are built in the background (export_account job) and downloaded with
+-- HTTP Range support so interrupted downloads can resume.
+-- Safe to re-run.
+
+DO $$ BEGIN
+  CREATE TYPE export_status_enum AS ENUM ('pending', 'running', 'completed', 'failed');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE TABLE IF NOT EXISTS account_exports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status export_status_enum NOT NULL DEFAULT 'pending',
+    storage_path TEXT,
+    size_bytes BIGINT,
+    manifest JSONB,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_exports_user_id ON account_exports(user_id, created_at DESC);
+
+-- DOWN (if needed):
+-- DROP TABLE IF EXISTS account_exports;
+-- DROP TYPE IF EXISTS export_status_enum;
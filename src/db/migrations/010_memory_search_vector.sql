@@ -0,0 +1,81 @@
+-- Migration 010: Full-text search over memories
+-- memories.search_vector covers transcript, ai_summary, user_note (english, stemmed)
+-- plus tags and people names (simple, exact). Kept current by triggers on memories,
+-- memory_context, memory_tags and memory_people.
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION memory_search_document(mid UUID, transcript TEXT, ai_summary TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(transcript, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ai_summary, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT user_note FROM memory_context WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(tag, ' ') FROM memory_tags WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(person_name, ' ') FROM memory_people WHERE memory_id = mid), '')), 'A');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION memories_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := memory_search_document(NEW.id, NEW.transcript, NEW.ai_summary);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION memory_children_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  mid UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    mid := OLD.memory_id;
+  ELSE
+    mid := NEW.memory_id;
+  END IF;
+  UPDATE memories SET search_vector = memory_search_document(id, transcript, ai_summary) WHERE id = mid;
+  IF TG_OP = 'UPDATE' AND OLD.memory_id IS DISTINCT FROM NEW.memory_id THEN
+    UPDATE memories SET search_vector = memory_search_document(id, transcript, ai_summary) WHERE id = OLD.memory_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_memories_search_vector ON memories;
+CREATE TRIGGER trg_memories_search_vector
+  BEFORE INSERT OR UPDATE OF transcript, ai_summary ON memories
+  FOR EACH ROW EXECUTE FUNCTION memories_search_vector_trigger();
+
+DROP TRIGGER IF EXISTS trg_memory_context_search_vector ON memory_context;
+CREATE TRIGGER trg_memory_context_search_vector
+  AFTER INSERT OR UPDATE OF user_note OR DELETE ON memory_context
+  FOR EACH ROW EXECUTE FUNCTION memory_children_search_vector_trigger();
+
+DROP TRIGGER IF EXISTS trg_memory_tags_search_vector ON memory_tags;
+CREATE TRIGGER trg_memory_tags_search_vector
+  AFTER INSERT OR UPDATE OR DELETE ON memory_tags
+  FOR EACH ROW EXECUTE FUNCTION memory_children_search_vector_trigger();
+
+DROP TRIGGER IF EXISTS trg_memory_people_search_vector ON memory_people;
+CREATE TRIGGER trg_memory_people_search_vector
+  AFTER INSERT OR UPDATE OR DELETE ON memory_people
+  FOR EACH ROW EXECUTE FUNCTION memory_children_search_vector_trigger();
+
+-- Backfill existing rows
+UPDATE memories SET search_vector = memory_search_document(id, transcript, ai_summary)
+WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_search_vector ON memories USING GIN (search_vector);
+
+-- DOWN (if needed):
+-- DROP TRIGGER IF EXISTS trg_memory_people_search_vector ON memory_people;
+-- DROP TRIGGER IF EXISTS trg_memory_tags_search_vector ON memory_tags;
+-- DROP TRIGGER IF EXISTS trg_memory_context_search_vector ON memory_context;
+-- DROP TRIGGER IF EXISTS trg_memories_search_vector ON memories;
+-- DROP FUNCTION IF EXISTS memory_children_search_vector_trigger();
+-- DROP FUNCTION IF EXISTS memories_search_vector_trigger();
+-- DROP FUNCTION IF EXISTS memory_search_document(UUID, TEXT, TEXT);
+-- DROP INDEX IF EXISTS idx_memories_search_vector;
+-- ALTER TABLE memories DROP COLUMN IF EXISTS search_vector;
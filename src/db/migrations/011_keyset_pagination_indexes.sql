@@ -0,0 +1,11 @@
+-- Migration 011: Keyset pagination indexes
+-- GET /api/memories pages on (captured_at, id) and GET /api/events on (start_time, id),
+-- newest first; the id tiebreaker keeps rows with equal timestamps in a stable order.
+-- Safe to re-run.
+
+CREATE INDEX IF NOT EXISTS idx_memories_user_captured_at_id ON memories(user_id, captured_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_events_user_start_time_id ON events(user_id, start_time DESC, id DESC);
+
+-- DOWN (if needed):
+-- DROP INDEX IF EXISTS idx_events_user_start_time_id;
+-- DROP INDEX IF EXISTS idx_memories_user_captured_at_id;
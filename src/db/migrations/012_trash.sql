@@ -0,0 +1,17 @@
+-- Migration 012: Trash (soft delete) for memories and events
+-- deleted_at marks a row as trashed: hidden from listings, search, answers and resurfacing,
+-- restorable until the purge job removes it after TRASH_RETENTION_DAYS.
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Trash listing and purge
+CREATE INDEX IF NOT EXISTS idx_memories_trashed ON memories(user_id, deleted_at DESC) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_events_trashed ON events(user_id, deleted_at DESC) WHERE deleted_at IS NOT NULL;
+
+-- DOWN (if needed):
+-- DROP INDEX IF EXISTS idx_events_trashed;
+-- DROP INDEX IF EXISTS idx_memories_trashed;
+-- ALTER TABLE events DROP COLUMN IF EXISTS deleted_at;
+-- ALTER TABLE memories DROP COLUMN IF EXISTS deleted_at;
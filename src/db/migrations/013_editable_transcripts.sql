@@ -0,0 +1,11 @@
+-- Migration 013: User-editable transcripts
+-- original_transcript keeps the machine transcript from the first edit onwards (NULL while
+-- the transcript is unedited); edited_at records the latest user edit.
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS original_transcript TEXT;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+-- DOWN (if needed):
+-- ALTER TABLE memories DROP COLUMN IF EXISTS edited_at;
+-- ALTER TABLE memories DROP COLUMN IF EXISTS original_transcript;
@@ -0,0 +1,9 @@
+-- Migration 014: Text memories
+-- Typed notes are stored as a .txt asset under text/ and skip transcription/captioning.
+-- ADD VALUE stays alone in this file: the new value cannot be used in the transaction that adds it.
+-- Safe to re-run.
+
+ALTER TYPE media_type_enum ADD VALUE IF NOT EXISTS 'text';
+
+-- DOWN (if needed):
+-- Enum values cannot be dropped; delete or convert text memories, then recreate media_type_enum.
@@ -0,0 +1,10 @@
+-- Migration 015: Video memories
+-- Clips are stored under video/; the pipeline captions sampled keyframes and transcribes the
+-- audio track into one time-aligned transcript.
+-- ADD VALUE stays alone in this file: the new value cannot be used in the transaction that adds it.
+-- Safe to re-run.
+
+ALTER TYPE media_type_enum ADD VALUE IF NOT EXISTS 'video';
+
+-- DOWN (if needed):
+-- Enum values cannot be dropped; delete or convert video memories, then recreate media_type_enum.
@@ -0,0 +1,9 @@
+-- Migration 016: Photo renditions
+-- renditions maps a size ("thumb", "preview") to the storage path of a resized copy stored
+-- beside the original; empty until the pipeline has generated them (the original is served instead).
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS renditions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- DOWN (if needed):
+-- ALTER TABLE memories DROP COLUMN IF EXISTS renditions;
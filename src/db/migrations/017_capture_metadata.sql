@@ -0,0 +1,15 @@
+-- Migration 017: Photo capture metadata
+-- EXIF altitude (meters), orientation (1-8) and camera make/model on memory_context. EXIF GPS
+-- fills latitude/longitude and a reverse-geocoded location_name when the upload had none.
+-- Safe to re-run.
+
+ALTER TABLE memory_context ADD COLUMN IF NOT EXISTS altitude DOUBLE PRECISION;
+ALTER TABLE memory_context ADD COLUMN IF NOT EXISTS orientation SMALLINT;
+ALTER TABLE memory_context ADD COLUMN IF NOT EXISTS camera_make TEXT;
+ALTER TABLE memory_context ADD COLUMN IF NOT EXISTS camera_model TEXT;
+
+-- DOWN (if needed):
+-- ALTER TABLE memory_context DROP COLUMN IF EXISTS camera_model;
+-- ALTER TABLE memory_context DROP COLUMN IF EXISTS camera_make;
+-- ALTER TABLE memory_context DROP COLUMN IF EXISTS orientation;
+-- ALTER TABLE memory_context DROP COLUMN IF EXISTS altitude;
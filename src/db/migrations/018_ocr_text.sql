@@ -0,0 +1,56 @@
+-- Migration 018: Text read from photos (OCR)
+-- memories.ocr_text holds the literal text in a photo (signs, receipts, documents), kept apart
+-- from the caption in transcript. It joins search_vector at weight B (english, stemmed), so the
+-- search document function and its triggers gain an ocr_text argument.
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS ocr_text TEXT;
+
+CREATE OR REPLACE FUNCTION memory_search_document(mid UUID, transcript TEXT, ai_summary TEXT, ocr_text TEXT)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(transcript, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ocr_text, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ai_summary, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT user_note FROM memory_context WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(tag, ' ') FROM memory_tags WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(person_name, ' ') FROM memory_people WHERE memory_id = mid), '')), 'A');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION memories_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := memory_search_document(NEW.id, NEW.transcript, NEW.ai_summary, NEW.ocr_text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION memory_children_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  mid UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    mid := OLD.memory_id;
+  ELSE
+    mid := NEW.memory_id;
+  END IF;
+  UPDATE memories SET search_vector = memory_search_document(id, transcript, ai_summary, ocr_text) WHERE id = mid;
+  IF TG_OP = 'UPDATE' AND OLD.memory_id IS DISTINCT FROM NEW.memory_id THEN
+    UPDATE memories SET search_vector = memory_search_document(id, transcript, ai_summary, ocr_text) WHERE id = OLD.memory_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_memories_search_vector ON memories;
+CREATE TRIGGER trg_memories_search_vector
+  BEFORE INSERT OR UPDATE OF transcript, ai_summary, ocr_text ON memories
+  FOR EACH ROW EXECUTE FUNCTION memories_search_vector_trigger();
+
+DROP FUNCTION IF EXISTS memory_search_document(UUID, TEXT, TEXT);
+
+-- DOWN (if needed): re-run 010_memory_search_vector.sql, then
+-- DROP FUNCTION IF EXISTS memory_search_document(UUID, TEXT, TEXT, TEXT);
+-- ALTER TABLE memories DROP COLUMN IF EXISTS ocr_text;
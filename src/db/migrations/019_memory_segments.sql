@@ -0,0 +1,26 @@
+-- Migration 019: Timestamped transcript segments
+-- One row per Whisper segment (voice) or timeline line (video) with its offsets in the
+-- recording, embedded and full-text indexed so search can point at the moment that matched.
+-- Segments describe the recording: transcript edits leave them as they are.
+-- Safe to re-run.
+
+CREATE TABLE IF NOT EXISTS memory_segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,
+    start_seconds DOUBLE PRECISION NOT NULL,
+    end_seconds DOUBLE PRECISION NOT NULL,
+    text TEXT NOT NULL,
+    embedding vector(2000) NOT NULL,
+    model_version TEXT NOT NULL,
+    search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', text)) STORED,
+    CONSTRAINT unique_segment_seq UNIQUE (memory_id, seq),
+    CONSTRAINT segment_range_valid CHECK (start_seconds >= 0 AND end_seconds >= start_seconds)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_segments_hnsw ON memory_segments
+    USING hnsw (embedding vector_cosine_ops) WITH (m = 16, ef_construction = 64);
+CREATE INDEX IF NOT EXISTS idx_memory_segments_search_vector ON memory_segments USING GIN (search_vector);
+
+-- DOWN (if needed):
+-- DROP TABLE IF EXISTS memory_segments;
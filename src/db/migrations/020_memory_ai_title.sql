@@ -0,0 +1,9 @@
+-- Migration 020: AI title for memories
+-- memories.ai_title is a short title written by the summarization step alongside ai_summary.
+-- Existing memories are filled by the resummarize script (npm run resummarize:memories).
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS ai_title TEXT;
+
+-- DOWN (if needed):
+-- ALTER TABLE memories DROP COLUMN IF EXISTS ai_title;
@@ -0,0 +1,71 @@
+-- Migration 021: Normalized transcript next to the raw one
+-- memories.normalized_transcript is the transcript cleaned up by the normalization step (filler
+-- words, false starts), stamped with the chat model in normalization_model (NULL when the text
+-- was kept as-is: already clean, too short, or the model was unavailable). transcript stays the
+-- raw machine or user text.
+-- search_vector indexes both: the normalized text at weight B and, once there is one, the raw
+-- transcript only at weight D, so words that were cleaned away still match but rank low.
+-- Memories without a normalized transcript keep the raw transcript at weight B.
+-- Safe to re-run.
+
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS normalized_transcript TEXT;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS normalization_model TEXT;
+
+CREATE OR REPLACE FUNCTION memory_search_document(
+  mid UUID, transcript TEXT, ai_summary TEXT, ocr_text TEXT, normalized_transcript TEXT
+)
+RETURNS tsvector AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(transcript, '')),
+      CASE WHEN normalized_transcript IS NULL THEN 'B' ELSE 'D' END::"char") ||
+    setweight(to_tsvector('english', coalesce(normalized_transcript, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ocr_text, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(ai_summary, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(
+      (SELECT user_note FROM memory_context WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(tag, ' ') FROM memory_tags WHERE memory_id = mid), '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(person_name, ' ') FROM memory_people WHERE memory_id = mid), '')), 'A');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION memories_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := memory_search_document(
+    NEW.id, NEW.transcript, NEW.ai_summary, NEW.ocr_text, NEW.normalized_transcript);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION memory_children_search_vector_trigger() RETURNS trigger AS $$
+DECLARE
+  mid UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    mid := OLD.memory_id;
+  ELSE
+    mid := NEW.memory_id;
+  END IF;
+  UPDATE memories
+    SET search_vector = memory_search_document(id, transcript, ai_summary, ocr_text, normalized_transcript)
+    WHERE id = mid;
+  IF TG_OP = 'UPDATE' AND OLD.memory_id IS DISTINCT FROM NEW.memory_id THEN
+    UPDATE memories
+      SET search_vector = memory_search_document(id, transcript, ai_summary, ocr_text, normalized_transcript)
+      WHERE id = OLD.memory_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_memories_search_vector ON memories;
+CREATE TRIGGER trg_memories_search_vector
+  BEFORE INSERT OR UPDATE OF transcript, ai_summary, ocr_text, normalized_transcript ON memories
+  FOR EACH ROW EXECUTE FUNCTION memories_search_vector_trigger();
+
+DROP FUNCTION IF EXISTS memory_search_document(UUID, TEXT, TEXT, TEXT);
+
+-- DOWN (if needed): re-run 018_ocr_text.sql, then
+-- DROP FUNCTION IF EXISTS memory_search_document(UUID, TEXT, TEXT, TEXT, TEXT);
+-- ALTER TABLE memories DROP COLUMN IF EXISTS normalization_model;
+-- ALTER TABLE memories DROP COLUMN IF EXISTS normalized_transcript;
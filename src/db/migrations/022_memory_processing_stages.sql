@@ -0,0 +1,28 @@
+-- Migration 022: Pipeline stage checkpoints
+-- One row per memory and pipeline stage (metadata, renditions, ocr, extract, normalize,
+-- summarize, embed) with the latest attempt's status, error and duration. A retry skips
+-- stages that completed, so a failure late in the pipeline does not re-run transcription.
+-- output holds what a stage produced when it is not stored on the memory yet (the extracted
+-- text, the normalized text, the title and summary); it is cleared once the memory completes.
+-- Safe to re-run.
+
+DO $$ BEGIN
+  CREATE TYPE processing_stage_status_enum AS ENUM ('running', 'completed', 'failed');
+EXCEPTION WHEN duplicate_object THEN NULL; END $$;
+
+CREATE TABLE IF NOT EXISTS memory_processing_stages (
+    memory_id UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    stage TEXT NOT NULL,
+    status processing_stage_status_enum NOT NULL DEFAULT 'running',
+    attempts INTEGER NOT NULL DEFAULT 1,
+    last_error TEXT,
+    output JSONB,
+    started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    duration_ms INTEGER,
+    PRIMARY KEY (memory_id, stage)
+);
+
+-- DOWN (if needed):
+-- DROP TABLE IF EXISTS memory_processing_stages;
+-- DROP TYPE IF EXISTS processing_stage_status_enum;
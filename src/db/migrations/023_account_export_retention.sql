@@ -0,0 +1,22 @@
+-- Migration 023: Account export retention
+-- At most one pending/running export per user: a repeated request returns the export already
+-- being built. Archives are deleted with their row after EXPORT_RETENTION_DAYS (purge_exports job).
+-- Older duplicates still marked active are failed so the index can be built.
+-- Safe to re-run.
+
+UPDATE account_exports a
+SET status = 'failed', last_error = 'Superseded by a newer export'
+WHERE a.status IN ('pending', 'running')
+  AND EXISTS (
+    SELECT 1 FROM account_exports b
+    WHERE b.user_id = a.user_id
+      AND b.status IN ('pending', 'running')
+      AND (b.created_at, b.id) > (a.created_at, a.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_exports_active_per_user
+    ON account_exports(user_id)
+    WHERE status IN ('pending', 'running');
+
+-- DOWN (if needed):
+-- DROP INDEX IF EXISTS idx_account_exports_active_per_user;
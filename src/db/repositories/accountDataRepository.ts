@@ -0,0 +1,152 @@
+/**
+ * Account Data Repository
+ * Raw, user-scoped row access across all tables for account export and import.
+ * SECURITY: Every export query is scoped to userId (directly or via its parent memory/event/label).
+ * Import inserts only columns that exist on the target table; names never come from the archive unchecked.
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from '../index';
+import { ExportTable } from '../../services/account/exportFormat';
+import { DatabaseError } from '../../utils/errors';
+
+interface TableSpec {
+  /** FROM clause aliased as t, joined to whatever carries user_id */
+  from: string;
+  /** WHERE clause scoping to $1 (userId) */
+  where: string;
+  /** Unique, sortable text key for keyset pagination */
+  key: string;
+}
+
+const TABLE_SPECS: Record<ExportTable, TableSpec> = {
+  users: { from: 'users t', where: 't.id = $1', key: 't.id::text' },
+  memories: { from: 'memories t', where: 't.user_id = $1', key: 't.id::text' },
+  memory_context: {
+    from: 'memory_context t JOIN memories m ON m.id = t.memory_id',
+    where: 'm.user_id = $1',
+    key: 't.memory_id::text',
+  },
+  memory_tags: {
+    from: 'memory_tags t JOIN memories m ON m.id = t.memory_id',
+    where: 'm.user_id = $1',
+    key: 't.id::text',
+  },
+  memory_people: {
+    from: 'memory_people t JOIN memories m ON m.id = t.memory_id',
+    where: 'm.user_id = $1',
+    key: 't.id::text',
+  },
+  memory_embeddings: {
+    from: 'memory_embeddings t JOIN memories m ON m.id = t.memory_id',
+    where: 'm.user_id = $1',
+    key: 't.id::text',
+  },
+  memory_segments: {
+    from: 'memory_segments t JOIN memories m ON m.id = t.memory_id',
+    where: 'm.user_id = $1',
+    key: 't.id::text',
+  },
+  labels: { from: 'labels t', where: 't.user_id = $1', key: 't.id::text' },
+  memory_labels: {
+    from: 'memory_labels t JOIN labels l ON l.id = t.label_id',
+    where: 'l.user_id = $1',
+    key: "t.memory_id::text || ':' || t.label_id::text",
+  },
+  events: { from: 'events t', where: 't.user_id = $1', key: 't.id::text' },
+  memory_event_links: {
+    from: 'memory_event_links t JOIN events e ON e.id = t.event_id',
+    where: 'e.user_id = $1',
+    key: "t.memory_id::text || ':' || t.event_id::text",
+  },
+  event_embeddings: {
+    from: 'event_embeddings t JOIN events e ON e.id = t.event_id',
+    where: 'e.user_id = $1',
+    key: 't.id::text',
+  },
+  retrieval_logs: { from: 'retrieval_logs t', where: 't.user_id = $1', key: 't.id::text' },
+};
+
+export interface TablePage {
+  rows: Record<string, any>[];
+  /** Pass as afterKey to fetch the next page; null when exhausted */
+  nextKey: string | null;
+}
+
+export class AccountDataRepository {
+  private columnCache = new Map<string, Set<string>>();
+
+  /**
+   * Fetch one page of a table's rows for a user, ordered by a stable key.
+   */
+  async fetchTablePage(
+    table: ExportTable,
+    userId: string,
+    afterKey: string | null,
+    limit: number,
+    client?: PoolClient
+  ): Promise<TablePage> {
+    const db = client || getPool();
+    const spec = TABLE_SPECS[table];
+    // vector columns come back from pg as their text form ('[0.1,...]'), which round-trips on import
+    const query = `
+      SELECT t.*, (${spec.key}) AS _export_key
+      FROM ${spec.from}
+      WHERE ${spec.where} AND ($2::text IS NULL OR (${spec.key}) > $2)
+      ORDER BY _export_key
+      LIMIT $3
+    `;
+
+    try {
+      const result = await db.query(query, [userId, afterKey, limit]);
+      const rows = result.rows.map(({ _export_key, ...row }) => row);
+      const last = result.rows[result.rows.length - 1];
+      return {
+        rows,
+        nextKey: result.rows.length === limit ? last._export_key : null,
+      };
+    } catch (error) {
+      throw new DatabaseError(`Failed to read ${table} for export`, { error });
+    }
+  }
+
+  /**
+   * Insert an import row (archive columns picked by the import, remapped to the importing user). Keys that are not
+   * columns of the table are dropped, so archives from older/newer schemas still load.
+   * Conflicts (e.g. a duplicate link) are ignored.
+   */
+  async insertRow(table: ExportTable, row: Record<string, any>, client?: PoolClient): Promise<void> {
+    const db = client || getPool();
+    const columns = await this.getColumns(table, client);
+    const keys = Object.keys(row).filter((k) => columns.has(k));
+    if (keys.length === 0) return;
+
+    const query = `
+      INSERT INTO ${table} (${keys.map((k) => `"${k}"`).join(', ')})
+      VALUES (${keys.map((_, i) => `$${i + 1}`).join(', ')})
+      ON CONFLICT DO NOTHING
+    `;
+
+    try {
+      await db.query(query, keys.map((k) => row[k]));
+    } catch (error) {
+      throw new DatabaseError(`Failed to import ${table} row`, { error });
+    }
+  }
+
+  private async getColumns(table: ExportTable, client?: PoolClient): Promise<Set<string>> {
+    const cached = this.columnCache.get(table);
+    if (cached) return cached;
+    const db = client || getPool();
+    const result = await db.query<{ column_name: string }>(
+      `SELECT column_name FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = $1`,
+      [table]
+    );
+    const columns = new Set(result.rows.map((r) => r.column_name));
+    this.columnCache.set(table, columns);
+    return columns;
+  }
+}
+
+export const accountDataRepository = new AccountDataRepository();
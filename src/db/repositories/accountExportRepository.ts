@@ -0,0 +1,144 @@
+/**
+ * Account Export Repository
+ * Data access for account_exports (background-built export archives)
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from '../index';
+import {
+  AccountExport,
+  AccountExportRow,
+  ExportStatus,
+  mapAccountExportRow,
+} from '../../types';
+import { NotFoundError, DatabaseError } from '../../utils/errors';
+
+export interface UpdateAccountExportInput {
+  status?: ExportStatus;
+  storagePath?: string;
+  sizeBytes?: number;
+  manifest?: Record<string, any>;
+  lastError?: string | null;
+  completedAt?: Date;
+}
+
+export class AccountExportRepository {
+  /**
+   * Create a pending export. Returns null when the user already has one pending or running
+   * (one active export per user).
+   */
+  async create(userId: string, client?: PoolClient): Promise<AccountExport | null> {
+    const db = client || getPool();
+    try {
+      const result = await db.query<AccountExportRow>(
+        `INSERT INTO account_exports (user_id) VALUES ($1)
+         ON CONFLICT (user_id) WHERE status IN ('pending', 'running') DO NOTHING
+         RETURNING *`,
+        [userId]
+      );
+      return result.rows.length > 0 ? mapAccountExportRow(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to create account export', { error });
+    }
+  }
+
+  /**
+   * The user's pending or running export, if any
+   */
+  async findActive(userId: string, client?: PoolClient): Promise<AccountExport | null> {
+    const db = client || getPool();
+    const result = await db.query<AccountExportRow>(
+      `SELECT * FROM account_exports WHERE user_id = $1 AND status IN ('pending', 'running')`,
+      [userId]
+    );
+    return result.rows.length > 0 ? mapAccountExportRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Archive paths of all the user's exports (files to delete with the account)
+   */
+  async findStoragePathsByUser(userId: string, client?: PoolClient): Promise<string[]> {
+    const db = client || getPool();
+    const result = await db.query<{ storage_path: string }>(
+      'SELECT storage_path FROM account_exports WHERE user_id = $1 AND storage_path IS NOT NULL',
+      [userId]
+    );
+    return result.rows.map((r) => r.storage_path);
+  }
+
+  /**
+   * SECURITY: Always requires userId — returns NotFoundError for wrong owner.
+   */
+  async findById(id: string, userId: string, client?: PoolClient): Promise<AccountExport> {
+    const db = client || getPool();
+    const result = await db.query<AccountExportRow>(
+      'SELECT * FROM account_exports WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+    if (result.rows.length === 0) throw new NotFoundError('AccountExport', id);
+    return mapAccountExportRow(result.rows[0]);
+  }
+
+  /** Internal findById — export job use only, no user check. */
+  async findByIdInternal(id: string, client?: PoolClient): Promise<AccountExport> {
+    const db = client || getPool();
+    const result = await db.query<AccountExportRow>('SELECT * FROM account_exports WHERE id = $1', [id]);
+    if (result.rows.length === 0) throw new NotFoundError('AccountExport', id);
+    return mapAccountExportRow(result.rows[0]);
+  }
+
+  /**
+   * Internal — purge job only: exports built (or, if never built, requested) before cutoff,
+   * for every user, oldest first.
+   */
+  async listExpiredInternal(cutoff: Date, limit: number, client?: PoolClient): Promise<AccountExport[]> {
+    const db = client || getPool();
+    const result = await db.query<AccountExportRow>(
+      `SELECT * FROM account_exports
+       WHERE COALESCE(completed_at, created_at) < $1
+       ORDER BY COALESCE(completed_at, created_at)
+       LIMIT $2`,
+      [cutoff, limit]
+    );
+    return result.rows.map(mapAccountExportRow);
+  }
+
+  /** Internal delete — purge job only, no user check. */
+  async deleteInternal(id: string, client?: PoolClient): Promise<void> {
+    const db = client || getPool();
+    try {
+      await db.query('DELETE FROM account_exports WHERE id = $1', [id]);
+    } catch (error) {
+      throw new DatabaseError('Failed to delete account export', { error, id });
+    }
+  }
+
+  /** Internal update — export job use only, no user check. */
+  async updateInternal(id: string, input: UpdateAccountExportInput, client?: PoolClient): Promise<AccountExport> {
+    const db = client || getPool();
+    const updates: string[] = [];
+    const values: any[] = [];
+    let p = 1;
+    if (input.status !== undefined)      { updates.push(`status = $${p++}`);       values.push(input.status); }
+    if (input.storagePath !== undefined) { updates.push(`storage_path = $${p++}`); values.push(input.storagePath); }
+    if (input.sizeBytes !== undefined)   { updates.push(`size_bytes = $${p++}`);   values.push(input.sizeBytes); }
+    if (input.manifest !== undefined)    { updates.push(`manifest = $${p++}`);     values.push(JSON.stringify(input.manifest)); }
+    if (input.lastError !== undefined)   { updates.push(`last_error = $${p++}`);   values.push(input.lastError); }
+    if (input.completedAt !== undefined) { updates.push(`completed_at = $${p++}`); values.push(input.completedAt); }
+    if (updates.length === 0) return this.findByIdInternal(id, client);
+    values.push(id);
+    try {
+      const result = await db.query<AccountExportRow>(
+        `UPDATE account_exports SET ${updates.join(', ')} WHERE id = $${p} RETURNING *`,
+        values
+      );
+      if (result.rows.length === 0) throw new NotFoundError('AccountExport', id);
+      return mapAccountExportRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to update account export', { error });
+    }
+  }
+}
+
+export const accountExportRepository = new AccountExportRepository();
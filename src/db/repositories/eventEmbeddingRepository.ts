@@ -110,7 +110,7 @@ export class EventEmbeddingRepository {
     const query = `
       SELECT ee.event_id, ee.embedding <=> $1::vector AS distance
       FROM event_embeddings ee
-      INNER JOIN events e ON e.id = ee.event_id AND e.user_id = $3
+      INNER JOIN events e ON e.id = ee.event_id AND e.user_id = $3 AND e.deleted_at IS NULL
       ORDER BY ee.embedding <=> $1::vector
       LIMIT $2`;
     try {
@@ -1,6 +1,7 @@
 /**
  * Event Repository
  * SECURITY: Every query is scoped to userId. No NULL user_id fallbacks.
+ * Trashed events (deleted_at set) are invisible to every query except the trash methods.
  */
 
 import { PoolClient } from 'pg';
@@ -9,10 +10,13 @@ import {
   Event,
   CreateEventInput,
   UpdateEventInput,
+  EventListFilters,
+  Page,
   EventRow,
   mapEventRow,
 } from '../../types';
 import { NotFoundError, DatabaseError } from '../../utils/errors';
+import { PageQuery, cursorKeySql, encodeCursor } from '../../utils/cursor';
 
 export class EventRepository {
   async create(input: CreateEventInput, client?: PoolClient): Promise<Event> {
@@ -49,7 +53,7 @@ export class EventRepository {
   async findById(id: string, userId: string, client?: PoolClient): Promise<Event> {
     const db = client || getPool();
     const result = await db.query<EventRow>(
-      'SELECT * FROM events WHERE id = $1 AND user_id = $2',
+      'SELECT * FROM events WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
       [id, userId]
     );
     if (result.rows.length === 0) throw new NotFoundError('Event', id);
@@ -78,7 +82,7 @@ export class EventRepository {
     values.push(id, userId);
     const query = `
       UPDATE events SET ${updates.join(', ')}
-      WHERE id = $${p} AND user_id = $${p + 1}
+      WHERE id = $${p} AND user_id = $${p + 1} AND deleted_at IS NULL
       RETURNING *`;
     try {
       const result = await db.query<EventRow>(query, values);
@@ -94,12 +98,63 @@ export class EventRepository {
   async listRecent(limit: number = 20, userId: string): Promise<Event[]> {
     const pool = getPool();
     const result = await pool.query<EventRow>(
-      'SELECT * FROM events WHERE user_id = $1 ORDER BY start_time DESC LIMIT $2',
+      'SELECT * FROM events WHERE user_id = $1 AND deleted_at IS NULL ORDER BY start_time DESC LIMIT $2',
       [userId, limit]
     );
     return result.rows.map(mapEventRow);
   }
 
+  /**
+   * Keyset-paginated listing, newest first, ordered by (start_time, id).
+   * SECURITY: scoped to userId. Served by idx_events_user_start_time_id.
+   */
+  async listPage(userId: string, filters: EventListFilters, page: PageQuery): Promise<Page<Event>> {
+    const pool = getPool();
+    const conditions = ['user_id = $1', 'deleted_at IS NULL'];
+    const values: any[] = [userId];
+    if (filters.from) { values.push(filters.from); conditions.push(`end_time >= $${values.length}`); }
+    if (filters.to) { values.push(filters.to); conditions.push(`start_time <= $${values.length}`); }
+
+    // The total ignores the cursor: it counts every page
+    const filterConditions = conditions.slice();
+    const filterValues = values.slice();
+    if (page.cursor) {
+      values.push(page.cursor.key, page.cursor.id);
+      conditions.push(`(start_time, id) < ($${values.length - 1}::timestamptz, $${values.length}::uuid)`);
+    }
+    values.push(page.limit + 1);
+
+    try {
+      const [result, count] = await Promise.all([
+        pool.query<EventRow & { cursor_key: string }>(
+          `SELECT *, ${cursorKeySql('start_time')} AS cursor_key
+           FROM events
+           WHERE ${conditions.join(' AND ')}
+           ORDER BY start_time DESC, id DESC
+           LIMIT $${values.length}`,
+          values
+        ),
+        page.includeTotal
+          ? pool.query<{ total: number }>(
+              `SELECT COUNT(*)::int AS total FROM events WHERE ${filterConditions.join(' AND ')}`,
+              filterValues
+            )
+          : Promise.resolve(null),
+      ]);
+
+      const rows = result.rows.slice(0, page.limit);
+      const last = rows[rows.length - 1];
+      const hasMore = result.rows.length > page.limit;
+      return {
+        items: rows.map(mapEventRow),
+        nextCursor: hasMore ? encodeCursor('events', { key: last.cursor_key, id: last.id }) : null,
+        ...(count && { total: count.rows[0].total }),
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to list events', { error });
+    }
+  }
+
   /** Find events containing a specific memory, scoped to userId via JOIN. */
   async findByMemoryId(memoryId: string, userId: string, client?: PoolClient): Promise<Event[]> {
     const db = client || getPool();
@@ -107,7 +162,7 @@ export class EventRepository {
       `SELECT e.*
        FROM events e
        INNER JOIN memory_event_links mel ON e.id = mel.event_id
-       WHERE mel.memory_id = $1 AND e.user_id = $2
+       WHERE mel.memory_id = $1 AND e.user_id = $2 AND e.deleted_at IS NULL
        ORDER BY e.start_time DESC`,
       [memoryId, userId]
     );
@@ -130,12 +185,12 @@ export class EventRepository {
     if (input.confidenceScore !== undefined){ updates.push(`confidence_score = $${p++}`); values.push(input.confidenceScore); }
     updates.push('updated_at = NOW()');
     if (updates.length === 1) {
-      const existing = await db.query<EventRow>('SELECT * FROM events WHERE id = $1', [id]);
+      const existing = await db.query<EventRow>('SELECT * FROM events WHERE id = $1 AND deleted_at IS NULL', [id]);
       if (existing.rows.length === 0) throw new NotFoundError('Event', id);
       return mapEventRow(existing.rows[0]);
     }
     values.push(id);
-    const query = `UPDATE events SET ${updates.join(', ')} WHERE id = $${p} RETURNING *`;
+    const query = `UPDATE events SET ${updates.join(', ')} WHERE id = $${p} AND deleted_at IS NULL RETURNING *`;
     try {
       const result = await db.query<EventRow>(query, values);
       if (result.rows.length === 0) throw new NotFoundError('Event', id);
@@ -152,13 +207,68 @@ export class EventRepository {
     const result = await db.query<EventRow>(
       `SELECT e.* FROM events e
        INNER JOIN memory_event_links mel ON e.id = mel.event_id
-       WHERE mel.memory_id = $1 ORDER BY e.start_time DESC`,
+       WHERE mel.memory_id = $1 AND e.deleted_at IS NULL ORDER BY e.start_time DESC`,
       [memoryId]
     );
     return result.rows.map(mapEventRow);
   }
 
-  /** Internal delete — used by pipeline/admin only, no user check. */
+  /**
+   * Move events to the trash. Already-trashed ids are ignored.
+   * SECURITY: scoped to userId. Returns the ids trashed by this call.
+   */
+  async softDelete(ids: string[], userId: string, client?: PoolClient): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    const result = await db.query<{ id: string }>(
+      `UPDATE events SET deleted_at = NOW()
+       WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NULL
+       RETURNING id`,
+      [ids, userId]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Take events out of the trash. SECURITY: scoped to userId. Returns the restored ids.
+   */
+  async restore(ids: string[], userId: string, client?: PoolClient): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    const result = await db.query<{ id: string }>(
+      `UPDATE events SET deleted_at = NULL
+       WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NOT NULL
+       RETURNING id`,
+      [ids, userId]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /** Trashed events by id, scoped to userId. */
+  async findTrashedByIds(ids: string[], userId: string, client?: PoolClient): Promise<Event[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    const result = await db.query<EventRow>(
+      'SELECT * FROM events WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NOT NULL',
+      [ids, userId]
+    );
+    return result.rows.map(mapEventRow);
+  }
+
+  /** Trashed events, most recently trashed first; scoped to userId. */
+  async listTrashed(userId: string, limit: number = 100): Promise<Event[]> {
+    const pool = getPool();
+    const result = await pool.query<EventRow>(
+      `SELECT * FROM events
+       WHERE user_id = $1 AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC, id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows.map(mapEventRow);
+  }
+
+  /** Internal delete, trashed or not — used by pipeline/admin only, no user check. */
   async delete(id: string, client?: PoolClient): Promise<void> {
     const db = client || getPool();
     const result = await db.query('DELETE FROM events WHERE id = $1', [id]);
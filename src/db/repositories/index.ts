@@ -8,6 +8,8 @@ export * from './memoryContextRepository';
 export * from './memoryTagRepository';
 export * from './memoryPeopleRepository';
 export * from './memoryEmbeddingRepository';
+export * from './memorySegmentRepository';
+export * from './memoryProcessingStageRepository';
 export * from './retrievalLogRepository';
 export * from './labelRepository';
 export * from './memoryLabelRepository';
@@ -16,3 +18,8 @@ export * from './memoryLabelRepository';
 export * from './eventRepository';
 export * from './memoryEventLinkRepository';
 export * from './eventEmbeddingRepository';
+
+// Background jobs
+export * from './jobRepository';
+export * from './accountExportRepository';
+export * from './accountDataRepository';
@@ -0,0 +1,232 @@
+/**
+ * Job Repository
+ * Data access for the durable jobs queue (leases, retries, dead-lettering)
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from '../index';
+import {
+  Job,
+  JobType,
+  CreateJobInput,
+  JobRow,
+  mapJobRow,
+} from '../../types';
+import { DatabaseError } from '../../utils/errors';
+
+export class JobRepository {
+  /**
+   * Enqueue a job. Returns null when an active job of the same type already
+   * exists for the memory (enqueue is idempotent per memory).
+   */
+  async enqueue(input: CreateJobInput, client?: PoolClient): Promise<Job | null> {
+    const db = client || getPool();
+
+    const query = `
+      INSERT INTO jobs (type, user_id, memory_id, payload, max_attempts, run_at)
+      VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()))
+      ON CONFLICT (type, memory_id) WHERE status IN ('queued', 'running') AND memory_id IS NOT NULL
+      DO NOTHING
+      RETURNING *
+    `;
+
+    const values = [
+      input.type,
+      input.userId || null,
+      input.memoryId || null,
+      JSON.stringify(input.payload || {}),
+      input.maxAttempts,
+      input.runAt || null,
+    ];
+
+    try {
+      const result = await db.query<JobRow>(query, values);
+      return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to enqueue job', { error, type: input.type });
+    }
+  }
+
+  /**
+   * Atomically claim the next runnable job for a worker.
+   * Runnable = queued and due, or running with an expired lease (crashed worker).
+   * Claiming counts as an attempt.
+   */
+  async claimNext(workerId: string, leaseMs: number): Promise<Job | null> {
+    const db = getPool();
+
+    const query = `
+      UPDATE jobs
+      SET status = 'running',
+          locked_by = $1,
+          locked_until = NOW() + ($2::int * INTERVAL '1 millisecond'),
+          attempts = attempts + 1,
+          updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM jobs
+        WHERE (status = 'queued' AND run_at <= NOW())
+           OR (status = 'running' AND locked_until < NOW())
+        ORDER BY run_at ASC
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    try {
+      const result = await db.query<JobRow>(query, [workerId, leaseMs]);
+      return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+    } catch (error) {
+      throw new DatabaseError('Failed to claim job', { error, workerId });
+    }
+  }
+
+  /**
+   * Extend the lease on a running job. Returns false if the worker lost the lease.
+   */
+  async extendLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const db = getPool();
+
+    const query = `
+      UPDATE jobs
+      SET locked_until = NOW() + ($3::int * INTERVAL '1 millisecond'), updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2 AND status = 'running'
+    `;
+
+    const result = await db.query(query, [id, workerId, leaseMs]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark a job completed and release its lease
+   */
+  async markCompleted(id: string, workerId: string): Promise<void> {
+    const db = getPool();
+
+    const query = `
+      UPDATE jobs
+      SET status = 'completed', locked_by = NULL, locked_until = NULL,
+          completed_at = NOW(), updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2
+    `;
+
+    await db.query(query, [id, workerId]);
+  }
+
+  /**
+   * Record a failed attempt. Requeues after retryDelayMs, or dead-letters the
+   * job when it has used all of its attempts.
+   */
+  async markFailed(
+    id: string,
+    workerId: string,
+    errorMessage: string,
+    retryDelayMs: number
+  ): Promise<Job | null> {
+    const db = getPool();
+
+    const query = `
+      UPDATE jobs
+      SET status = CASE WHEN attempts >= max_attempts THEN 'dead'::job_status_enum ELSE 'queued'::job_status_enum END,
+          run_at = CASE WHEN attempts >= max_attempts THEN run_at
+                        ELSE NOW() + ($4::int * INTERVAL '1 millisecond') END,
+          last_error = $3,
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2
+      RETURNING *
+    `;
+
+    const result = await db.query<JobRow>(query, [id, workerId, errorMessage, retryDelayMs]);
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Dead-letter a job directly (e.g. reclaimed after its final attempt's lease expired)
+   */
+  async markDead(id: string, workerId: string, errorMessage: string): Promise<void> {
+    const db = getPool();
+
+    const query = `
+      UPDATE jobs
+      SET status = 'dead', last_error = $3, locked_by = NULL, locked_until = NULL, updated_at = NOW()
+      WHERE id = $1 AND locked_by = $2
+    `;
+
+    await db.query(query, [id, workerId, errorMessage]);
+  }
+
+  /**
+   * Push a queued job for this memory back to runAt (never earlier). Returns null when
+   * no job is waiting, e.g. it is already running.
+   */
+  async deferQueued(type: JobType, memoryId: string, runAt: Date, client?: PoolClient): Promise<Job | null> {
+    const db = client || getPool();
+    const result = await db.query<JobRow>(
+      `UPDATE jobs SET run_at = GREATEST(run_at, $3), updated_at = NOW()
+       WHERE type = $1 AND memory_id = $2 AND status = 'queued'
+       RETURNING *`,
+      [type, memoryId, runAt]
+    );
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Make a queued job for this memory due now (e.g. a user retry during its backoff). Returns
+   * null when no job is waiting.
+   */
+  async advanceQueued(type: JobType, memoryId: string, client?: PoolClient): Promise<Job | null> {
+    const db = client || getPool();
+    const result = await db.query<JobRow>(
+      `UPDATE jobs SET run_at = LEAST(run_at, NOW()), updated_at = NOW()
+       WHERE type = $1 AND memory_id = $2 AND status = 'queued'
+       RETURNING *`,
+      [type, memoryId]
+    );
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Whether a job of this type is waiting to run (for singleton maintenance jobs)
+   */
+  async hasQueued(type: JobType): Promise<boolean> {
+    const db = getPool();
+    const result = await db.query(
+      `SELECT 1 FROM jobs WHERE type = $1 AND status = 'queued' LIMIT 1`,
+      [type]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Memories left in pending/processing with no active job, i.e. orphaned by a
+   * restart before jobs existed or by a lost enqueue.
+   */
+  async findOrphanedMemories(): Promise<Array<{ memoryId: string; userId: string | null; status: string }>> {
+    const db = getPool();
+
+    const query = `
+      SELECT m.id, m.user_id, m.processing_status
+      FROM memories m
+      WHERE m.processing_status IN ('pending', 'processing')
+        AND m.deleted_at IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM jobs j
+          WHERE j.memory_id = m.id
+            AND j.type = 'process_memory'
+            AND j.status IN ('queued', 'running')
+        )
+      ORDER BY m.created_at ASC
+    `;
+
+    const result = await db.query<{ id: string; user_id: string | null; processing_status: string }>(query);
+    return result.rows.map((row) => ({
+      memoryId: row.id,
+      userId: row.user_id,
+      status: row.processing_status,
+    }));
+  }
+}
+
+export const jobRepository = new JobRepository();
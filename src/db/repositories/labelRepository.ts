@@ -3,6 +3,7 @@
  * User-defined labels (tags) for memories
  */
 
+import { PoolClient } from 'pg';
 import { getPool } from '../index';
 import { Label, CreateLabelInput, LabelRow, mapLabelRow, LabelKind } from '../../types';
 import { NotFoundError, DatabaseError } from '../../utils/errors';
@@ -24,6 +25,25 @@ export class LabelRepository {
     }
   }
 
+  /**
+   * Return the user's label with this name, creating it if needed (account import)
+   */
+  async findOrCreateByName(userId: string, name: string, kind: LabelKind, client?: PoolClient): Promise<Label> {
+    const db = client || getPool();
+    const query = `
+      INSERT INTO labels (user_id, name, kind)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, name) DO UPDATE SET name = EXCLUDED.name
+      RETURNING *
+    `;
+    try {
+      const result = await db.query<LabelRow>(query, [userId, name, kind]);
+      return mapLabelRow(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to find or create label', { error });
+    }
+  }
+
   async findByUserId(userId: string): Promise<Label[]> {
     const db = getPool();
     const result = await db.query<LabelRow>(
@@ -9,6 +9,7 @@ import {
   MemoryContext,
   CreateMemoryContextInput,
   UpdateMemoryContextInput,
+  CaptureMetadataInput,
   MemoryContextRow,
   mapMemoryContextRow,
 } from '../../types';
@@ -77,6 +78,53 @@ export class MemoryContextRepository {
     }
   }
 
+  /**
+   * Store photo EXIF. GPS (and its place name) only fills a context that has no location yet,
+   * so upload or user locations win; it counts as confirmed, like an upload location.
+   */
+  async upsertCaptureMetadata(input: CaptureMetadataInput, client?: PoolClient): Promise<MemoryContext> {
+    const db = client || getPool();
+    const hasLocation = input.latitude != null && input.longitude != null;
+    const query = `
+      INSERT INTO memory_context (
+        memory_id, latitude, longitude, location_name, confirmed, altitude, orientation, camera_make, camera_model
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (memory_id) DO UPDATE SET
+        latitude = CASE WHEN memory_context.latitude IS NULL AND memory_context.location_name IS NULL
+          THEN EXCLUDED.latitude ELSE memory_context.latitude END,
+        longitude = CASE WHEN memory_context.latitude IS NULL AND memory_context.location_name IS NULL
+          THEN EXCLUDED.longitude ELSE memory_context.longitude END,
+        location_name = CASE WHEN memory_context.latitude IS NULL AND memory_context.location_name IS NULL
+          THEN EXCLUDED.location_name ELSE memory_context.location_name END,
+        confirmed = memory_context.confirmed OR (
+          EXCLUDED.confirmed AND memory_context.latitude IS NULL AND memory_context.location_name IS NULL
+        ),
+        altitude = COALESCE(EXCLUDED.altitude, memory_context.altitude),
+        orientation = COALESCE(EXCLUDED.orientation, memory_context.orientation),
+        camera_make = COALESCE(EXCLUDED.camera_make, memory_context.camera_make),
+        camera_model = COALESCE(EXCLUDED.camera_model, memory_context.camera_model)
+      RETURNING *
+    `;
+    const values = [
+      input.memoryId,
+      hasLocation ? input.latitude : null,
+      hasLocation ? input.longitude : null,
+      hasLocation ? input.locationName ?? null : null,
+      hasLocation,
+      input.altitude ?? null,
+      input.orientation ?? null,
+      input.cameraMake ?? null,
+      input.cameraModel ?? null,
+    ];
+    try {
+      const result = await db.query<MemoryContextRow>(query, values);
+      return mapMemoryContextRow(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to store capture metadata', { error });
+    }
+  }
+
   async update(memoryId: string, input: UpdateMemoryContextInput, client?: PoolClient): Promise<MemoryContext> {
     const db = client || getPool();
     const updates: string[] = [];
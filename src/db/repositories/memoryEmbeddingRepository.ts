@@ -44,6 +44,39 @@ export class MemoryEmbeddingRepository {
     }
   }
   
+  /**
+   * Create or replace a memory's embedding (re-embedding after an edit)
+   */
+  async upsert(
+    input: CreateMemoryEmbeddingInput,
+    client?: PoolClient
+  ): Promise<MemoryEmbedding> {
+    const db = client || getPool();
+
+    const query = `
+      INSERT INTO memory_embeddings (memory_id, embedding, model_version)
+      VALUES ($1, $2::vector, $3)
+      ON CONFLICT (memory_id) DO UPDATE SET
+        embedding = EXCLUDED.embedding,
+        model_version = EXCLUDED.model_version,
+        created_at = NOW()
+      RETURNING *
+    `;
+
+    const values = [
+      input.memoryId,
+      formatVectorString(input.embedding),
+      input.modelVersion || 'text-embedding-3-large',
+    ];
+
+    try {
+      const result = await db.query<MemoryEmbeddingRow>(query, values);
+      return mapMemoryEmbeddingRow(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to upsert memory embedding', { error });
+    }
+  }
+
   /**
    * Get embedding by memory ID
    */
@@ -75,7 +108,7 @@ export class MemoryEmbeddingRepository {
     const query = `
       SELECT me.memory_id, me.embedding <=> $1::vector AS distance
       FROM memory_embeddings me
-      INNER JOIN memories m ON m.id = me.memory_id AND m.user_id = $3
+      INNER JOIN memories m ON m.id = me.memory_id AND m.user_id = $3 AND m.deleted_at IS NULL
       ORDER BY me.embedding <=> $1::vector
       LIMIT $2`;
     try {
@@ -88,6 +121,34 @@ export class MemoryEmbeddingRepository {
       throw new DatabaseError('Failed to search similar memories', { error });
     }
   }
+
+  /**
+   * Cosine distance from the query to specific memories (scoped to userId).
+   * Memories without an embedding are absent from the map.
+   */
+  async findDistances(
+    queryEmbedding: number[],
+    memoryIds: string[],
+    userId: string,
+    client?: PoolClient
+  ): Promise<Map<string, number>> {
+    if (memoryIds.length === 0) return new Map();
+    const db = client || getPool();
+    const query = `
+      SELECT me.memory_id, me.embedding <=> $1::vector AS distance
+      FROM memory_embeddings me
+      INNER JOIN memories m ON m.id = me.memory_id AND m.user_id = $3 AND m.deleted_at IS NULL
+      WHERE me.memory_id = ANY($2::uuid[])`;
+    try {
+      const result = await db.query<{ memory_id: string; distance: number }>(
+        query,
+        [formatVectorString(queryEmbedding), memoryIds, userId]
+      );
+      return new Map(result.rows.map(row => [row.memory_id, Number(row.distance)]));
+    } catch (error) {
+      throw new DatabaseError('Failed to compute memory distances', { error });
+    }
+  }
 }
 
 export const memoryEmbeddingRepository = new MemoryEmbeddingRepository();
@@ -10,6 +10,7 @@ import {
   CreateMemoryEventLinkInput,
   MemoryEventLinkRow,
   mapMemoryEventLinkRow,
+  RelationshipType,
 } from '../../types';
 import { DatabaseError } from '../../utils/errors';
 
@@ -79,6 +80,47 @@ export class MemoryEventLinkRepository {
     return result.rows.map(mapMemoryEventLinkRow);
   }
   
+  /**
+   * Find all links for a set of memories
+   */
+  async findByMemoryIds(memoryIds: string[], client?: PoolClient): Promise<MemoryEventLink[]> {
+    if (memoryIds.length === 0) return [];
+    const db = client || getPool();
+
+    const query = `
+      SELECT * FROM memory_event_links
+      WHERE memory_id = ANY($1::uuid[])
+      ORDER BY created_at ASC
+    `;
+
+    const result = await db.query<MemoryEventLinkRow>(query, [memoryIds]);
+    return result.rows.map(mapMemoryEventLinkRow);
+  }
+
+  /**
+   * Change a link's relationship type (e.g. promote to primary)
+   */
+  async updateRelationshipType(
+    memoryId: string,
+    eventId: string,
+    relationshipType: RelationshipType,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || getPool();
+    
+    const query = `
+      UPDATE memory_event_links
+      SET relationship_type = $3
+      WHERE memory_id = $1 AND event_id = $2
+    `;
+    
+    try {
+      await db.query(query, [memoryId, eventId, relationshipType]);
+    } catch (error) {
+      throw new DatabaseError('Failed to update memory-event link', { error });
+    }
+  }
+  
   /**
    * Delete a specific link
    */
@@ -35,6 +35,15 @@ export class MemoryLabelRepository {
     return result.rows.map((r) => r.label_id);
   }
 
+  async getMemoryIdsByLabelId(labelId: string): Promise<string[]> {
+    const db = getPool();
+    const result = await db.query<{ memory_id: string }>(
+      'SELECT memory_id FROM memory_labels WHERE label_id = $1',
+      [labelId]
+    );
+    return result.rows.map((r) => r.memory_id);
+  }
+
   async getLabelsByMemoryIds(memoryIds: string[]): Promise<Map<string, Label[]>> {
     if (memoryIds.length === 0) {
       return new Map();
@@ -72,6 +72,12 @@ export class MemoryPeopleRepository {
     const db = client || getPool();
     await db.query('DELETE FROM memory_people WHERE memory_id = $1 AND person_name = $2', [memoryId, personName]);
   }
+
+  /** Drop AI suggestions the user has not confirmed (before inference runs again) */
+  async deleteUnconfirmedByMemoryId(memoryId: string, client?: PoolClient): Promise<void> {
+    const db = client || getPool();
+    await db.query('DELETE FROM memory_people WHERE memory_id = $1 AND confirmed = false', [memoryId]);
+  }
 }
 
 export const memoryPeopleRepository = new MemoryPeopleRepository();
@@ -0,0 +1,113 @@
+/**
+ * Memory Processing Stage Repository
+ * Data access for memory_processing_stages (pipeline checkpoints). Pipeline use only: no user
+ * scoping, callers resolve the memory for the user first.
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from '../index';
+import {
+  MemoryProcessingStage,
+  MemoryProcessingStageRow,
+  PipelineStage,
+  StageStatus,
+  mapMemoryProcessingStageRow,
+} from '../../types';
+import { DatabaseError } from '../../utils/errors';
+
+export class MemoryProcessingStageRepository {
+  /**
+   * Checkpoints of a memory's stages, in the order they last started
+   */
+  async findByMemoryId(memoryId: string, client?: PoolClient): Promise<MemoryProcessingStage[]> {
+    const db = client || getPool();
+    const result = await db.query<MemoryProcessingStageRow>(
+      'SELECT * FROM memory_processing_stages WHERE memory_id = $1 ORDER BY started_at, stage',
+      [memoryId]
+    );
+    return result.rows.map(mapMemoryProcessingStageRow);
+  }
+
+  /**
+   * Record a new attempt at a stage: running, attempts + 1, earlier error and output cleared
+   */
+  async start(memoryId: string, stage: PipelineStage, client?: PoolClient): Promise<MemoryProcessingStage> {
+    const db = client || getPool();
+    try {
+      const result = await db.query<MemoryProcessingStageRow>(
+        `INSERT INTO memory_processing_stages (memory_id, stage, status)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (memory_id, stage) DO UPDATE SET
+           status = EXCLUDED.status,
+           attempts = memory_processing_stages.attempts + 1,
+           last_error = NULL,
+           output = NULL,
+           started_at = NOW(),
+           completed_at = NULL,
+           duration_ms = NULL
+         RETURNING *`,
+        [memoryId, stage, StageStatus.Running]
+      );
+      return mapMemoryProcessingStageRow(result.rows[0]);
+    } catch (error) {
+      throw new DatabaseError('Failed to start pipeline stage', { error, memoryId, stage });
+    }
+  }
+
+  async complete(
+    memoryId: string,
+    stage: PipelineStage,
+    durationMs: number,
+    output: unknown,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || getPool();
+    try {
+      await db.query(
+        `UPDATE memory_processing_stages
+         SET status = $3, output = $4, completed_at = NOW(), duration_ms = $5
+         WHERE memory_id = $1 AND stage = $2`,
+        [memoryId, stage, StageStatus.Completed, output == null ? null : JSON.stringify(output), Math.round(durationMs)]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to complete pipeline stage', { error, memoryId, stage });
+    }
+  }
+
+  async fail(
+    memoryId: string,
+    stage: PipelineStage,
+    durationMs: number,
+    lastError: string,
+    client?: PoolClient
+  ): Promise<void> {
+    const db = client || getPool();
+    try {
+      await db.query(
+        `UPDATE memory_processing_stages
+         SET status = $3, last_error = $4, completed_at = NOW(), duration_ms = $5
+         WHERE memory_id = $1 AND stage = $2`,
+        [memoryId, stage, StageStatus.Failed, lastError, Math.round(durationMs)]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to record pipeline stage failure', { error, memoryId, stage });
+    }
+  }
+
+  /**
+   * Drop stage outputs once the memory holds them (pipeline completion)
+   */
+  async clearOutputs(memoryId: string, client?: PoolClient): Promise<void> {
+    const db = client || getPool();
+    try {
+      await db.query(
+        'UPDATE memory_processing_stages SET output = NULL WHERE memory_id = $1 AND output IS NOT NULL',
+        [memoryId]
+      );
+    } catch (error) {
+      throw new DatabaseError('Failed to clear pipeline stage outputs', { error, memoryId });
+    }
+  }
+}
+
+export const memoryProcessingStageRepository = new MemoryProcessingStageRepository();
@@ -1,6 +1,7 @@
 /**
  * Memory Repository
  * SECURITY: Every query is scoped to userId. No NULL user_id fallbacks.
+ * Trashed memories (deleted_at set) are invisible to every query except the trash methods.
  */
 
 import { PoolClient } from 'pg';
@@ -9,11 +10,20 @@ import {
   Memory,
   CreateMemoryInput,
   UpdateMemoryInput,
+  EditMemoryInput,
+  MemoryListFilters,
+  Page,
   MemoryRow,
   mapMemoryRow,
 } from '../../types';
 import { memoryContextRepository } from './memoryContextRepository';
 import { NotFoundError, DatabaseError } from '../../utils/errors';
+import { PageQuery, cursorKeySql, encodeCursor } from '../../utils/cursor';
+
+/** Escape LIKE wildcards so user input matches literally */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
 
 export class MemoryRepository {
   async create(input: CreateMemoryInput, client?: PoolClient): Promise<Memory> {
@@ -51,7 +61,7 @@ export class MemoryRepository {
   async findById(id: string, userId: string, client?: PoolClient): Promise<Memory> {
     const db = client || getPool();
     const result = await db.query<MemoryRow>(
-      'SELECT * FROM memories WHERE id = $1 AND user_id = $2',
+      'SELECT * FROM memories WHERE id = $1 AND user_id = $2 AND deleted_at IS NULL',
       [id, userId]
     );
     if (result.rows.length === 0) throw new NotFoundError('Memory', id);
@@ -63,12 +73,45 @@ export class MemoryRepository {
     if (ids.length === 0) return [];
     const db = client || getPool();
     const result = await db.query<MemoryRow>(
-      'SELECT * FROM memories WHERE id = ANY($1::uuid[]) AND user_id = $2',
+      'SELECT * FROM memories WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NULL',
       [ids, userId]
     );
     return result.rows.map(mapMemoryRow);
   }
 
+  /**
+   * Full-text search over search_vector (transcript, photo text, summary, note, tags, people).
+   * tsQuery is to_tsquery syntax, matched with both the english and simple configs.
+   * SECURITY: scoped to userId. Ordered by ts_rank_cd, best first.
+   */
+  async searchText(
+    tsQuery: string,
+    limit: number,
+    userId: string,
+    client?: PoolClient
+  ): Promise<Array<{ memoryId: string; rank: number }>> {
+    const db = client || getPool();
+    const query = `
+      SELECT m.id AS memory_id, ts_rank_cd(m.search_vector, q.query) AS rank
+      FROM memories m,
+           (SELECT to_tsquery('english', $1) || to_tsquery('simple', $1) AS query) q
+      WHERE m.user_id = $3 AND m.deleted_at IS NULL AND m.search_vector @@ q.query
+      ORDER BY rank DESC, m.captured_at DESC
+      LIMIT $2`;
+    try {
+      const result = await db.query<{ memory_id: string; rank: number }>(query, [tsQuery, limit, userId]);
+      return result.rows.map((row) => ({ memoryId: row.memory_id, rank: Number(row.rank) }));
+    } catch (error) {
+      throw new DatabaseError('Failed to search memories by text', { error });
+    }
+  }
+
+  /** Batch findByIds with context (location) attached; scoped to userId. */
+  async findByIdsWithContext(ids: string[], userId: string, client?: PoolClient): Promise<Memory[]> {
+    const memories = await this.findByIds(ids, userId, client);
+    return this.attachContext(memories, client);
+  }
+
   async findByIdWithContext(id: string, userId: string, client?: PoolClient): Promise<Memory> {
     const memory = await this.findById(id, userId, client);
     const ctx = await memoryContextRepository.findByMemoryId(id, client);
@@ -84,17 +127,85 @@ export class MemoryRepository {
   async listRecent(limit: number = 20, userId: string): Promise<Memory[]> {
     const pool = getPool();
     const result = await pool.query<MemoryRow>(
-      'SELECT * FROM memories WHERE user_id = $1 ORDER BY captured_at DESC LIMIT $2',
+      'SELECT * FROM memories WHERE user_id = $1 AND deleted_at IS NULL ORDER BY captured_at DESC LIMIT $2',
       [userId, limit]
     );
     return result.rows.map(mapMemoryRow);
   }
 
-  async listRecentWithContext(limit: number = 20, userId: string): Promise<Memory[]> {
-    const memories = await this.listRecent(limit, userId);
+  /**
+   * Keyset-paginated listing, newest first, ordered by (captured_at, id), with context attached.
+   * SECURITY: scoped to userId. Served by idx_memories_user_captured_at_id.
+   */
+  async listPage(userId: string, filters: MemoryListFilters, page: PageQuery): Promise<Page<Memory>> {
+    const pool = getPool();
+    const conditions = ['m.user_id = $1', 'm.deleted_at IS NULL'];
+    const values: any[] = [userId];
+    const add = (sql: (p: string) => string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql(`$${values.length}`));
+    };
+    if (filters.from) add((p) => `m.captured_at >= ${p}`, filters.from);
+    if (filters.to) add((p) => `m.captured_at <= ${p}`, filters.to);
+    if (filters.mediaType) add((p) => `m.media_type = ${p}`, filters.mediaType);
+    if (filters.processingStatus) add((p) => `m.processing_status = ${p}`, filters.processingStatus);
+    if (filters.labelId) {
+      add((p) => `EXISTS (SELECT 1 FROM memory_labels ml WHERE ml.memory_id = m.id AND ml.label_id = ${p})`, filters.labelId);
+    }
+    if (filters.person) {
+      add((p) => `EXISTS (SELECT 1 FROM memory_people mp WHERE mp.memory_id = m.id AND lower(mp.person_name) = lower(${p}))`, filters.person);
+    }
+    if (filters.tag) {
+      add((p) => `EXISTS (SELECT 1 FROM memory_tags mt WHERE mt.memory_id = m.id AND lower(mt.tag) = lower(${p}))`, filters.tag);
+    }
+    if (filters.place) {
+      add((p) => `EXISTS (SELECT 1 FROM memory_context mc WHERE mc.memory_id = m.id AND mc.location_name ILIKE ${p})`, `%${escapeLike(filters.place)}%`);
+    }
+
+    // The total ignores the cursor: it counts every page
+    const filterConditions = conditions.slice();
+    const filterValues = values.slice();
+    if (page.cursor) {
+      values.push(page.cursor.key, page.cursor.id);
+      conditions.push(`(m.captured_at, m.id) < ($${values.length - 1}::timestamptz, $${values.length}::uuid)`);
+    }
+    values.push(page.limit + 1);
+
+    try {
+      const [result, count] = await Promise.all([
+        pool.query<MemoryRow & { cursor_key: string }>(
+          `SELECT m.*, ${cursorKeySql('m.captured_at')} AS cursor_key
+           FROM memories m
+           WHERE ${conditions.join(' AND ')}
+           ORDER BY m.captured_at DESC, m.id DESC
+           LIMIT $${values.length}`,
+          values
+        ),
+        page.includeTotal
+          ? pool.query<{ total: number }>(
+              `SELECT COUNT(*)::int AS total FROM memories m WHERE ${filterConditions.join(' AND ')}`,
+              filterValues
+            )
+          : Promise.resolve(null),
+      ]);
+
+      const rows = result.rows.slice(0, page.limit);
+      const last = rows[rows.length - 1];
+      const hasMore = result.rows.length > page.limit;
+      return {
+        items: await this.attachContext(rows.map(mapMemoryRow)),
+        nextCursor: hasMore ? encodeCursor('memories', { key: last.cursor_key, id: last.id }) : null,
+        ...(count && { total: count.rows[0].total }),
+      };
+    } catch (error) {
+      throw new DatabaseError('Failed to list memories', { error });
+    }
+  }
+
+  /** Copy location fields from memory_context onto each memory */
+  private async attachContext(memories: Memory[], client?: PoolClient): Promise<Memory[]> {
     if (memories.length === 0) return [];
-    const ids = memories.map((m) => m.id);
-    const contextMap = await memoryContextRepository.findByMemoryIds(ids);
+    const contextMap = await memoryContextRepository.findByMemoryIds(memories.map((m) => m.id), client);
     return memories.map((m) => {
       const ctx = contextMap.get(m.id);
       if (ctx) {
@@ -123,7 +234,7 @@ export class MemoryRepository {
       return this.findById(id, userId, client);
     }
     values.push(id, userId);
-    const query = `UPDATE memories SET ${updates.join(', ')} WHERE id = $${i} AND user_id = $${i + 1} RETURNING *`;
+    const query = `UPDATE memories SET ${updates.join(', ')} WHERE id = $${i} AND user_id = $${i + 1} AND deleted_at IS NULL RETURNING *`;
     try {
       const result = await db.query<MemoryRow>(query, values);
       if (result.rows.length === 0) throw new NotFoundError('Memory', id);
@@ -134,6 +245,142 @@ export class MemoryRepository {
     }
   }
 
+  /**
+   * Apply a user edit. The first transcript edit copies the machine transcript to
+   * original_transcript; later edits leave it alone.
+   * SECURITY: userId is included in WHERE to prevent cross-user updates.
+   */
+  async applyEdit(
+    id: string,
+    userId: string,
+    input: EditMemoryInput & Pick<UpdateMemoryInput, 'aiTitle' | 'aiSummary' | 'normalizedTranscript' | 'normalizationModel'>,
+    client?: PoolClient
+  ): Promise<Memory> {
+    const db = client || getPool();
+    const updates: string[] = ['edited_at = NOW()'];
+    const values: any[] = [];
+    let i = 1;
+    if (input.transcript !== undefined) {
+      updates.push('original_transcript = COALESCE(original_transcript, transcript)');
+      updates.push(`transcript = $${i++}`);
+      values.push(input.transcript);
+    }
+    if (input.capturedAt !== undefined) { updates.push(`captured_at = $${i++}`); values.push(input.capturedAt); }
+    if (input.aiTitle !== undefined) { updates.push(`ai_title = $${i++}`); values.push(input.aiTitle); }
+    if (input.aiSummary !== undefined) { updates.push(`ai_summary = $${i++}`); values.push(input.aiSummary); }
+    if (input.normalizedTranscript !== undefined) { updates.push(`normalized_transcript = $${i++}`); values.push(input.normalizedTranscript); }
+    if (input.normalizationModel !== undefined) { updates.push(`normalization_model = $${i++}`); values.push(input.normalizationModel); }
+    values.push(id, userId);
+    const query = `UPDATE memories SET ${updates.join(', ')} WHERE id = $${i} AND user_id = $${i + 1} AND deleted_at IS NULL RETURNING *`;
+    try {
+      const result = await db.query<MemoryRow>(query, values);
+      if (result.rows.length === 0) throw new NotFoundError('Memory', id);
+      return mapMemoryRow(result.rows[0]);
+    } catch (error) {
+      if (error instanceof NotFoundError) throw error;
+      throw new DatabaseError('Failed to edit memory', { error });
+    }
+  }
+
+  /**
+   * Move memories to the trash. Already-trashed ids are ignored.
+   * SECURITY: scoped to userId. Returns the memories trashed by this call.
+   */
+  async softDelete(ids: string[], userId: string, client?: PoolClient): Promise<Memory[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    try {
+      const result = await db.query<MemoryRow>(
+        `UPDATE memories SET deleted_at = NOW()
+         WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NULL
+         RETURNING *`,
+        [ids, userId]
+      );
+      return result.rows.map(mapMemoryRow);
+    } catch (error) {
+      throw new DatabaseError('Failed to move memories to trash', { error });
+    }
+  }
+
+  /**
+   * Take memories out of the trash. SECURITY: scoped to userId. Returns the restored memories.
+   */
+  async restore(ids: string[], userId: string, client?: PoolClient): Promise<Memory[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    try {
+      const result = await db.query<MemoryRow>(
+        `UPDATE memories SET deleted_at = NULL
+         WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NOT NULL
+         RETURNING *`,
+        [ids, userId]
+      );
+      return result.rows.map(mapMemoryRow);
+    } catch (error) {
+      throw new DatabaseError('Failed to restore memories', { error });
+    }
+  }
+
+  /** Trashed memories by id, scoped to userId. */
+  async findTrashedByIds(ids: string[], userId: string, client?: PoolClient): Promise<Memory[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    const result = await db.query<MemoryRow>(
+      'SELECT * FROM memories WHERE id = ANY($1::uuid[]) AND user_id = $2 AND deleted_at IS NOT NULL',
+      [ids, userId]
+    );
+    return result.rows.map(mapMemoryRow);
+  }
+
+  /** Trashed memories, most recently trashed first, with context attached; scoped to userId. */
+  async listTrashed(userId: string, limit: number = 100): Promise<Memory[]> {
+    const pool = getPool();
+    const result = await pool.query<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE user_id = $1 AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC, id DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return this.attachContext(result.rows.map(mapMemoryRow));
+  }
+
+  /** Internal — trash purge only: memories trashed before `before`, any user. */
+  async listTrashedBeforeInternal(
+    before: Date,
+    limit: number = 500,
+    client?: PoolClient
+  ): Promise<Array<{ id: string; userId: string }>> {
+    const db = client || getPool();
+    const result = await db.query<{ id: string; user_id: string }>(
+      `SELECT id, user_id FROM memories
+       WHERE deleted_at IS NOT NULL AND deleted_at < $1
+       ORDER BY deleted_at ASC
+       LIMIT $2`,
+      [before, limit]
+    );
+    return result.rows.map((row) => ({ id: row.id, userId: row.user_id }));
+  }
+
+  /**
+   * Permanently delete memories, trashed or not; context, tags, people, labels, embeddings,
+   * event links and jobs cascade.
+   * SECURITY: only the owner's rows are deleted. Returns the deleted rows (for storage cleanup).
+   */
+  async deleteMany(ids: string[], userId: string, client?: PoolClient): Promise<Memory[]> {
+    if (ids.length === 0) return [];
+    const db = client || getPool();
+    try {
+      const result = await db.query<MemoryRow>(
+        'DELETE FROM memories WHERE id = ANY($1::uuid[]) AND user_id = $2 RETURNING *',
+        [ids, userId]
+      );
+      return result.rows.map(mapMemoryRow);
+    } catch (error) {
+      throw new DatabaseError('Failed to delete memories', { error });
+    }
+  }
+
   /** Internal findByIdWithContext — pipeline/formation service use only. */
   async findByIdWithContextInternal(id: string, client?: PoolClient): Promise<Memory> {
     const memory = await this.findByIdInternal(id, client);
@@ -146,17 +393,36 @@ export class MemoryRepository {
     return memory;
   }
 
-  /** Internal listRecent with context — pipeline/formation use only, no user scope. */
-  async listRecentWithContextInternal(limit: number = 100, client?: PoolClient): Promise<Memory[]> {
+  /**
+   * Internal candidate lookup for event formation: one owner's memories captured within
+   * ±windowMinutes of `around`, with context. Scoped by userId so clusters never mix users;
+   * keyed on captured_at (not recency) so backfilled uploads find their neighbours.
+   * When the window holds more than `limit`, the ones captured closest to `around` are kept.
+   * Served by idx_memories_user_captured_at.
+   */
+  async listInTimeWindowWithContextInternal(
+    userId: string,
+    around: Date,
+    windowMinutes: number,
+    limit: number = 500,
+    client?: PoolClient
+  ): Promise<Memory[]> {
     const db = client || getPool();
+    const windowMs = windowMinutes * 60 * 1000;
     const result = await db.query<MemoryRow>(
-      'SELECT * FROM memories ORDER BY captured_at DESC LIMIT $1',
-      [limit]
+      `SELECT * FROM memories
+       WHERE user_id = $1 AND deleted_at IS NULL AND captured_at BETWEEN $2 AND $3
+       ORDER BY abs(extract(epoch FROM captured_at - $5::timestamptz)), id
+       LIMIT $4`,
+      [userId, new Date(around.getTime() - windowMs), new Date(around.getTime() + windowMs), limit, around]
     );
-    const memories = result.rows.map(mapMemoryRow);
+    // Back in capture order for clustering
+    const memories = result.rows
+      .map(mapMemoryRow)
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
     if (memories.length === 0) return [];
     const ids = memories.map((m) => m.id);
-    const contextMap = await memoryContextRepository.findByMemoryIds(ids);
+    const contextMap = await memoryContextRepository.findByMemoryIds(ids, client);
     return memories.map((m) => {
       const ctx = contextMap.get(m.id);
       if (ctx) {
@@ -175,19 +441,42 @@ export class MemoryRepository {
   async listAllInternal(limit: number = 5000, client?: PoolClient): Promise<Memory[]> {
     const db = client || getPool();
     const result = await db.query<MemoryRow>(
-      'SELECT * FROM memories ORDER BY captured_at DESC LIMIT $1',
+      'SELECT * FROM memories WHERE deleted_at IS NULL ORDER BY captured_at DESC LIMIT $1',
       [limit]
     );
     return result.rows.map(mapMemoryRow);
   }
 
+  /**
+   * Internal — maintenance scripts only, no user scope: a page of completed memories ordered by
+   * id, after afterId (keyset cursor). With missingAiTitle, only memories without an AI title.
+   */
+  async listCompletedPageInternal(
+    afterId: string | null,
+    limit: number,
+    options: { missingAiTitle?: boolean } = {},
+    client?: PoolClient
+  ): Promise<Memory[]> {
+    const db = client || getPool();
+    const result = await db.query<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE deleted_at IS NULL AND processing_status = 'completed'
+         AND ($1::uuid IS NULL OR id > $1)
+         AND (NOT $3 OR ai_title IS NULL)
+       ORDER BY id
+       LIMIT $2`,
+      [afterId, limit, options.missingAiTitle ?? false]
+    );
+    return result.rows.map(mapMemoryRow);
+  }
+
   /**
    * Internal findById used by the processing pipeline — no user check (pipeline runs server-side).
    * Only call from trusted pipeline code, never from a user-facing controller.
    */
   async findByIdInternal(id: string, client?: PoolClient): Promise<Memory> {
     const db = client || getPool();
-    const result = await db.query<MemoryRow>('SELECT * FROM memories WHERE id = $1', [id]);
+    const result = await db.query<MemoryRow>('SELECT * FROM memories WHERE id = $1 AND deleted_at IS NULL', [id]);
     if (result.rows.length === 0) throw new NotFoundError('Memory', id);
     return mapMemoryRow(result.rows[0]);
   }
@@ -205,13 +494,18 @@ export class MemoryRepository {
     if (input.transcript !== undefined) { updates.push(`transcript = $${i++}`); values.push(input.transcript); }
     if (input.aiSummary !== undefined) { updates.push(`ai_summary = $${i++}`); values.push(input.aiSummary); }
     if (input.processingStatus !== undefined) { updates.push(`processing_status = $${i++}`); values.push(input.processingStatus); }
+    if (input.renditions !== undefined) { updates.push(`renditions = $${i++}`); values.push(JSON.stringify(input.renditions)); }
+    if (input.ocrText !== undefined) { updates.push(`ocr_text = $${i++}`); values.push(input.ocrText); }
+    if (input.aiTitle !== undefined) { updates.push(`ai_title = $${i++}`); values.push(input.aiTitle); }
+    if (input.normalizedTranscript !== undefined) { updates.push(`normalized_transcript = $${i++}`); values.push(input.normalizedTranscript); }
+    if (input.normalizationModel !== undefined) { updates.push(`normalization_model = $${i++}`); values.push(input.normalizationModel); }
     if (updates.length === 0) {
-      const existing = await db.query<MemoryRow>('SELECT * FROM memories WHERE id = $1', [id]);
+      const existing = await db.query<MemoryRow>('SELECT * FROM memories WHERE id = $1 AND deleted_at IS NULL', [id]);
       if (existing.rows.length === 0) throw new NotFoundError('Memory', id);
       return mapMemoryRow(existing.rows[0]);
     }
     values.push(id);
-    const query = `UPDATE memories SET ${updates.join(', ')} WHERE id = $${i} RETURNING *`;
+    const query = `UPDATE memories SET ${updates.join(', ')} WHERE id = $${i} AND deleted_at IS NULL RETURNING *`;
     try {
       const result = await db.query<MemoryRow>(query, values);
       if (result.rows.length === 0) throw new NotFoundError('Memory', id);
@@ -0,0 +1,168 @@
+/**
+ * Memory Segment Repository
+ * Data access for memory_segments table: timed transcript segments with their own embedding
+ * and full-text vector, for search hits that point at a moment in the recording
+ */
+
+import { PoolClient } from 'pg';
+import { getPool } from '../index';
+import {
+  MemorySegment,
+  CreateMemorySegmentInput,
+  MemorySegmentRow,
+  SegmentMatch,
+  mapMemorySegmentRow,
+  formatVectorString,
+} from '../../types';
+import { DatabaseError } from '../../utils/errors';
+
+type SegmentMatchRow = Omit<MemorySegmentRow, 'seq'>;
+
+const mapSegmentMatch = (row: SegmentMatchRow): SegmentMatch => ({
+  segmentId: row.id,
+  memoryId: row.memory_id,
+  startSeconds: Number(row.start_seconds),
+  endSeconds: Number(row.end_seconds),
+  text: row.text,
+});
+
+const SEGMENT_COLUMNS = 's.id, s.memory_id, s.seq, s.start_seconds, s.end_seconds, s.text';
+
+export class MemorySegmentRepository {
+  /**
+   * Replace a memory's segments (pipeline, including retries). seq follows the input order.
+   */
+  async replaceForMemory(
+    memoryId: string,
+    segments: CreateMemorySegmentInput[],
+    modelVersion: string,
+    client?: PoolClient
+  ): Promise<number> {
+    const db = client || getPool();
+    try {
+      await db.query('DELETE FROM memory_segments WHERE memory_id = $1', [memoryId]);
+      if (segments.length === 0) return 0;
+      const result = await db.query(
+        `INSERT INTO memory_segments (memory_id, seq, start_seconds, end_seconds, text, embedding, model_version)
+         SELECT $1, s.seq - 1, s.start_seconds, s.end_seconds, s.text, s.embedding::vector, $6
+         FROM unnest($2::float8[], $3::float8[], $4::text[], $5::text[])
+           WITH ORDINALITY AS s(start_seconds, end_seconds, text, embedding, seq)`,
+        [
+          memoryId,
+          segments.map((s) => s.startSeconds),
+          segments.map((s) => s.endSeconds),
+          segments.map((s) => s.text),
+          segments.map((s) => formatVectorString(s.embedding)),
+          modelVersion,
+        ]
+      );
+      return result.rowCount ?? segments.length;
+    } catch (error) {
+      throw new DatabaseError('Failed to store memory segments', { error, memoryId });
+    }
+  }
+
+  /**
+   * Drop a memory's segments (transcript edited: the machine text no longer stands)
+   */
+  async deleteByMemoryId(memoryId: string, client?: PoolClient): Promise<number> {
+    const db = client || getPool();
+    try {
+      const result = await db.query('DELETE FROM memory_segments WHERE memory_id = $1', [memoryId]);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      throw new DatabaseError('Failed to delete memory segments', { error, memoryId });
+    }
+  }
+
+  async findByMemoryId(memoryId: string, client?: PoolClient): Promise<MemorySegment[]> {
+    const db = client || getPool();
+    const result = await db.query<MemorySegmentRow>(
+      `SELECT ${SEGMENT_COLUMNS} FROM memory_segments s WHERE s.memory_id = $1 ORDER BY s.seq`,
+      [memoryId]
+    );
+    return result.rows.map(mapMemorySegmentRow);
+  }
+
+  /**
+   * SECURITY: scoped to userId. Segments ordered by cosine similarity (most similar first).
+   */
+  async findSimilar(
+    queryEmbedding: number[],
+    limit: number,
+    userId: string,
+    client?: PoolClient
+  ): Promise<Array<SegmentMatch & { distance: number }>> {
+    const db = client || getPool();
+    const query = `
+      SELECT ${SEGMENT_COLUMNS}, s.embedding <=> $1::vector AS distance
+      FROM memory_segments s
+      INNER JOIN memories m ON m.id = s.memory_id AND m.user_id = $3 AND m.deleted_at IS NULL
+      ORDER BY s.embedding <=> $1::vector
+      LIMIT $2`;
+    try {
+      const result = await db.query<SegmentMatchRow & { distance: number }>(
+        query,
+        [formatVectorString(queryEmbedding), limit, userId]
+      );
+      return result.rows.map((row) => ({ ...mapSegmentMatch(row), distance: Number(row.distance) }));
+    } catch (error) {
+      throw new DatabaseError('Failed to search similar segments', { error });
+    }
+  }
+
+  /**
+   * Full-text search over segment text (tsQuery as for memoryRepository.searchText).
+   * SECURITY: scoped to userId. Ordered by ts_rank_cd, best first.
+   */
+  async searchText(
+    tsQuery: string,
+    limit: number,
+    userId: string,
+    client?: PoolClient
+  ): Promise<Array<SegmentMatch & { rank: number }>> {
+    const db = client || getPool();
+    const query = `
+      SELECT ${SEGMENT_COLUMNS}, ts_rank_cd(s.search_vector, q.query) AS rank
+      FROM memory_segments s
+      INNER JOIN memories m ON m.id = s.memory_id AND m.user_id = $3 AND m.deleted_at IS NULL,
+           (SELECT to_tsquery('english', $1) AS query) q
+      WHERE s.search_vector @@ q.query
+      ORDER BY rank DESC, s.memory_id, s.seq
+      LIMIT $2`;
+    try {
+      const result = await db.query<SegmentMatchRow & { rank: number }>(query, [tsQuery, limit, userId]);
+      return result.rows.map((row) => ({ ...mapSegmentMatch(row), rank: Number(row.rank) }));
+    } catch (error) {
+      throw new DatabaseError('Failed to search segment text', { error });
+    }
+  }
+
+  /**
+   * Closest segment to the query in each of the given memories (scoped to userId).
+   * Memories without segments are absent from the map.
+   */
+  async findBestMatches(
+    queryEmbedding: number[],
+    memoryIds: string[],
+    userId: string,
+    client?: PoolClient
+  ): Promise<Map<string, SegmentMatch>> {
+    if (memoryIds.length === 0) return new Map();
+    const db = client || getPool();
+    const query = `
+      SELECT DISTINCT ON (s.memory_id) ${SEGMENT_COLUMNS}
+      FROM memory_segments s
+      INNER JOIN memories m ON m.id = s.memory_id AND m.user_id = $3 AND m.deleted_at IS NULL
+      WHERE s.memory_id = ANY($2::uuid[])
+      ORDER BY s.memory_id, s.embedding <=> $1::vector`;
+    try {
+      const result = await db.query<SegmentMatchRow>(query, [formatVectorString(queryEmbedding), memoryIds, userId]);
+      return new Map(result.rows.map((row) => [row.memory_id, mapSegmentMatch(row)]));
+    } catch (error) {
+      throw new DatabaseError('Failed to match memory segments', { error });
+    }
+  }
+}
+
+export const memorySegmentRepository = new MemorySegmentRepository();
@@ -65,6 +65,12 @@ export class MemoryTagRepository {
     await db.query('DELETE FROM memory_tags WHERE memory_id = $1 AND tag = $2', [memoryId, tag]);
   }
 
+  /** Drop unconfirmed AI tags (confirmed ones are stored with origin 'user') */
+  async deleteAiByMemoryId(memoryId: string, client?: PoolClient): Promise<void> {
+    const db = client || getPool();
+    await db.query(`DELETE FROM memory_tags WHERE memory_id = $1 AND origin = 'ai'`, [memoryId]);
+  }
+
   async replaceForMemory(memoryId: string, tags: { tag: string; origin: 'ai' | 'user'; confidence?: number }[], client?: PoolClient): Promise<MemoryTag[]> {
     const db = client || getPool();
     await db.query('DELETE FROM memory_tags WHERE memory_id = $1', [memoryId]);
@@ -6,6 +6,8 @@ import { app } from './app';
 import { config } from './config';
 import { logger } from './utils/logger';
 import { storageService } from './services/storage/storageService';
+import { jobWorker } from './services/jobs/jobWorker';
+import { realtimeService } from './services/realtime/realtimeService';
 import { getPool, closePool } from './db';
 
 async function start(): Promise<void> {
@@ -16,6 +18,10 @@ async function start(): Promise<void> {
     await pool.query('SELECT NOW()');
     logger.info('Database connection verified');
 
+    if (config.jobWorkerEnabled) {
+      await jobWorker.start();
+    }
+
     app.listen(config.port, () => {
       logger.info('Server started', { port: config.port, nodeEnv: config.nodeEnv });
       console.log(`\n✅ Glimps Backend running on http://localhost:${config.port}`);
@@ -28,12 +34,16 @@ async function start(): Promise<void> {
 
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, closing gracefully');
+  await jobWorker.stop();
+  await realtimeService.close();
   await closePool();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, closing gracefully');
+  await jobWorker.stop();
+  await realtimeService.close();
   await closePool();
   process.exit(0);
 });
@@ -3,6 +3,7 @@
  * Phase 2: Multer configuration for memory uploads
  */
 
+import os from 'os';
 import multer from 'multer';
 import { config } from '../config';
 import { ValidationError } from '../utils/errors';
@@ -22,7 +23,13 @@ const fileFilter = (
   // Accept image files
   const imageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
   
-  const allowedTypes = [...voiceTypes, ...imageTypes];
+  // Accept video clips
+  const videoTypes = ['video/mp4', 'video/quicktime', 'video/x-m4v'];
+
+  // Accept typed notes
+  const textTypes = ['text/plain'];
+
+  const allowedTypes = [...voiceTypes, ...imageTypes, ...videoTypes, ...textTypes];
   
   if (allowedTypes.includes(file.mimetype)) {
     cb(null, true);
@@ -40,3 +47,18 @@ export const upload = multer({
     fileSize: config.maxFileSize, // Default 50MB
   },
 });
+
+// Account import archives: too large for memory, spooled to a temp file instead
+export const archiveUpload = multer({
+  storage: multer.diskStorage({ destination: os.tmpdir() }),
+  fileFilter: (_req, file, cb) => {
+    if (/\.(tar\.gz|tgz)$/i.test(file.originalname) || file.mimetype === 'application/gzip') {
+      cb(null, true);
+    } else {
+      cb(new ValidationError('Import archive must be a .tar.gz export'));
+    }
+  },
+  limits: {
+    fileSize: config.importMaxSize,
+  },
+});
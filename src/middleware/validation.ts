@@ -34,8 +34,8 @@ export function validateModality(
     throw new ValidationError('Modality is required');
   }
   
-  if (modality !== 'voice' && modality !== 'image') {
-    throw new ValidationError('Modality must be "voice" or "image"');
+  if (!['voice', 'image', 'video', 'text'].includes(modality)) {
+    throw new ValidationError('Modality must be "voice", "image", "video" or "text"');
   }
   
   next();
@@ -1,11 +1,13 @@
 /**
  * Account Routes
- * Phase 6: Delete account and export data (require auth).
+ * Phase 6: Delete account, export and import data (require auth).
  */
 
 import { Router } from 'express';
 import { requireAuth } from '../middleware/auth';
 import { accountController } from '../controllers/accountController';
+import { validateUUID } from '../middleware/validation';
+import { archiveUpload } from '../middleware/upload';
 
 const router = Router();
 
@@ -16,4 +18,20 @@ router.get('/export', requireAuth, (req, res, next) =>
   accountController.exportData(req, res, next)
 );
 
+// Resumable exports: built in the background, downloaded with Range support
+router.post('/exports', requireAuth, (req, res, next) =>
+  accountController.createExport(req, res, next)
+);
+router.get('/exports/:id', requireAuth, validateUUID('id'), (req, res, next) =>
+  accountController.getExport(req, res, next)
+);
+router.get('/exports/:id/download', requireAuth, validateUUID('id'), (req, res, next) =>
+  accountController.downloadExport(req, res, next)
+);
+
+// Restore an export archive into this account
+router.post('/import', requireAuth, archiveUpload.single('archive'), (req, res, next) =>
+  accountController.importArchive(req, res, next)
+);
+
 export default router;
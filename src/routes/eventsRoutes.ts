@@ -5,6 +5,7 @@
 
 import { Router } from 'express';
 import { eventsController } from '../controllers/eventsController';
+import { validateUUID } from '../middleware/validation';
 
 const router = Router();
 
@@ -26,4 +27,22 @@ router.get('/:eventId', (req, res, next) => eventsController.getById(req, res, n
  */
 router.post('/search', (req, res, next) => eventsController.search(req, res, next));
 
+/**
+ * POST /api/events/:eventId/merge
+ * Merge another event into this one
+ */
+router.post('/:eventId/merge', validateUUID('eventId'), (req, res, next) => eventsController.merge(req, res, next));
+
+/**
+ * POST /api/events/:eventId/split
+ * Split memories off into a new event (by timestamp or memory ids)
+ */
+router.post('/:eventId/split', validateUUID('eventId'), (req, res, next) => eventsController.split(req, res, next));
+
+/**
+ * POST /api/events/:eventId/memories
+ * Move a memory into this event / change its relationship type
+ */
+router.post('/:eventId/memories', validateUUID('eventId'), (req, res, next) => eventsController.moveMemory(req, res, next));
+
 export default router;
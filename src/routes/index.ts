@@ -1,7 +1,7 @@
 /**
  * Routes Index
  * Phase 2: Centralized route exports
- * Production: Auth routes public; memories/events/search/ask/resurface require auth
+ * Production: Auth routes public; memories/events/search/ask/resurface/stream require auth
  */
 
 import { Router } from 'express';
@@ -15,6 +15,8 @@ import authRoutes from './authRoutes';
 import uploadRoutes from './uploadRoutes';
 import accountRoutes from './accountRoutes';
 import { labelsRoutes } from './labelsRoutes';
+import { trashRoutes } from './trashRoutes';
+import { streamRoutes } from './streamRoutes';
 
 const router = Router();
 
@@ -34,6 +36,8 @@ router.use('/events', requireAuth, eventsRoutes);
 router.use('/search', requireAuth, searchRoutes);
 router.use('/ask', requireAuth, answerRoutes);
 router.use('/resurface', requireAuth, resurfacingRoutes);
+router.use('/trash', requireAuth, trashRoutes);
+router.use('/stream', requireAuth, streamRoutes);
 
 // Health check
 router.get('/health', (_req, res) => {
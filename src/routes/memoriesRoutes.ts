@@ -23,12 +23,24 @@ router.post(
   (req, res, next) => memoriesController.upload(req, res, next)
 );
 
+// Create a text memory (typed note, JSON body)
+router.post(
+  '/text',
+  (req, res, next) => memoriesController.createText(req, res, next)
+);
+
 // List recent memories
 router.get(
   '/',
   (req, res, next) => memoriesController.list(req, res, next)
 );
 
+// Delete several memories at once
+router.post(
+  '/bulk-delete',
+  (req, res, next) => memoriesController.bulkDelete(req, res, next)
+);
+
 // Memory labels (must be before /:id)
 router.get(
   '/:id/labels',
@@ -47,7 +59,7 @@ router.delete(
   (req, res, next) => memoriesController.removeLabelFromMemory(req, res, next)
 );
 
-// Get memory asset (image or voice file) – must be before /:id
+// Get memory asset (image, voice, video or text file) – must be before /:id
 router.get(
   '/:id/asset',
   validateUUID('id'),
@@ -61,6 +73,20 @@ router.get(
   (req, res, next) => memoriesController.getById(req, res, next)
 );
 
+// Edit transcript / capturedAt
+router.patch(
+  '/:id',
+  validateUUID('id'),
+  (req, res, next) => memoriesController.update(req, res, next)
+);
+
+// Delete memory
+router.delete(
+  '/:id',
+  validateUUID('id'),
+  (req, res, next) => memoriesController.deleteMemory(req, res, next)
+);
+
 // Context (must be after /:id and before /:id/retry)
 router.get(
   '/:id/context',
@@ -0,0 +1,14 @@
+/**
+ * Stream Routes
+ * Live updates over Server-Sent Events
+ */
+
+import { Router } from 'express';
+import { streamController } from '../controllers/streamController';
+
+const router = Router();
+
+// Memory status, pipeline stages, event formation and context suggestions for the user
+router.get('/', (req, res) => streamController.stream(req, res));
+
+export { router as streamRoutes };
@@ -0,0 +1,17 @@
+/**
+ * Trash Routes
+ * Soft-deleted memories and events: list, restore, delete permanently
+ */
+
+import { Router } from 'express';
+import { trashController } from '../controllers/trashController';
+import { validateUUID } from '../middleware/validation';
+
+const router = Router();
+
+router.get('/', (req, res, next) => trashController.list(req, res, next));
+router.post('/restore', (req, res, next) => trashController.restore(req, res, next));
+router.delete('/memories/:id', validateUUID('id'), (req, res, next) => trashController.deleteMemory(req, res, next));
+router.delete('/', (req, res, next) => trashController.empty(req, res, next));
+
+export { router as trashRoutes };
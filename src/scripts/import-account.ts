@@ -0,0 +1,33 @@
+/**
+ * Restore a Glimps export archive into an existing user's account.
+ * Usage: npm run import:account -- <userId> <archive.tar.gz>
+ * Or: npx tsx -r dotenv/config src/scripts/import-account.ts <userId> <archive.tar.gz>
+ *
+ * Memories that need AI reprocessing are queued; run the server (job worker) to process them.
+ */
+
+import { getPool, closePool } from '../db';
+import { accountImportService } from '../services/account/accountImportService';
+
+async function main() {
+  const [userId, archivePath] = process.argv.slice(2);
+  if (!userId || !archivePath) {
+    console.error('Usage: import-account <userId> <archive.tar.gz>');
+    process.exit(1);
+  }
+
+  getPool();
+  console.log(`Importing ${archivePath} for user ${userId}...`);
+  const result = await accountImportService.importArchive(userId, archivePath);
+  console.log(
+    `Done. Memories: ${result.memories}, events: ${result.events}, labels: ${result.labels}, ` +
+    `assets: ${result.assetsCopied} (missing ${result.missingAssets}), ` +
+    `embeddings reused: ${result.embeddingsReused}, queued for reprocessing: ${result.reprocessQueued}`
+  );
+  await closePool();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+/**
+ * One-off: write AI titles and summaries for existing memories (after migration 020).
+ * Only memories without an AI title are summarized; pass --all to redo every memory.
+ * Usage: npm run resummarize:memories [-- --all]
+ * Or: npx tsx -r dotenv/config src/scripts/resummarize-memories.ts [--all]
+ */
+
+import { getPool, closePool } from '../db';
+import { memoryRepository } from '../db/repositories';
+import { memoryPipeline } from '../services/pipeline/memoryPipeline';
+
+const PAGE_SIZE = 500;
+
+async function main() {
+  getPool();
+  const all = process.argv.includes('--all');
+  console.log(`Summarizing ${all ? 'all completed memories' : 'memories without an AI title'}...`);
+  let done = 0;
+  let skipped = 0;
+  let err = 0;
+  // Keyset on id, so skipped and failed memories are not fetched again
+  let afterId: string | null = null;
+  for (;;) {
+    const memories = await memoryRepository.listCompletedPageInternal(afterId, PAGE_SIZE, { missingAiTitle: !all });
+    if (memories.length === 0) break;
+    afterId = memories[memories.length - 1].id;
+    for (const m of memories) {
+      try {
+        if (await memoryPipeline.resummarizeMemory(m.id)) done++;
+        else skipped++;
+      } catch (e) {
+        err++;
+        console.warn(`  Skip memory ${m.id}:`, (e as Error).message);
+      }
+      if ((done + skipped + err) % 50 === 0) console.log(`  ${done + skipped + err} processed`);
+    }
+  }
+  console.log(`Done. Summarized: ${done}, skipped: ${skipped}, errors: ${err}`);
+  await closePool();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
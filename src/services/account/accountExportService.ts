@@ -0,0 +1,237 @@
+/**
+ * Account Export Service
+ * Streams a user's complete data (every table row + original assets) as a .tar.gz archive.
+ * No row cap: tables are read in keyset-paginated chunks and written as they are read.
+ * See exportFormat.ts for the archive layout.
+ *
+ * Stored archives (POST /api/account/exports) copy the user's media, so they do not outlive
+ * config.exportRetentionDays, and each user has at most one export being built.
+ */
+
+import path from 'path';
+import zlib from 'zlib';
+import { PassThrough, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import tar from 'tar-stream';
+import { withTransaction } from '../../db';
+import { accountDataRepository, accountExportRepository } from '../../db/repositories';
+import { storageService } from '../storage/storageService';
+import { jobQueue } from '../jobs/jobQueue';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { AccountExport, ExportStatus, JobType } from '../../types';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  EXPORT_CHUNK_ROWS,
+  EXPORT_TABLES,
+  ExportManifest,
+  ExportTable,
+  dataFileName,
+  assetFileName,
+} from './exportFormat';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+function addEntry(pack: tar.Pack, name: string, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    pack.entry({ name, size: data.length }, data, (err) => (err ? reject(err) : resolve()));
+  });
+}
+
+export class AccountExportService {
+  /**
+   * Write the archive for userId to output. Resolves with the manifest once output is flushed.
+   */
+  async writeArchive(userId: string, output: Writable): Promise<ExportManifest> {
+    const pack = tar.pack();
+    const done = pipeline(pack, zlib.createGzip(), output);
+
+    const writing = this.writeEntries(userId, pack).then(
+      (manifest) => {
+        pack.finalize();
+        return manifest;
+      },
+      (error) => {
+        pack.destroy(error);
+        throw error;
+      }
+    );
+
+    const [manifest] = await Promise.all([writing, done]);
+    return manifest;
+  }
+
+  /**
+   * Start building an export archive in the background, or return the user's export that is
+   * already pending or running.
+   */
+  async requestExport(userId: string): Promise<AccountExport> {
+    return withTransaction(async (client) => {
+      const created = await accountExportRepository.create(userId, client);
+      if (!created) {
+        const active = await accountExportRepository.findActive(userId, client);
+        if (active) return active;
+        // The active export finished in between
+        return this.requestExport(userId);
+      }
+      await jobQueue.enqueue(JobType.ExportAccount, {
+        userId,
+        payload: { exportId: created.id },
+        client,
+      });
+      return created;
+    });
+  }
+
+  /**
+   * Internal — purge job only: delete exports (archive and row) built more than
+   * config.exportRetentionDays ago, for every user. Returns the number of exports deleted.
+   */
+  async purgeExpiredInternal(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.exportRetentionDays * DAY_MS);
+    let purged = 0;
+
+    for (;;) {
+      const expired = await accountExportRepository.listExpiredInternal(cutoff, PURGE_BATCH_SIZE);
+      if (expired.length === 0) break;
+      for (const exp of expired) {
+        if (exp.storagePath) await storageService.deleteFile(exp.storagePath);
+        await accountExportRepository.deleteInternal(exp.id);
+        purged++;
+      }
+    }
+
+    if (purged > 0) logger.info('Purged expired account exports', { count: purged });
+    return purged;
+  }
+
+  /**
+   * Build an export archive into storage (export_account job). Safe to re-run:
+   * a retried job rewrites the archive from scratch.
+   */
+  async buildExport(exportId: string): Promise<AccountExport> {
+    const exp = await accountExportRepository.findByIdInternal(exportId);
+    if (exp.status === ExportStatus.Completed) {
+      return exp;
+    }
+
+    const storagePath = path.join('exports', exp.userId, `${exportId}.tar.gz`);
+    await accountExportRepository.updateInternal(exportId, {
+      status: ExportStatus.Running,
+      lastError: null,
+    });
+
+    try {
+      const body = new PassThrough();
+      const stored = storageService.writeStream(storagePath, body, 'application/gzip').catch((error) => {
+        body.destroy(error);
+        throw error;
+      });
+      const [manifest] = await Promise.all([this.writeArchive(exp.userId, body), stored]);
+      const sizeBytes = await storageService.getFileSize(storagePath);
+
+      logger.info('Account export built', { exportId, userId: exp.userId, sizeBytes });
+
+      return await accountExportRepository.updateInternal(exportId, {
+        status: ExportStatus.Completed,
+        storagePath,
+        sizeBytes,
+        manifest,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      // A partial archive is of no use to anyone
+      await storageService.deleteFile(storagePath);
+      await accountExportRepository.updateInternal(exportId, {
+        status: ExportStatus.Failed,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async writeEntries(userId: string, pack: tar.Pack): Promise<ExportManifest> {
+    const manifest: ExportManifest = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      userId,
+      tables: {} as ExportManifest['tables'],
+      assets: { count: 0, bytes: 0, missing: [] },
+    };
+
+    for (const table of EXPORT_TABLES) {
+      manifest.tables[table] = await this.writeTable(table, userId, pack);
+    }
+
+    await this.writeAssets(userId, pack, manifest);
+    await addEntry(pack, 'manifest.json', Buffer.from(JSON.stringify(manifest, null, 2)));
+
+    logger.info('Account export written', {
+      userId,
+      memories: manifest.tables.memories.rows,
+      events: manifest.tables.events.rows,
+      assets: manifest.assets.count,
+    });
+    return manifest;
+  }
+
+  private async writeTable(
+    table: ExportTable,
+    userId: string,
+    pack: tar.Pack
+  ): Promise<{ rows: number; files: string[] }> {
+    const files: string[] = [];
+    let rows = 0;
+    let afterKey: string | null = null;
+
+    do {
+      const page = await accountDataRepository.fetchTablePage(table, userId, afterKey, EXPORT_CHUNK_ROWS);
+      afterKey = page.nextKey;
+      if (page.rows.length === 0) break;
+
+      const name = dataFileName(table, files.length + 1);
+      const body = page.rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+      await addEntry(pack, name, Buffer.from(body));
+      files.push(name);
+      rows += page.rows.length;
+    } while (afterKey);
+
+    return { rows, files };
+  }
+
+  private async writeAssets(userId: string, pack: tar.Pack, manifest: ExportManifest): Promise<void> {
+    let afterKey: string | null = null;
+
+    do {
+      const page = await accountDataRepository.fetchTablePage('memories', userId, afterKey, EXPORT_CHUNK_ROWS);
+      afterKey = page.nextKey;
+
+      for (const memory of page.rows) {
+        const storagePath: string = memory.storage_path;
+        let size: number;
+        try {
+          size = await storageService.getFileSize(storagePath);
+        } catch {
+          logger.warn('Export asset missing from storage', { memoryId: memory.id, storagePath });
+          manifest.assets.missing.push(memory.id);
+          continue;
+        }
+
+        const name = assetFileName(memory.id, path.extname(storagePath).toLowerCase());
+        await new Promise<void>((resolve, reject) => {
+          const entry = pack.entry({ name, size }, (err) => (err ? reject(err) : resolve()));
+          storageService.openReadStream(storagePath)
+            .then((input) => pipeline(input, entry))
+            .catch(reject);
+        });
+        manifest.assets.count += 1;
+        manifest.assets.bytes += size;
+      }
+    } while (afterKey);
+  }
+}
+
+export const accountExportService = new AccountExportService();
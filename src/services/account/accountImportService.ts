@@ -0,0 +1,361 @@
+/**
+ * Account Import Service
+ * Restores a Glimps export archive (see exportFormat.ts) under the importing user.
+ *
+ * - Only the columns listed in IMPORTED_COLUMNS are read from archive rows; ids, owners,
+ *   storage paths and processing state are set here. Every id is remapped (memories, events,
+ *   tags, people, embeddings); labels are matched by name so re-importing does not duplicate them.
+ * - Assets are copied into storage under fresh paths. The archive's storage_path is never
+ *   stored: a memory whose asset is missing gets a fresh path with no file behind it.
+ * - Memory and event embeddings are kept only when their model_version matches the
+ *   current embedding model; otherwise memories are re-queued for AI processing and
+ *   event embeddings are regenerated. Photos kept as processed are queued for renditions,
+ *   which are not part of the archive.
+ * - Users and retrieval logs are not imported (account identity and query history stay with the source).
+ */
+
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import readline from 'readline';
+import zlib from 'zlib';
+import { pipeline } from 'stream/promises';
+import tar from 'tar-stream';
+import { v4 as uuidv4 } from 'uuid';
+import { withTransaction } from '../../db';
+import {
+  accountDataRepository,
+  labelRepository,
+  eventEmbeddingRepository,
+  eventRepository,
+} from '../../db/repositories';
+import { storageService } from '../storage/storageService';
+import { embeddingService } from '../ai/embeddingService';
+import { jobQueue } from '../jobs/jobQueue';
+import { logger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+import { JobType, LabelKind, MediaType, ProcessingStatus } from '../../types';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  ExportManifest,
+  ExportTable,
+  assetFileName,
+} from './exportFormat';
+
+const ALLOWED_ENTRY = /^(manifest\.json|data\/[a-z_]+\/\d{6}\.jsonl|assets\/[0-9a-fA-F-]+(\.[A-Za-z0-9]+)?)$/;
+const ASSET_EXT = /^\.[a-z0-9]+$/;
+
+type ImportedTable = Exclude<ExportTable, 'users' | 'labels' | 'retrieval_logs'>;
+
+/**
+ * Columns restored from archive rows, per table. Everything else (ids, user and parent ids,
+ * storage paths, processing status, trash state, renditions, generated columns) is either set
+ * by the import or left to its default.
+ */
+const IMPORTED_COLUMNS: Record<ImportedTable, readonly string[]> = {
+  memories: [
+    'created_at', 'captured_at', 'source', 'media_type', 'transcript', 'original_transcript', 'edited_at',
+    'ai_title', 'ai_summary', 'ocr_text', 'normalized_transcript', 'normalization_model',
+  ],
+  memory_context: [
+    'user_note', 'location_name', 'latitude', 'longitude', 'altitude', 'orientation',
+    'camera_make', 'camera_model', 'confirmed',
+  ],
+  memory_tags: ['tag', 'confidence', 'origin'],
+  memory_people: ['person_name', 'confidence', 'confirmed'],
+  memory_embeddings: ['embedding', 'model_version', 'created_at'],
+  memory_segments: ['seq', 'start_seconds', 'end_seconds', 'text', 'embedding', 'model_version'],
+  memory_labels: ['created_at'],
+  events: [
+    'start_time', 'end_time', 'title', 'summary', 'location_name', 'location_lat', 'location_lng',
+    'confidence_score', 'created_at', 'updated_at',
+  ],
+  memory_event_links: ['relationship_type', 'created_at'],
+  event_embeddings: ['embedding', 'model_version', 'created_at'],
+};
+
+/**
+ * The importable columns of an archive row (present keys only)
+ */
+function archived(table: ImportedTable, row: Record<string, any>): Record<string, any> {
+  const picked: Record<string, any> = {};
+  for (const column of IMPORTED_COLUMNS[table]) {
+    if (column in row) picked[column] = row[column];
+  }
+  return picked;
+}
+
+export interface ImportResult {
+  memories: number;
+  events: number;
+  labels: number;
+  assetsCopied: number;
+  missingAssets: number;
+  embeddingsReused: number;
+  reprocessQueued: number;
+}
+
+export class AccountImportService {
+  /**
+   * Import an export archive (.tar.gz) from disk for userId
+   */
+  async importArchive(userId: string, archivePath: string): Promise<ImportResult> {
+    const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'glimps-import-'));
+    try {
+      await this.extract(archivePath, workDir);
+      const manifest = await this.readManifest(workDir);
+      return await this.restore(userId, workDir, manifest);
+    } finally {
+      await fsp.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Unpack the archive into workDir. Entries outside the known layout are skipped,
+   * which also rules out path traversal.
+   */
+  private async extract(archivePath: string, workDir: string): Promise<void> {
+    const extract = tar.extract();
+
+    extract.on('entry', (header, stream, next) => {
+      if (header.type !== 'file' || !ALLOWED_ENTRY.test(header.name)) {
+        stream.resume();
+        stream.on('end', next);
+        return;
+      }
+      const target = path.join(workDir, header.name);
+      fsp.mkdir(path.dirname(target), { recursive: true })
+        .then(() => pipeline(stream, fs.createWriteStream(target)))
+        .then(() => next(), next);
+    });
+
+    try {
+      await pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), extract);
+    } catch (error) {
+      throw new ValidationError('Import archive is not a valid .tar.gz', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private async readManifest(workDir: string): Promise<ExportManifest> {
+    let manifest: ExportManifest;
+    try {
+      manifest = JSON.parse(await fsp.readFile(path.join(workDir, 'manifest.json'), 'utf8'));
+    } catch {
+      throw new ValidationError('Import archive has no readable manifest.json');
+    }
+    if (manifest.format !== EXPORT_FORMAT) {
+      throw new ValidationError(`Unsupported archive format: ${manifest.format}`);
+    }
+    if (!Number.isInteger(manifest.version) || manifest.version < 1 || manifest.version > EXPORT_VERSION) {
+      throw new ValidationError(`Unsupported archive version: ${manifest.version}`);
+    }
+    return manifest;
+  }
+
+  /**
+   * Iterate the rows of one table from its chunk files
+   */
+  private async *rows(workDir: string, manifest: ExportManifest, table: ExportTable): AsyncGenerator<Record<string, any>> {
+    for (const file of manifest.tables[table]?.files ?? []) {
+      if (!ALLOWED_ENTRY.test(file)) continue;
+      const lines = readline.createInterface({
+        input: fs.createReadStream(path.join(workDir, file)),
+        crlfDelay: Infinity,
+      });
+      for await (const line of lines) {
+        if (line.trim()) yield JSON.parse(line);
+      }
+    }
+  }
+
+  private async restore(userId: string, workDir: string, manifest: ExportManifest): Promise<ImportResult> {
+    const modelVersion = embeddingService.modelVersion;
+    const result: ImportResult = {
+      memories: 0,
+      events: 0,
+      labels: 0,
+      assetsCopied: 0,
+      missingAssets: 0,
+      embeddingsReused: 0,
+      reprocessQueued: 0,
+    };
+
+    // Memories whose stored embedding can be reused as-is
+    const reusableEmbedding = new Set<string>();
+    for await (const row of this.rows(workDir, manifest, 'memory_embeddings')) {
+      if (row.model_version === modelVersion) reusableEmbedding.add(row.memory_id);
+    }
+
+    // Copy assets before the transaction; remove them again if the import fails
+    const memoryIds = new Map<string, string>();
+    const storagePaths = new Map<string, string>();
+    const copied: string[] = [];
+    try {
+      for await (const memory of this.rows(workDir, manifest, 'memories')) {
+        const newId = uuidv4();
+        memoryIds.set(memory.id, newId);
+        const ext = path.extname(String(memory.storage_path || '')).toLowerCase();
+        const assetExt = ASSET_EXT.test(ext) ? ext : '';
+        const subdir = memory.media_type === MediaType.Audio ? 'voice'
+          : memory.media_type === MediaType.Video ? 'video'
+          : memory.media_type === MediaType.Text ? 'text' : 'image';
+        const target = path.posix.join(subdir, `${newId}${assetExt}`);
+        storagePaths.set(memory.id, target);
+
+        const source = path.join(workDir, assetFileName(memory.id, assetExt));
+        if (!fs.existsSync(source)) {
+          result.missingAssets++;
+          continue;
+        }
+        await storageService.writeStream(target, fs.createReadStream(source));
+        copied.push(target);
+        result.assetsCopied++;
+      }
+      const withAsset = new Set(copied);
+
+      const eventsToEmbed = await withTransaction(async (client) => {
+        const insert = (table: ImportedTable, row: Record<string, any>) =>
+          accountDataRepository.insertRow(table, row, client);
+
+        for await (const memory of this.rows(workDir, manifest, 'memories')) {
+          const newId = memoryIds.get(memory.id)!;
+          const storagePath = storagePaths.get(memory.id)!;
+          const keepsEmbedding = memory.processing_status === ProcessingStatus.Completed
+            && reusableEmbedding.has(memory.id);
+          const status = keepsEmbedding
+            ? ProcessingStatus.Completed
+            : withAsset.has(storagePath) ? ProcessingStatus.Pending : ProcessingStatus.Failed;
+
+          await insert('memories', {
+            ...archived('memories', memory),
+            id: newId,
+            user_id: userId,
+            storage_path: storagePath,
+            processing_status: status,
+          });
+          if (status === ProcessingStatus.Pending) {
+            await jobQueue.enqueueMemoryProcessing(newId, userId, undefined, client);
+            result.reprocessQueued++;
+          } else if (
+            status === ProcessingStatus.Completed
+            && memory.media_type === MediaType.Photo
+            && withAsset.has(storagePath)
+          ) {
+            // Renditions are not part of the archive; reprocessing regenerates them, the rest get a job
+            await jobQueue.enqueue(JobType.GenerateRenditions, { userId, memoryId: newId, client });
+          }
+          result.memories++;
+        }
+
+        for await (const row of this.rows(workDir, manifest, 'memory_context')) {
+          const memoryId = memoryIds.get(row.memory_id);
+          if (memoryId) await insert('memory_context', { ...archived('memory_context', row), memory_id: memoryId });
+        }
+        for (const table of ['memory_tags', 'memory_people'] as const) {
+          for await (const row of this.rows(workDir, manifest, table)) {
+            const memoryId = memoryIds.get(row.memory_id);
+            if (memoryId) await insert(table, { ...archived(table, row), id: uuidv4(), memory_id: memoryId });
+          }
+        }
+        for await (const row of this.rows(workDir, manifest, 'memory_embeddings')) {
+          const memoryId = memoryIds.get(row.memory_id);
+          if (memoryId && row.model_version === modelVersion) {
+            await insert('memory_embeddings', {
+              ...archived('memory_embeddings', row),
+              id: uuidv4(),
+              memory_id: memoryId,
+            });
+            result.embeddingsReused++;
+          }
+        }
+        // Kept with the memory embedding; otherwise reprocessing re-segments the recording
+        for await (const row of this.rows(workDir, manifest, 'memory_segments')) {
+          const memoryId = memoryIds.get(row.memory_id);
+          if (memoryId && row.model_version === modelVersion && reusableEmbedding.has(row.memory_id)) {
+            await insert('memory_segments', { ...archived('memory_segments', row), id: uuidv4(), memory_id: memoryId });
+          }
+        }
+
+        const labelIds = new Map<string, string>();
+        for await (const row of this.rows(workDir, manifest, 'labels')) {
+          const label = await labelRepository.findOrCreateByName(
+            userId, row.name, (row.kind || 'note') as LabelKind, client
+          );
+          labelIds.set(row.id, label.id);
+          result.labels++;
+        }
+        for await (const row of this.rows(workDir, manifest, 'memory_labels')) {
+          const memoryId = memoryIds.get(row.memory_id);
+          const labelId = labelIds.get(row.label_id);
+          if (memoryId && labelId) {
+            await insert('memory_labels', {
+              ...archived('memory_labels', row),
+              memory_id: memoryId,
+              label_id: labelId,
+            });
+          }
+        }
+
+        const eventIds = new Map<string, string>();
+        for await (const row of this.rows(workDir, manifest, 'events')) {
+          const newId = uuidv4();
+          eventIds.set(row.id, newId);
+          await insert('events', { ...archived('events', row), id: newId, user_id: userId });
+          result.events++;
+        }
+        for await (const row of this.rows(workDir, manifest, 'memory_event_links')) {
+          const memoryId = memoryIds.get(row.memory_id);
+          const eventId = eventIds.get(row.event_id);
+          if (memoryId && eventId) {
+            await insert('memory_event_links', {
+              ...archived('memory_event_links', row),
+              memory_id: memoryId,
+              event_id: eventId,
+            });
+          }
+        }
+
+        const embedded = new Set<string>();
+        for await (const row of this.rows(workDir, manifest, 'event_embeddings')) {
+          const eventId = eventIds.get(row.event_id);
+          if (eventId && row.model_version === modelVersion) {
+            await insert('event_embeddings', { ...archived('event_embeddings', row), id: uuidv4(), event_id: eventId });
+            embedded.add(eventId);
+            result.embeddingsReused++;
+          }
+        }
+        return Array.from(eventIds.values()).filter((id) => !embedded.has(id));
+      });
+
+      await this.embedEvents(eventsToEmbed, userId);
+    } catch (error) {
+      await Promise.all(copied.map((p) => storageService.deleteFile(p)));
+      throw error;
+    }
+
+    logger.info('Account import completed', { userId, ...result });
+    return result;
+  }
+
+  /**
+   * Regenerate embeddings for imported events whose stored embedding used another model.
+   * Best effort: an event without an embedding is still listed, just not found by semantic search.
+   */
+  private async embedEvents(eventIds: string[], userId: string): Promise<void> {
+    for (const eventId of eventIds) {
+      try {
+        const event = await eventRepository.findById(eventId, userId);
+        const embedding = await embeddingService.generateEmbedding(`${event.title}\n\n${event.summary || ''}`);
+        await eventEmbeddingRepository.upsert({ eventId, embedding, modelVersion: embeddingService.modelVersion });
+      } catch (error) {
+        logger.warn('Failed to embed imported event', { eventId, error });
+      }
+    }
+  }
+}
+
+export const accountImportService = new AccountImportService();
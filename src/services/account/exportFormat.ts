@@ -0,0 +1,54 @@
+/**
+ * Export Archive Format
+ * Shared by account export and import. Layout of a version 1 archive (.tar.gz):
+ *
+ *   data/<table>/000001.jsonl   Raw table rows scoped to the user, one JSON object per line,
+ *                               chunked every EXPORT_CHUNK_ROWS rows. Tables appear in
+ *                               EXPORT_TABLES order (parents before children).
+ *   assets/<memoryId><ext>      Original audio/photo file for each memory
+ *   manifest.json               Written last: format, version, row counts, file lists
+ */
+
+export const EXPORT_FORMAT = 'glimps-export';
+export const EXPORT_VERSION = 1;
+export const EXPORT_CHUNK_ROWS = 1000;
+
+export const EXPORT_TABLES = [
+  'users',
+  'memories',
+  'memory_context',
+  'memory_tags',
+  'memory_people',
+  'memory_embeddings',
+  'memory_segments',
+  'labels',
+  'memory_labels',
+  'events',
+  'memory_event_links',
+  'event_embeddings',
+  'retrieval_logs',
+] as const;
+
+export type ExportTable = typeof EXPORT_TABLES[number];
+
+export interface ExportManifest {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  userId: string;
+  tables: Record<ExportTable, { rows: number; files: string[] }>;
+  assets: {
+    count: number;
+    bytes: number;
+    /** Memories whose original file was not found in storage */
+    missing: string[];
+  };
+}
+
+export function dataFileName(table: ExportTable, index: number): string {
+  return `data/${table}/${String(index).padStart(6, '0')}.jsonl`;
+}
+
+export function assetFileName(memoryId: string, ext: string): string {
+  return `assets/${memoryId}${ext}`;
+}
@@ -1,17 +1,23 @@
 /**
  * Embedding Service
- * Phase 2: Generate embeddings using text-embedding-3-large
+ * Phase 2: Generate embeddings via the configured AI provider
  */
 
-import { openai } from './openaiClient';
+import { getAIProvider } from './providers';
 import { logger } from '../../utils/logger';
 import { AIServiceError } from '../../utils/errors';
 import { withRetry } from '../../utils/retry';
 import { config } from '../../config';
 
 export class EmbeddingService {
-  private model = 'text-embedding-3-large';
   private dimensions = 2000; // Neon HNSW limit
+
+  /**
+   * Model id stamped on stored embeddings (model_version)
+   */
+  get modelVersion(): string {
+    return getAIProvider().embeddingModel;
+  }
   
   /**
    * Generate embedding for text
@@ -19,7 +25,7 @@ export class EmbeddingService {
   async generateEmbedding(text: string): Promise<number[]> {
     logger.info('Generating embedding', {
       textLength: text.length,
-      model: this.model,
+      model: this.modelVersion,
       dimensions: this.dimensions,
     });
     
@@ -30,13 +36,9 @@ export class EmbeddingService {
     try {
       const result = await withRetry(
         async () => {
-          const response = await openai.embeddings.create({
-            model: this.model,
-            input: text,
-            dimensions: this.dimensions, // CRITICAL: Must match database schema
-          });
-          
-          return response.data[0].embedding;
+          // CRITICAL: dimensions must match database schema
+          const [embedding] = await getAIProvider().embed([text], this.dimensions);
+          return embedding;
         },
         {
           maxRetries: config.maxRetries,
@@ -72,7 +74,7 @@ export class EmbeddingService {
   async generateEmbeddings(texts: string[]): Promise<number[][]> {
     logger.info('Generating embeddings (batch)', {
       count: texts.length,
-      model: this.model,
+      model: this.modelVersion,
       dimensions: this.dimensions,
     });
     
@@ -82,15 +84,7 @@ export class EmbeddingService {
     
     try {
       const result = await withRetry(
-        async () => {
-          const response = await openai.embeddings.create({
-            model: this.model,
-            input: texts,
-            dimensions: this.dimensions,
-          });
-          
-          return response.data.map(item => item.embedding);
-        },
+        async () => getAIProvider().embed(texts, this.dimensions),
         {
           maxRetries: config.maxRetries,
           backoffMs: config.retryBackoffMs,
@@ -5,5 +5,7 @@
 
 export * from './whisperService';
 export * from './visionService';
+export * from './ocrService';
 export * from './normalizationService';
+export * from './summarizationService';
 export * from './embeddingService';
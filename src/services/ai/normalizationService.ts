@@ -1,13 +1,19 @@
 /**
  * Normalization Service
- * Phase 2: Text normalization using GPT-4o-mini
+ * Phase 2: Text normalization via the configured AI provider's chat model
  */
 
-import { openai } from './openaiClient';
+import { getAIProvider } from './providers';
 import { logger } from '../../utils/logger';
 import { withRetry } from '../../utils/retry';
 import { config } from '../../config';
 
+export interface NormalizedText {
+  text: string;
+  /** Chat model that rewrote the text; null when it was kept as-is (clean, short, or AI failure) */
+  model: string | null;
+}
+
 export class NormalizationService {
   private systemPrompt = `You are a text normalizer for a personal memory system.
 
@@ -34,47 +40,54 @@ Output: "I met with John at 3pm about the project"`;
    * Normalize text by removing filler words and improving grammar
    */
   async normalize(text: string): Promise<string> {
+    return (await this.normalizeWithModel(text)).text;
+  }
+
+  /**
+   * Normalize text, reporting the chat model that rewrote it (stored as normalization_model)
+   */
+  async normalizeWithModel(text: string): Promise<NormalizedText> {
     logger.info('Starting text normalization', { textLength: text.length });
     
     // If text is very short or already clean, skip normalization
     if (text.length < 20 || this.isAlreadyClean(text)) {
       logger.info('Text is already clean, skipping normalization');
-      return text.trim();
+      return { text: text.trim(), model: null };
     }
     
     try {
-      const result = await withRetry(
-        async () => {
-          const response = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
-            messages: [
-              { role: 'system', content: this.systemPrompt },
-              { role: 'user', content: text },
-            ],
-            temperature: 0.3, // Low temperature for consistency
-            max_tokens: 500,
-          });
-          
-          return response.choices[0].message.content || text;
-        },
+      const provider = getAIProvider();
+      const content = await withRetry(
+        async () => provider.chatComplete({
+          purpose: 'normalize',
+          messages: [
+            { role: 'system', content: this.systemPrompt },
+            { role: 'user', content: text },
+          ],
+          temperature: 0.3, // Low temperature for consistency
+          maxTokens: 500,
+        }),
         {
           maxRetries: config.maxRetries,
           backoffMs: config.retryBackoffMs,
         }
       );
       
-      const normalized = result.trim();
+      const normalized = content.trim();
+      if (!normalized) {
+        return { text: text.trim(), model: null };
+      }
       
       logger.info('Text normalization completed', {
         originalLength: text.length,
         normalizedLength: normalized.length,
       });
       
-      return normalized;
+      return { text: normalized, model: provider.chatModel };
     } catch (error) {
       // Graceful fallback: if normalization fails, use original text
       logger.warn('Text normalization failed, using original text', { error });
-      return text.trim();
+      return { text: text.trim(), model: null };
     }
   }
   
@@ -0,0 +1,49 @@
+/**
+ * OCR Service
+ * Literal text in photos (signs, receipts, documents) via the configured AI provider,
+ * kept apart from the scene caption so it can be searched and quoted verbatim
+ */
+
+import { getAIProvider, MediaSource } from './providers';
+import { logger } from '../../utils/logger';
+import { AIServiceError } from '../../utils/errors';
+import { withRetry } from '../../utils/retry';
+import { config } from '../../config';
+
+export interface OcrResult {
+  /** '' when the image has no legible text */
+  text: string;
+}
+
+export class OcrService {
+  /**
+   * Read the text visible in an image
+   */
+  async readText(image: MediaSource): Promise<OcrResult> {
+    logger.info('Starting text extraction', { filename: image.filename });
+
+    try {
+      const result = await withRetry(
+        async () => getAIProvider().readText(image),
+        {
+          maxRetries: config.maxRetries,
+          backoffMs: config.retryBackoffMs,
+        }
+      );
+
+      // Trailing spaces and blank lines only; line breaks are part of the text
+      const text = result.split('\n').map((line) => line.trimEnd()).join('\n').trim();
+      logger.info('Text extraction completed', { textLength: text.length });
+
+      return { text };
+    } catch (error) {
+      logger.error('Text extraction failed', error);
+      throw new AIServiceError(
+        'OCR',
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+}
+
+export const ocrService = new OcrService();
@@ -1,11 +1,21 @@
 /**
  * OpenAI Client
- * Phase 2: Shared OpenAI client instance
+ * Phase 2: Shared OpenAI client instance, created on first use so the
+ * server can run with AI_PROVIDER=local and no OPENAI_API_KEY.
  */
 
 import OpenAI from 'openai';
 import { config } from '../../config';
+import { AIServiceError } from '../../utils/errors';
 
-export const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
+let client: OpenAI | null = null;
+
+export function getOpenAIClient(): OpenAI {
+  if (!client) {
+    if (!config.openaiApiKey) {
+      throw new AIServiceError('OpenAI', 'OPENAI_API_KEY is not configured');
+    }
+    client = new OpenAI({ apiKey: config.openaiApiKey });
+  }
+  return client;
+}
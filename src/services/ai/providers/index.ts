@@ -0,0 +1,26 @@
+/**
+ * AI Providers
+ * Selects the provider from config.aiProvider ('openai' | 'local')
+ */
+
+import { config } from '../../../config';
+import { AIProvider } from './types';
+import { openaiProvider } from './openaiProvider';
+import { localProvider } from './localProvider';
+
+export * from './types';
+export * from './openaiProvider';
+export * from './localProvider';
+
+const providers: Record<string, AIProvider> = {
+  openai: openaiProvider,
+  local: localProvider,
+};
+
+export function getAIProvider(): AIProvider {
+  const provider = providers[config.aiProvider];
+  if (!provider) {
+    throw new Error(`Unknown AI_PROVIDER: ${config.aiProvider}`);
+  }
+  return provider;
+}
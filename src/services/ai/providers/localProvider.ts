@@ -0,0 +1,165 @@
+/**
+ * Local Provider
+ * Deterministic, offline AI provider for development and tests.
+ * Same input always yields the same output; no network, no API key.
+ *
+ * - Embeddings: hashed bag-of-words (feature hashing), L2-normalized, so texts
+ *   sharing words land close together in cosine space.
+ * - Transcribe/caption: template text derived from the file (UTF-8 text files
+ *   are passed through, which makes fixtures easy to write).
+ * - Read text: UTF-8 text files are their own text; binary images have none.
+ * - Chat: a template per ChatPurpose, in the format callers parse.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { buffer as readAll } from 'stream/consumers';
+import { AIProvider, ChatCompletionRequest, MediaSource, TranscriptionResult } from './types';
+
+const FILLER_PATTERN = /\b(um+|uh+|you know|so like|like)\b[,]?\s*/gi;
+const TOKEN_PATTERN = /[\p{L}\p{N}']+/gu;
+
+function sha256(input: string | Buffer): Buffer {
+  return crypto.createHash('sha256').update(input).digest();
+}
+
+/**
+ * Return the buffer as text if it looks like UTF-8 text, otherwise null
+ */
+function asPlainText(buffer: Buffer): string | null {
+  if (buffer.length === 0) return null;
+  const text = buffer.toString('utf8');
+  if (text.includes('�') || /[\x00-\x08\x0E-\x1F]/.test(text)) return null;
+  return text.trim() || null;
+}
+
+function lastUserMessage(request: ChatCompletionRequest): string {
+  const userMessages = request.messages.filter((m) => m.role === 'user');
+  return userMessages.length > 0 ? userMessages[userMessages.length - 1].content : '';
+}
+
+function firstSentence(text: string): string {
+  return text.split(/(?<=[.!?])\s+/)[0].trim();
+}
+
+export class LocalProvider implements AIProvider {
+  readonly name = 'local';
+  readonly embeddingModel = 'local-hash-v1';
+  readonly chatModel = 'local-template-v1';
+
+  async transcribe(audio: MediaSource): Promise<TranscriptionResult> {
+    const buffer = await readAll(await audio.open());
+    const text = asPlainText(buffer);
+    if (text) {
+      return { text, language: 'en' };
+    }
+    const ref = sha256(buffer).toString('hex').slice(0, 8);
+    return {
+      text: `Voice note ${path.basename(audio.filename)} (${buffer.length} bytes, ref ${ref}).`,
+      language: 'en',
+    };
+  }
+
+  async caption(image: MediaSource): Promise<string> {
+    const buffer = await readAll(await image.open());
+    const text = asPlainText(buffer);
+    if (text) {
+      return text;
+    }
+    const ext = path.extname(image.filename).replace('.', '').toUpperCase() || 'image';
+    const ref = sha256(buffer).toString('hex').slice(0, 8);
+    return `A ${ext} photo (${buffer.length} bytes, ref ${ref}).`;
+  }
+
+  async readText(image: MediaSource): Promise<string> {
+    return asPlainText(await readAll(await image.open())) ?? '';
+  }
+
+  async chatComplete(request: ChatCompletionRequest): Promise<string> {
+    const input = lastUserMessage(request);
+
+    switch (request.purpose) {
+      case 'normalize':
+        return input.replace(FILLER_PATTERN, '').replace(/\s{2,}/g, ' ').replace(/[,\s]+$/, '').trim();
+      case 'memory_summary':
+        return this.summarizeMemory(input);
+      case 'event_synthesis':
+        return this.synthesizeEvent(input);
+      case 'answer':
+        return this.answer(input);
+      default:
+        return firstSentence(input);
+    }
+  }
+
+  async embed(texts: string[], dimensions: number): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text, dimensions));
+  }
+
+  private embedOne(text: string, dimensions: number): number[] {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+    // Empty text still needs a non-zero vector (cosine distance is undefined for zero)
+    const features = tokens.length > 0 ? tokens : [text];
+
+    for (const feature of features) {
+      const digest = sha256(feature);
+      const index = digest.readUInt32BE(0) % dimensions;
+      const sign = digest[4] & 1 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  }
+
+  /**
+   * Title from the user note (or the text's) opening words, summary from the first sentence.
+   * Output matches the TITLE/SUMMARY format summarizationService parses.
+   */
+  private summarizeMemory(prompt: string): string {
+    const note = prompt.match(/^User note: (.+)$/m)?.[1] ?? '';
+    const text = prompt.split(/^Text \([^)]*\):\n/m)[1]?.trim() ?? '';
+    const titleWords = (note || text).match(TOKEN_PATTERN)?.slice(0, 5) ?? [];
+    const title = titleWords.length > 0
+      ? titleWords.join(' ').replace(/^./, (c) => c.toUpperCase())
+      : 'Untitled moment';
+    return `TITLE: ${title}\nSUMMARY: ${firstSentence(text || note) || 'A brief moment.'}`;
+  }
+
+  /**
+   * Title from the first memory's opening words, summary from first sentences.
+   * Output matches the TITLE/SUMMARY/CONFIDENCE format eventSynthesisService parses.
+   */
+  private synthesizeEvent(prompt: string): string {
+    const texts = prompt
+      .split(/\[Memory \d+\][^\n]*\n/)
+      .slice(1)
+      .map((block) => block.split(/\n\n/)[0].trim())
+      .filter(Boolean);
+
+    const titleWords = (texts[0] ?? '').match(TOKEN_PATTERN)?.slice(0, 5) ?? [];
+    const title = titleWords.length > 0
+      ? titleWords.join(' ').replace(/^./, (c) => c.toUpperCase())
+      : 'Untitled moment';
+    const summary = texts.length > 0
+      ? texts.map(firstSentence).join(' ').slice(0, 400)
+      : 'A brief moment.';
+
+    return `TITLE: ${title}\nSUMMARY: ${summary}\nCONFIDENCE: 0.6`;
+  }
+
+  /**
+   * Grounded answer that only names the supplied events
+   */
+  private answer(prompt: string): string {
+    const titles = Array.from(prompt.matchAll(/^Title: (.+)$/gm)).map((m) => m[1].trim());
+    if (titles.length === 0) {
+      return "I don't have enough information to answer that.";
+    }
+    const more = titles.length > 1 ? ` (and ${titles.length - 1} more)` : '';
+    return `Based on your memories, the most relevant event is "${titles[0]}"${more}.`;
+  }
+}
+
+export const localProvider = new LocalProvider();
@@ -0,0 +1,98 @@
+/**
+ * OpenAI Provider
+ * Whisper transcription, GPT-4o-mini vision/chat, text-embedding-3-large embeddings
+ */
+
+import path from 'path';
+import { buffer } from 'stream/consumers';
+import { toFile } from 'openai';
+import { getOpenAIClient } from '../openaiClient';
+import { config } from '../../../config';
+import { AIProvider, ChatCompletionRequest, MediaSource, TranscriptionResult } from './types';
+
+const CAPTION_PROMPT =
+  'Describe this image in detail as if you are capturing a personal memory. Include what you see, where it might be, and any notable details. Be concise but descriptive (2-3 sentences).';
+
+const READ_TEXT_PROMPT =
+  'Transcribe all text visible in this image exactly as written (signs, labels, receipts, documents, screens), keeping line breaks, spelling, numbers and punctuation. Do not describe the image or add commentary. If there is no legible text, reply with NONE.';
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai';
+
+  get embeddingModel(): string {
+    return config.openaiEmbeddingModel;
+  }
+
+  get chatModel(): string {
+    return config.openaiChatModel;
+  }
+
+  async transcribe(audio: MediaSource): Promise<TranscriptionResult> {
+    const response = await getOpenAIClient().audio.transcriptions.create({
+      file: await toFile(await audio.open(), path.basename(audio.filename)),
+      model: config.openaiTranscriptionModel,
+      response_format: 'verbose_json', // Includes language, duration and timed segments
+    });
+
+    return {
+      text: response.text,
+      language: response.language,
+      duration: response.duration,
+      segments: response.segments?.map((s) => ({ start: s.start, end: s.end, text: s.text.trim() })),
+    };
+  }
+
+  async caption(image: MediaSource): Promise<string> {
+    return this.askAboutImage(image, CAPTION_PROMPT, 300);
+  }
+
+  async readText(image: MediaSource): Promise<string> {
+    const text = await this.askAboutImage(image, READ_TEXT_PROMPT, 1000);
+    return text.trim() === 'NONE' ? '' : text;
+  }
+
+  async chatComplete(request: ChatCompletionRequest): Promise<string> {
+    const response = await getOpenAIClient().chat.completions.create({
+      model: config.openaiChatModel,
+      messages: request.messages,
+      ...(request.temperature != null && { temperature: request.temperature }),
+      ...(request.maxTokens != null && { max_tokens: request.maxTokens }),
+    });
+
+    return response.choices[0].message.content || '';
+  }
+
+  async embed(texts: string[], dimensions: number): Promise<number[][]> {
+    const response = await getOpenAIClient().embeddings.create({
+      model: config.openaiEmbeddingModel,
+      input: texts,
+      dimensions, // CRITICAL: Must match database schema
+    });
+
+    return response.data.map((item) => item.embedding);
+  }
+
+  private async askAboutImage(image: MediaSource, prompt: string, maxTokens: number): Promise<string> {
+    const base64Image = (await buffer(await image.open())).toString('base64');
+    const ext = image.filename.split('.').pop()?.toLowerCase();
+    const mimeType = ext === 'png' ? 'image/png' : 'image/jpeg';
+
+    const response = await getOpenAIClient().chat.completions.create({
+      model: config.openaiVisionModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64Image}` } },
+          ],
+        },
+      ],
+      max_tokens: maxTokens,
+    });
+
+    return response.choices[0].message.content || '';
+  }
+}
+
+export const openaiProvider = new OpenAIProvider();
@@ -0,0 +1,65 @@
+/**
+ * AI Provider Types
+ * Contract every AI backend implements (transcribe, caption, read text, chat, embed)
+ */
+
+import { Readable } from 'stream';
+
+/**
+ * Media bytes for transcription/captioning, read from storage as a stream.
+ * open() returns a fresh stream each call, so retries can re-read the file.
+ */
+export interface MediaSource {
+  /** File name with extension, used for format detection */
+  filename: string;
+  open(): Promise<Readable>;
+}
+
+/** Timed span of a transcription, in seconds from the start of the audio */
+export interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  language?: string;
+  duration?: number;
+  /** Only when the provider returns timestamps */
+  segments?: TranscriptionSegment[];
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What a chat completion is for. Remote providers ignore it; the local
+ * provider uses it to pick a deterministic response template.
+ */
+export type ChatPurpose = 'normalize' | 'memory_summary' | 'event_synthesis' | 'answer' | 'general';
+
+export interface ChatCompletionRequest {
+  messages: ChatMessage[];
+  purpose?: ChatPurpose;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface AIProvider {
+  /** Provider id, e.g. 'openai' or 'local' */
+  readonly name: string;
+  /** Stored as model_version on embeddings; vectors from different models are not comparable */
+  readonly embeddingModel: string;
+  /** Chat model id, stamped on text it rewrites (e.g. normalization_model) */
+  readonly chatModel: string;
+
+  transcribe(audio: MediaSource): Promise<TranscriptionResult>;
+  caption(image: MediaSource): Promise<string>;
+  /** Literal text visible in the image, line breaks kept; '' when there is none */
+  readText(image: MediaSource): Promise<string>;
+  chatComplete(request: ChatCompletionRequest): Promise<string>;
+  embed(texts: string[], dimensions: number): Promise<number[][]>;
+}
@@ -0,0 +1,148 @@
+/**
+ * Summarization Service
+ * Title and summary for a memory via the configured AI provider's chat model, aware of the
+ * user note and place. Both respect the configured length budget; on AI errors a cleaned-up
+ * excerpt of the text is used instead, so processing never fails here.
+ */
+
+import { getAIProvider } from './providers';
+import { logger } from '../../utils/logger';
+import { withRetry } from '../../utils/retry';
+import { config } from '../../config';
+import { MediaType } from '../../types';
+
+export interface SummaryInput {
+  /** Normalized transcript, caption or note text */
+  text: string;
+  userNote?: string;
+  locationName?: string;
+  mediaType?: MediaType;
+}
+
+export interface MemorySummary {
+  title: string;
+  summary: string;
+  /** True when the AI was unavailable and the excerpt fallback was used */
+  fallback: boolean;
+}
+
+const FILLER_PATTERN = /\b(u+m+|u+h+|e+r+m+|h+m+|you know)\b[,.]?\s*/gi;
+const LEADING_FILLER = /^((so|okay|ok|well|like|and)\b[,.]?\s*)+/i;
+const TITLE_WORDS = 6;
+
+const MEDIA_LABELS: Record<MediaType, string> = {
+  [MediaType.Audio]: 'voice note',
+  [MediaType.Photo]: 'photo caption',
+  [MediaType.Video]: 'video transcript',
+  [MediaType.Text]: 'written note',
+};
+
+/**
+ * Cut text to maxLength at a word boundary, marking the cut with "..."
+ */
+export function clipText(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, Math.max(0, maxLength - 3));
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.]+$/, '')}...`;
+}
+
+function capitalize(text: string): string {
+  return text.replace(/^./, (c) => c.toUpperCase());
+}
+
+export class SummarizationService {
+  private get systemPrompt(): string {
+    return `You write titles and summaries for entries in a personal memory app.
+
+Rules:
+1. Title: ${TITLE_WORDS} words or fewer and at most ${config.titleMaxLength} characters, specific and natural (e.g. "Coffee with Sam in Lisbon"), no quotes or trailing period
+2. Summary: one or two sentences, at most ${config.summaryMaxLength} characters, first-person past tense
+3. Use the user note and place when they help; the user's own words take priority
+4. Never invent people, places or details that are not in the input
+5. Ignore filler words, false starts and transcription noise
+
+Format your response as:
+TITLE: [title here]
+SUMMARY: [summary here]`;
+  }
+
+  /**
+   * Title and summary for a memory's text. Never throws.
+   */
+  async summarize(input: SummaryInput): Promise<MemorySummary> {
+    const text = input.text.trim();
+    if (!text && !input.userNote) {
+      return { title: '', summary: '', fallback: true };
+    }
+
+    try {
+      const content = await withRetry(
+        async () => getAIProvider().chatComplete({
+          purpose: 'memory_summary',
+          messages: [
+            { role: 'system', content: this.systemPrompt },
+            { role: 'user', content: this.buildUserPrompt(input) },
+          ],
+          temperature: 0.3,
+          maxTokens: 200,
+        }),
+        {
+          maxRetries: config.maxRetries,
+          backoffMs: config.retryBackoffMs,
+        }
+      );
+
+      const parsed = this.parseResponse(content);
+      if (!parsed) {
+        logger.warn('Summary response not in the expected format, using excerpt', { contentLength: content.length });
+        return this.fallback(input);
+      }
+      return { ...parsed, fallback: false };
+    } catch (error) {
+      logger.warn('Summarization failed, using excerpt', { error });
+      return this.fallback(input);
+    }
+  }
+
+  private buildUserPrompt(input: SummaryInput): string {
+    const lines: string[] = [];
+    if (input.locationName) lines.push(`Place: ${input.locationName}`);
+    if (input.userNote) lines.push(`User note: ${input.userNote}`);
+    const label = input.mediaType ? MEDIA_LABELS[input.mediaType] : 'memory';
+    lines.push(`Text (${label}):\n${input.text.trim()}`);
+    return lines.join('\n');
+  }
+
+  private parseResponse(content: string): Omit<MemorySummary, 'fallback'> | null {
+    const title = content.match(/TITLE:\s*(.+?)(?:\n|$)/i)?.[1]?.replace(/^["'\s]+|["'.\s]+$/g, '');
+    const summary = content.match(/SUMMARY:\s*([\s\S]+?)\s*$/i)?.[1]?.trim();
+    if (!title || !summary) return null;
+    return {
+      title: clipText(title, config.titleMaxLength),
+      summary: clipText(summary, config.summaryMaxLength),
+    };
+  }
+
+  /**
+   * Excerpt without filler words: the title from the note (the user's own words) or the
+   * text's opening, the summary from the text
+   */
+  private fallback(input: SummaryInput): MemorySummary {
+    const text = this.stripFillers(input.text) || this.stripFillers(input.userNote ?? '');
+    const opening = this.stripFillers(input.userNote ?? '') || text;
+    const titleWords = opening.split(/(?<=[.!?])\s+/)[0].replace(/[.!?]+$/, '').split(' ').slice(0, TITLE_WORDS);
+    return {
+      title: clipText(capitalize(titleWords.join(' ')), config.titleMaxLength),
+      summary: clipText(capitalize(text), config.summaryMaxLength),
+      fallback: true,
+    };
+  }
+
+  private stripFillers(text: string): string {
+    return text.replace(FILLER_PATTERN, '').replace(/\s+/g, ' ').trim().replace(LEADING_FILLER, '');
+  }
+}
+
+export const summarizationService = new SummarizationService();
@@ -1,41 +1,26 @@
 /**
  * Whisper Service
- * Phase 2: Speech-to-text transcription
+ * Phase 2: Speech-to-text transcription via the configured AI provider
  */
 
-import fs from 'fs';
-import { openai } from './openaiClient';
+import { getAIProvider, MediaSource, TranscriptionResult } from './providers';
 import { logger } from '../../utils/logger';
 import { AIServiceError } from '../../utils/errors';
 import { withRetry } from '../../utils/retry';
 import { config } from '../../config';
 
-export interface TranscriptionResult {
-  text: string;
-  language?: string;
-  duration?: number;
-}
+export type { TranscriptionResult };
 
 export class WhisperService {
   /**
    * Transcribe an audio file to text
    */
-  async transcribe(audioPath: string): Promise<TranscriptionResult> {
-    logger.info('Starting transcription', { audioPath });
+  async transcribe(audio: MediaSource): Promise<TranscriptionResult> {
+    logger.info('Starting transcription', { filename: audio.filename });
     
     try {
       const result = await withRetry(
-        async () => {
-          const fileStream = fs.createReadStream(audioPath);
-          
-          const response = await openai.audio.transcriptions.create({
-            file: fileStream,
-            model: 'whisper-1',
-            response_format: 'verbose_json', // Includes language and duration
-          });
-          
-          return response;
-        },
+        async () => getAIProvider().transcribe(audio),
         {
           maxRetries: config.maxRetries,
           backoffMs: config.retryBackoffMs,
@@ -52,6 +37,7 @@ export class WhisperService {
         text: result.text,
         language: result.language,
         duration: result.duration,
+        ...(result.segments && { segments: result.segments }),
       };
     } catch (error) {
       logger.error('Transcription failed', error);
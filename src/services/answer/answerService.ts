@@ -3,14 +3,15 @@
  * Phase 4: LLM-based answer generation with grounding
  */
 
-import { openai } from '../ai/openaiClient';
+import { getAIProvider } from '../ai/providers';
 import { eventRetrievalService } from '../retrieval/eventRetrievalService';
 import { memoryLabelRepository } from '../../db/repositories';
 import { logger } from '../../utils/logger';
 import { AIServiceError } from '../../utils/errors';
 import { withRetry } from '../../utils/retry';
 import { config } from '../../config';
-import { Memory, Event } from '../../types';
+import { formatTimestamp } from '../../utils/timestamp';
+import { Memory, Event, SegmentMatch } from '../../types';
 
 export interface AnswerResult {
   answer: string;
@@ -18,6 +19,7 @@ export interface AnswerResult {
   memories: Memory[];
   eventIds: string[]; // Phase 3: Event citations
   events: Event[];    // Phase 3: Full event data
+  segments: Record<string, SegmentMatch>; // Moment in each voice/video memory that matched
   confidence: 'high' | 'medium' | 'low';
   searchTimeMs: number;
   answerTimeMs: number;
@@ -36,6 +38,7 @@ Your role is to answer questions ONLY using the provided events and memories. Yo
 6. **Preserve dates, names, locations** - Don't change or interpret specific details
 7. **Think in terms of experiences** - Events represent experiences; memories are supporting evidence
 8. **Labels on memories are user-defined** - When a memory shows tags in brackets (e.g. [Mom, Birthday]), use those names to refer to people, pets, or events the user has tagged. Use them to make answers more personal and accurate.
+9. **Quote text in photos exactly** - A memory may include "Text in photo:" with text read from the image (signs, receipts, documents). When the answer is in that text (a password, price, address, phone number), quote it character for character; never correct, complete or guess unreadable parts.
 
 Response format:
 - Provide a direct answer based on the events
@@ -76,6 +79,7 @@ Assistant: "Yes, you met with John for a project meeting where you discussed the
           memories: [],
           eventIds: [],
           events: [],
+          segments: {},
           confidence: 'low',
           searchTimeMs,
           answerTimeMs: 0,
@@ -110,7 +114,12 @@ Assistant: "Yes, you met with John for a project meeting where you discussed the
             .map(m => {
               const labels = labelsByMemoryId.get(m.id) ?? [];
               const tag = labels.length > 0 ? `[${labels.map(l => l.name).join(', ')}] ` : '';
-              return `  - ${tag}${m.transcript || ''}`;
+              const photoText = m.ocrText ? `\n    Text in photo: "${m.ocrText.replace(/\n/g, ' / ')}"` : '';
+              const segment = eventResults.segments[m.id];
+              const moment = segment
+                ? `\n    Matching moment (${formatTimestamp(segment.startSeconds)}-${formatTimestamp(segment.endSeconds)}): "${segment.text}"`
+                : '';
+              return `  - ${tag}${m.transcript || ''}${photoText}${moment}`;
             })
             .join('\n');
           
@@ -127,8 +136,8 @@ ${memoriesText}`;
       
       const answer = await withRetry(
         async () => {
-          const response = await openai.chat.completions.create({
-            model: 'gpt-4o-mini',
+          const content = await getAIProvider().chatComplete({
+            purpose: 'answer',
             messages: [
               { role: 'system', content: this.systemPrompt },
               {
@@ -137,10 +146,10 @@ ${memoriesText}`;
               },
             ],
             temperature: 0.3, // Low temperature for consistency
-            max_tokens: 500,
+            maxTokens: 500,
           });
           
-          return response.choices[0].message.content || '';
+          return content;
         },
         {
           maxRetries: config.maxRetries,
@@ -188,6 +197,7 @@ ${memoriesText}`;
         memories,
         eventIds,
         events,
+        segments: eventResults.segments,
         confidence,
         searchTimeMs,
         answerTimeMs,
@@ -9,6 +9,7 @@ import {
   memoryTagRepository,
   memoryPeopleRepository,
 } from '../../db/repositories';
+import { realtimeService } from '../realtime/realtimeService';
 import { logger } from '../../utils/logger';
 import { TagOrigin } from '../../types';
 
@@ -88,6 +89,18 @@ export class ContextInferenceService {
       });
     }
 
+    if (inferredPlace || inferredPeople.length > 0 || inferredTags.length > 0) {
+      await realtimeService.publish(userId, {
+        type: 'context.suggested',
+        data: {
+          memoryId,
+          ...(inferredPlace?.locationName && { locationName: inferredPlace.locationName }),
+          people: inferredPeople.map((p) => p.name),
+          tags: inferredTags.map((t) => t.tag),
+        },
+      });
+    }
+
     logger.info('Context inference completed', {
       memoryId,
       similarCount: similarIds.length,
@@ -27,7 +27,7 @@ export interface ClusterResult {
   clusterConfidence: number;
 }
 
-const DEFAULT_TIME_WINDOW_MINUTES = 90;
+export const DEFAULT_TIME_WINDOW_MINUTES = 90;
 const DEFAULT_DISTANCE_THRESHOLD_METERS = 150;
 
 export class EventClusteringService {
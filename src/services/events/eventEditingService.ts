@@ -0,0 +1,328 @@
+/**
+ * Event Editing Service
+ * Manual corrections to automatically formed events: merge, split, move a memory.
+ * SECURITY: Every operation takes userId; events and memories are loaded with ownership checks.
+ */
+
+import { PoolClient } from 'pg';
+import { withTransaction } from '../../db';
+import {
+  eventRepository,
+  memoryRepository,
+  memoryEventLinkRepository,
+  eventEmbeddingRepository,
+} from '../../db/repositories';
+import { eventSynthesisService } from './eventSynthesisService';
+import { eventClusteringService } from './eventClusteringService';
+import { embeddingService } from '../ai/embeddingService';
+import { logger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+import { Event, Memory, MemoryEventLink, RelationshipType } from '../../types';
+
+export interface SplitEventInput {
+  /** Memories captured at or after this time move to the new event */
+  at?: Date;
+  /** Or: exactly these memories move to the new event */
+  memoryIds?: string[];
+}
+
+export interface SplitEventResult {
+  event: Event;
+  newEvent: Event;
+}
+
+export interface MoveMemoryInput {
+  memoryId: string;
+  /** Event to move out of; defaults to every event the memory is currently linked to */
+  fromEventId?: string;
+  /** Relationship in the target event; defaults to supporting (primary if the event is empty) */
+  relationshipType?: RelationshipType;
+}
+
+export interface MoveMemoryResult {
+  event: Event;
+  /** Source events left with no memories are deleted */
+  deletedEventIds: string[];
+}
+
+/** What reconcileEvent did to an event after some of its memories changed */
+export type EventReconcileOutcome = 'deleted' | 'trashed' | 'updated' | 'unchanged';
+
+export class EventEditingService {
+  /**
+   * Merge sourceEventId into targetEventId. Moved memories become supporting
+   * (context links stay context); the source event is deleted.
+   */
+  async mergeEvents(targetEventId: string, sourceEventId: string, userId: string): Promise<Event> {
+    if (targetEventId === sourceEventId) {
+      throw new ValidationError('Cannot merge an event into itself');
+    }
+
+    return withTransaction(async (client) => {
+      await eventRepository.findById(targetEventId, userId, client);
+      await eventRepository.findById(sourceEventId, userId, client);
+
+      const targetLinks = await memoryEventLinkRepository.findByEventId(targetEventId, client);
+      const sourceLinks = await memoryEventLinkRepository.findByEventId(sourceEventId, client);
+      const alreadyLinked = new Set(targetLinks.map((l) => l.memoryId));
+
+      for (const link of sourceLinks) {
+        if (alreadyLinked.has(link.memoryId)) continue;
+        await memoryEventLinkRepository.create(
+          {
+            memoryId: link.memoryId,
+            eventId: targetEventId,
+            relationshipType: link.relationshipType === RelationshipType.Context
+              ? RelationshipType.Context
+              : RelationshipType.Supporting,
+          },
+          client
+        );
+      }
+
+      // Links and embedding cascade with the event
+      await eventRepository.delete(sourceEventId, client);
+
+      logger.info('Merged events', {
+        targetEventId,
+        sourceEventId,
+        movedCount: sourceLinks.length,
+      });
+
+      return this.refreshEvent(targetEventId, userId, client);
+    });
+  }
+
+  /**
+   * Split an event in two, either at a timestamp or by an explicit set of memory ids.
+   * Both halves must keep at least one memory.
+   */
+  async splitEvent(eventId: string, userId: string, input: SplitEventInput): Promise<SplitEventResult> {
+    const { at, memoryIds } = input;
+    if ((at == null) === (memoryIds == null)) {
+      throw new ValidationError('Provide exactly one of "at" or "memoryIds"');
+    }
+
+    return withTransaction(async (client) => {
+      const event = await eventRepository.findById(eventId, userId, client);
+      const links = await memoryEventLinkRepository.findByEventId(eventId, client);
+      const memories = await memoryRepository.findByIds(links.map((l) => l.memoryId), userId, client);
+
+      let moving: Set<string>;
+      if (memoryIds) {
+        const linked = new Set(links.map((l) => l.memoryId));
+        const unknown = memoryIds.filter((id) => !linked.has(id));
+        if (unknown.length > 0) {
+          throw new ValidationError('Some memories are not part of this event', { memoryIds: unknown });
+        }
+        moving = new Set(memoryIds);
+      } else {
+        moving = new Set(memories.filter((m) => m.capturedAt >= at!).map((m) => m.id));
+      }
+
+      if (moving.size === 0 || moving.size === links.length) {
+        throw new ValidationError('Split must leave at least one memory in each event');
+      }
+
+      // Placeholder bounds/title; refreshEvent re-synthesizes both halves below
+      const newEvent = await eventRepository.create(
+        {
+          startTime: event.startTime,
+          endTime: event.endTime,
+          title: event.title,
+          confidenceScore: event.confidenceScore,
+          userId,
+        },
+        client
+      );
+
+      for (const link of links) {
+        if (!moving.has(link.memoryId)) continue;
+        await memoryEventLinkRepository.delete(link.memoryId, eventId, client);
+        await memoryEventLinkRepository.create(
+          { memoryId: link.memoryId, eventId: newEvent.id, relationshipType: link.relationshipType },
+          client
+        );
+      }
+
+      logger.info('Split event', { eventId, newEventId: newEvent.id, movedCount: moving.size });
+
+      return {
+        event: await this.refreshEvent(eventId, userId, client),
+        newEvent: await this.refreshEvent(newEvent.id, userId, client),
+      };
+    });
+  }
+
+  /**
+   * Move a memory into targetEventId (or change its relationship if it is already there).
+   * Source events are re-synthesized, or deleted if left empty.
+   */
+  async moveMemory(targetEventId: string, userId: string, input: MoveMemoryInput): Promise<MoveMemoryResult> {
+    const { memoryId, fromEventId, relationshipType } = input;
+
+    return withTransaction(async (client) => {
+      await eventRepository.findById(targetEventId, userId, client);
+      await memoryRepository.findById(memoryId, userId, client);
+
+      const currentEvents = await eventRepository.findByMemoryId(memoryId, userId, client);
+      if (fromEventId && !currentEvents.some((e) => e.id === fromEventId)) {
+        throw new ValidationError('Memory is not part of the source event', { memoryId, fromEventId });
+      }
+      const sourceEventIds = currentEvents
+        .map((e) => e.id)
+        .filter((id) => id !== targetEventId && (!fromEventId || id === fromEventId));
+
+      for (const sourceId of sourceEventIds) {
+        await memoryEventLinkRepository.delete(memoryId, sourceId, client);
+      }
+
+      const targetLinks = await memoryEventLinkRepository.findByEventId(targetEventId, client);
+      const existing = targetLinks.find((l) => l.memoryId === memoryId);
+      const type = relationshipType
+        ?? existing?.relationshipType
+        ?? (targetLinks.length === 0 ? RelationshipType.Primary : RelationshipType.Supporting);
+
+      if (type === RelationshipType.Primary) {
+        // A new primary demotes the old one
+        for (const link of targetLinks) {
+          if (link.memoryId !== memoryId && link.relationshipType === RelationshipType.Primary) {
+            await memoryEventLinkRepository.updateRelationshipType(
+              link.memoryId, targetEventId, RelationshipType.Supporting, client
+            );
+          }
+        }
+      }
+
+      if (existing) {
+        await memoryEventLinkRepository.updateRelationshipType(memoryId, targetEventId, type, client);
+      } else {
+        await memoryEventLinkRepository.create(
+          { memoryId, eventId: targetEventId, relationshipType: type },
+          client
+        );
+      }
+
+      const deletedEventIds: string[] = [];
+      for (const sourceId of sourceEventIds) {
+        const remaining = await memoryEventLinkRepository.findByEventId(sourceId, client);
+        if (remaining.length === 0) {
+          await eventRepository.delete(sourceId, client);
+          deletedEventIds.push(sourceId);
+        } else {
+          await this.refreshEvent(sourceId, userId, client);
+        }
+      }
+
+      logger.info('Moved memory between events', {
+        memoryId,
+        targetEventId,
+        sourceEventIds,
+        relationshipType: type,
+      });
+
+      return {
+        event: await this.refreshEvent(targetEventId, userId, client),
+        deletedEventIds,
+      };
+    });
+  }
+
+  /**
+   * Recompute an event from its current links: exactly one primary, time bounds,
+   * location, re-synthesized title/summary and a fresh embedding.
+   */
+  async refreshEvent(eventId: string, userId: string, client: PoolClient): Promise<Event> {
+    const links = await memoryEventLinkRepository.findByEventId(eventId, client);
+    const memories = await memoryRepository.findByIdsWithContext(
+      links.map((l) => l.memoryId),
+      userId,
+      client
+    );
+    if (memories.length === 0) {
+      return eventRepository.findById(eventId, userId, client);
+    }
+    memories.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+
+    await this.normalizePrimary(eventId, links, memories, client);
+
+    const synthesis = await eventSynthesisService.synthesizeEvent({ memories });
+    const location = eventClusteringService.extractClusterLocation(memories);
+
+    const event = await eventRepository.update(
+      eventId,
+      userId,
+      {
+        startTime: memories[0].capturedAt,
+        endTime: memories[memories.length - 1].capturedAt,
+        title: synthesis.title,
+        summary: synthesis.summary,
+        confidenceScore: synthesis.confidenceScore,
+        locationName: location.locationName,
+        locationLat: location.latitude,
+        locationLng: location.longitude,
+      },
+      client
+    );
+
+    const embeddingText = `${event.title}\n\n${event.summary || ''}`;
+    const embedding = await embeddingService.generateEmbedding(embeddingText);
+    await eventEmbeddingRepository.upsert(
+      { eventId, embedding, modelVersion: embeddingService.modelVersion },
+      client
+    );
+
+    logger.info('Refreshed event', { eventId, title: event.title, memoryCount: memories.length });
+    return event;
+  }
+
+  /**
+   * Bring an event in line with its memories after some were trashed, restored or deleted:
+   * no links left → deleted; only trashed memories left → trashed; otherwise refreshed.
+   * An event already in the trash is left alone while it still has links.
+   */
+  async reconcileEvent(eventId: string, userId: string, client: PoolClient): Promise<EventReconcileOutcome> {
+    const links = await memoryEventLinkRepository.findByEventId(eventId, client);
+    if (links.length === 0) {
+      await eventRepository.delete(eventId, client);
+      return 'deleted';
+    }
+    const trashed = await eventRepository.findTrashedByIds([eventId], userId, client);
+    if (trashed.length > 0) return 'unchanged';
+
+    const live = await memoryRepository.findByIds(links.map((l) => l.memoryId), userId, client);
+    if (live.length === 0) {
+      await eventRepository.softDelete([eventId], userId, client);
+      return 'trashed';
+    }
+    await this.refreshEvent(eventId, userId, client);
+    return 'updated';
+  }
+
+  /**
+   * Keep exactly one primary link: the earliest existing primary, else the earliest
+   * non-context memory, else the earliest memory.
+   */
+  private async normalizePrimary(
+    eventId: string,
+    links: MemoryEventLink[],
+    sortedMemories: Memory[],
+    client: PoolClient
+  ): Promise<void> {
+    const typeById = new Map(links.map((l) => [l.memoryId, l.relationshipType]));
+    const primaries = sortedMemories.filter((m) => typeById.get(m.id) === RelationshipType.Primary);
+
+    const primary = primaries[0]
+      ?? sortedMemories.find((m) => typeById.get(m.id) !== RelationshipType.Context)
+      ?? sortedMemories[0];
+
+    if (typeById.get(primary.id) !== RelationshipType.Primary) {
+      await memoryEventLinkRepository.updateRelationshipType(primary.id, eventId, RelationshipType.Primary, client);
+    }
+    for (const extra of primaries.slice(1)) {
+      await memoryEventLinkRepository.updateRelationshipType(extra.id, eventId, RelationshipType.Supporting, client);
+    }
+  }
+}
+
+export const eventEditingService = new EventEditingService();
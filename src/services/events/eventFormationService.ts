@@ -15,9 +15,10 @@ import {
   memoryRepository,
   eventEmbeddingRepository,
 } from '../../db/repositories';
-import { eventClusteringService } from './eventClusteringService';
+import { eventClusteringService, DEFAULT_TIME_WINDOW_MINUTES } from './eventClusteringService';
 import { eventSynthesisService } from './eventSynthesisService';
 import { embeddingService } from '../ai/embeddingService';
+import { realtimeService } from '../realtime/realtimeService';
 import { logger } from '../../utils/logger';
 import { withTransaction } from '../../db';
 
@@ -39,11 +40,26 @@ export class EventFormationService {
     try {
       const memory = await memoryRepository.findByIdWithContextInternal(memoryId);
 
-      // Find nearby memories (with context for location-aware clustering)
-      const recentMemories = await memoryRepository.listRecentWithContextInternal(100);
+      // Already placed (e.g. links restored by an account import or a manual move)
+      const currentEvents = await eventRepository.findByMemoryIdInternal(memoryId);
+      if (currentEvents.length > 0) {
+        logger.info('Memory already linked to an event, skipping formation', {
+          memoryId,
+          eventId: currentEvents[0].id,
+        });
+        return null;
+      }
+
+      // Candidates: the owner's memories captured around this one (with context for
+      // location-aware clustering). Keyed on captured_at so backfilled photos cluster too.
+      const candidates = await memoryRepository.listInTimeWindowWithContextInternal(
+        memory.userId,
+        memory.capturedAt,
+        DEFAULT_TIME_WINDOW_MINUTES
+      );
       const nearbyMemories = await eventClusteringService.findNearbyMemories(
         memory,
-        recentMemories
+        candidates
       );
 
       // Include the new memory in the cluster
@@ -59,16 +75,19 @@ export class EventFormationService {
         nearbyMemories.map(m => m.id)
       );
 
-      if (existingEvents.length > 0) {
-        // Attach to existing event
-        return await this.attachToExistingEvent(memory, existingEvents[0], clusterMemories);
-      } else {
-        // Create new event
-        return await this.createNewEvent(clusterMemories);
-      }
+      const result = existingEvents.length > 0
+        ? await this.attachToExistingEvent(memory, existingEvents[0], clusterMemories)
+        : await this.createNewEvent(clusterMemories);
+
+      await realtimeService.publish(memory.userId, {
+        type: result.isNewEvent ? 'event.created' : 'event.updated',
+        data: { eventId: result.event.id, title: result.event.title, memoryIds: result.linkedMemoryIds },
+      });
+      return result;
     } catch (error) {
+      // Rethrow so the form_event job is retried with backoff
       logger.error('Event formation failed', { error, memoryId });
-      return null;
+      throw error;
     }
   }
 
@@ -152,6 +171,7 @@ export class EventFormationService {
         {
           eventId: event.id,
           embedding,
+          modelVersion: embeddingService.modelVersion,
         },
         client
       );
@@ -250,6 +270,7 @@ export class EventFormationService {
           {
             eventId: updatedEvent.id,
             embedding,
+            modelVersion: embeddingService.modelVersion,
           },
           client
         );
@@ -3,7 +3,7 @@
  * Phase 2: Generate event titles and summaries using LLM
  */
 
-import { openai } from '../ai/openaiClient';
+import { getAIProvider } from '../ai/providers';
 import { Memory } from '../../types';
 import { logger } from '../../utils/logger';
 import { AIServiceError } from '../../utils/errors';
@@ -73,16 +73,14 @@ Rules:
         
         const userPrompt = this.buildUserPrompt(memoryContext, existingTitle, existingSummary);
         
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+        const content = await getAIProvider().chatComplete({
+          purpose: 'event_synthesis',
           temperature: 0.3,
           messages: [
             { role: 'system', content: this.systemPrompt },
             { role: 'user', content: userPrompt },
           ],
         });
-        
-        const content = response.choices[0].message.content || '';
         const synthesis = this.parseResponse(content);
         
         const duration = Date.now() - startTime;
@@ -6,3 +6,4 @@
 export * from './eventClusteringService';
 export * from './eventSynthesisService';
 export * from './eventFormationService';
+export * from './eventEditingService';
@@ -0,0 +1,129 @@
+/**
+ * Reverse Geocoding Service
+ * Offline coordinates → place name ("Lisbon, Portugal") from the bundled GeoNames gazetteer
+ * (data/geonames/cities15000.tsv: places with 15,000+ inhabitants, rebuilt with
+ * scripts/build-gazetteer.js). No network calls; the file is loaded on first lookup.
+ */
+
+import fs from 'fs';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+
+interface GazetteerPlace {
+  name: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface ReverseGeocodeResult {
+  /** "City, Country", stored as memory_context.location_name */
+  locationName: string;
+  name: string;
+  countryCode: string;
+  distanceKm: number;
+}
+
+const KM_PER_DEGREE = 111.32;
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+/** Places are bucketed by whole-degree cell so a lookup only scans nearby cells */
+function cellKey(latCell: number, lonCell: number): string {
+  return `${latCell}:${lonCell}`;
+}
+
+function countryName(code: string): string {
+  try {
+    return countryNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+export class ReverseGeocodingService {
+  private cells: Map<string, GazetteerPlace[]> | null = null;
+
+  constructor(private readonly gazetteerPath: string = config.gazetteerPath) {}
+
+  /**
+   * Nearest gazetteer place within config.reverseGeocodeMaxKm, or null (open sea, wilderness,
+   * invalid coordinates)
+   */
+  lookup(latitude: number, longitude: number): ReverseGeocodeResult | null {
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)
+      || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return null;
+    }
+    const cells = this.load();
+    const maxKm = config.reverseGeocodeMaxKm;
+
+    const latSpan = Math.ceil(maxKm / KM_PER_DEGREE);
+    const lonSpan = Math.min(180, Math.ceil(maxKm / (KM_PER_DEGREE * Math.max(Math.cos(this.toRad(latitude)), 0.01))));
+    const latCell = Math.floor(latitude);
+    const lonCell = Math.floor(longitude);
+
+    let best: GazetteerPlace | null = null;
+    let bestKm = Infinity;
+    for (let dLat = -latSpan; dLat <= latSpan; dLat++) {
+      for (let dLon = -lonSpan; dLon <= lonSpan; dLon++) {
+        // Wrap across the antimeridian: cells run from -180 to 179
+        const wrappedLon = ((lonCell + dLon + 180) % 360 + 360) % 360 - 180;
+        for (const place of cells.get(cellKey(latCell + dLat, wrappedLon)) ?? []) {
+          const km = this.calculateDistance(latitude, longitude, place.latitude, place.longitude);
+          if (km < bestKm) {
+            best = place;
+            bestKm = km;
+          }
+        }
+      }
+    }
+
+    if (!best || bestKm > maxKm) return null;
+    return {
+      locationName: `${best.name}, ${countryName(best.countryCode)}`,
+      name: best.name,
+      countryCode: best.countryCode,
+      distanceKm: Math.round(bestKm * 10) / 10,
+    };
+  }
+
+  private load(): Map<string, GazetteerPlace[]> {
+    if (this.cells) return this.cells;
+
+    const cells = new Map<string, GazetteerPlace[]>();
+    let count = 0;
+    for (const line of fs.readFileSync(this.gazetteerPath, 'utf8').split('\n')) {
+      if (!line || line.startsWith('#')) continue;
+      const [, name, countryCode, lat, lon] = line.split('\t');
+      const place = { name, countryCode, latitude: Number(lat), longitude: Number(lon) };
+      if (!name || !Number.isFinite(place.latitude) || !Number.isFinite(place.longitude)) continue;
+      const key = cellKey(Math.floor(place.latitude), Math.floor(place.longitude));
+      const bucket = cells.get(key);
+      if (bucket) bucket.push(place);
+      else cells.set(key, [place]);
+      count++;
+    }
+
+    logger.info('Gazetteer loaded', { path: this.gazetteerPath, places: count });
+    this.cells = cells;
+    return cells;
+  }
+
+  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const R = 6371;
+    const dLat = this.toRad(lat2 - lat1);
+    const dLon = this.toRad(lon2 - lon1);
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos(this.toRad(lat1)) * Math.cos(this.toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    return R * c;
+  }
+
+  private toRad(degrees: number): number {
+    return degrees * (Math.PI / 180);
+  }
+}
+
+export const reverseGeocodingService = new ReverseGeocodingService();
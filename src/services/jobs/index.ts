@@ -0,0 +1,8 @@
+/**
+ * Job Services
+ * Durable background job queue and worker
+ */
+
+export * from './jobQueue';
+export * from './jobHandlers';
+export * from './jobWorker';
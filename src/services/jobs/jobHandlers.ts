@@ -0,0 +1,125 @@
+/**
+ * Job Handlers
+ * Maps each JobType to the work it performs. Handlers must be safe to re-run:
+ * a job may be retried after a crash mid-way through.
+ */
+
+import { memoryRepository } from '../../db/repositories';
+import { memoryPipeline } from '../pipeline/memoryPipeline';
+import { contextInferenceService } from '../context/contextInferenceService';
+import { accountExportService } from '../account/accountExportService';
+import { trashService } from '../memories/trashService';
+import { memoryIndexingService } from '../memories/memoryIndexingService';
+import { jobQueue } from './jobQueue';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { NotFoundError, ProcessingError } from '../../utils/errors';
+import { Job, JobType, ProcessingStatus } from '../../types';
+
+export type JobHandler = (job: Job) => Promise<void>;
+
+function requireMemoryId(job: Job): string {
+  if (!job.memoryId) {
+    throw new ProcessingError('Job has no memoryId', { jobId: job.id, type: job.type });
+  }
+  return job.memoryId;
+}
+
+/**
+ * Run the memory pipeline. A memory left in processing/failed by an earlier
+ * attempt is reset to pending first and resumes after its completed stages;
+ * a completed memory is a no-op.
+ */
+async function handleProcessMemory(job: Job): Promise<void> {
+  const memoryId = requireMemoryId(job);
+  let memory;
+  try {
+    memory = await memoryRepository.findByIdInternal(memoryId);
+  } catch (error) {
+    // Trashed since it was enqueued; restoring re-enqueues it
+    if (error instanceof NotFoundError) {
+      logger.info('Memory is in the trash, skipping job', { jobId: job.id, memoryId });
+      return;
+    }
+    throw error;
+  }
+
+  if (memory.processingStatus === ProcessingStatus.Completed) {
+    logger.info('Memory already processed, skipping job', { jobId: job.id, memoryId });
+    return;
+  }
+  if (memory.processingStatus !== ProcessingStatus.Pending) {
+    await memoryRepository.updateInternal(memoryId, { processingStatus: ProcessingStatus.Pending });
+  }
+
+  await memoryPipeline.processMemory({
+    memoryId,
+    metadata: job.payload.metadata,
+    userId: job.userId ?? memory.userId,
+  });
+}
+
+async function handleFormEvent(job: Job): Promise<void> {
+  const memoryId = requireMemoryId(job);
+  const { eventFormationService } = await import('../events/eventFormationService');
+  await eventFormationService.processMemory(memoryId);
+}
+
+async function handleInferContext(job: Job): Promise<void> {
+  const memoryId = requireMemoryId(job);
+  await contextInferenceService.inferAndStoreContext(memoryId, job.userId);
+}
+
+async function handleReindexMemory(job: Job): Promise<void> {
+  const memoryId = requireMemoryId(job);
+  await memoryIndexingService.reindexMemory(memoryId);
+}
+
+async function handleGenerateRenditions(job: Job): Promise<void> {
+  const memoryId = requireMemoryId(job);
+  try {
+    await memoryPipeline.generateMissingRenditions(memoryId);
+  } catch (error) {
+    // Trashed since it was enqueued
+    if (error instanceof NotFoundError) {
+      logger.info('Memory is in the trash, skipping job', { jobId: job.id, memoryId });
+      return;
+    }
+    throw error;
+  }
+}
+
+async function handleExportAccount(job: Job): Promise<void> {
+  const exportId = job.payload.exportId;
+  if (!exportId) {
+    throw new ProcessingError('Export job has no exportId', { jobId: job.id });
+  }
+  await accountExportService.buildExport(exportId);
+}
+
+/**
+ * Purge expired trash, then schedule the next run
+ */
+async function handlePurgeTrash(_job: Job): Promise<void> {
+  await trashService.purgeExpiredInternal();
+  await jobQueue.scheduleTrashPurge(new Date(Date.now() + config.trashPurgeIntervalMs));
+}
+
+/**
+ * Delete expired export archives, then schedule the next run
+ */
+async function handlePurgeExports(_job: Job): Promise<void> {
+  await accountExportService.purgeExpiredInternal();
+  await jobQueue.scheduleExportPurge(new Date(Date.now() + config.exportPurgeIntervalMs));
+}
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  [JobType.ProcessMemory]: handleProcessMemory,
+  [JobType.FormEvent]: handleFormEvent,
+  [JobType.InferContext]: handleInferContext,
+  [JobType.ExportAccount]: handleExportAccount,
+  [JobType.PurgeTrash]: handlePurgeTrash,
+  [JobType.ReindexMemory]: handleReindexMemory,
+  [JobType.PurgeExports]: handlePurgeExports,
+  [JobType.GenerateRenditions]: handleGenerateRenditions,
+};
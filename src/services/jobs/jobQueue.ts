@@ -0,0 +1,104 @@
+/**
+ * Job Queue
+ * Enqueue durable background work (memory processing, event formation, context inference).
+ * Jobs are picked up by the JobWorker; see jobWorker.ts.
+ */
+
+import { PoolClient } from 'pg';
+import { jobRepository } from '../../db/repositories';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { Job, JobType } from '../../types';
+
+export interface EnqueueJobOptions {
+  userId?: string;
+  memoryId?: string;
+  payload?: Record<string, any>;
+  runAt?: Date;
+  client?: PoolClient; // Enqueue inside the caller's transaction
+}
+
+export class JobQueue {
+  /**
+   * Enqueue a job. Returns null if an equivalent job is already queued or running.
+   */
+  async enqueue(type: JobType, options: EnqueueJobOptions = {}): Promise<Job | null> {
+    const { userId, memoryId, payload, runAt, client } = options;
+
+    const job = await jobRepository.enqueue(
+      {
+        type,
+        userId,
+        memoryId,
+        payload,
+        runAt,
+        maxAttempts: config.jobMaxAttempts,
+      },
+      client
+    );
+
+    if (job) {
+      logger.debug('Job enqueued', { jobId: job.id, type, memoryId });
+    } else {
+      logger.debug('Job already active, skipping enqueue', { type, memoryId });
+    }
+    return job;
+  }
+
+  /**
+   * Enqueue the processing pipeline for a pending memory
+   */
+  async enqueueMemoryProcessing(
+    memoryId: string,
+    userId: string | undefined,
+    metadata?: Record<string, any>,
+    client?: PoolClient
+  ): Promise<Job | null> {
+    return this.enqueue(JobType.ProcessMemory, {
+      memoryId,
+      userId,
+      payload: metadata ? { metadata } : {},
+      client,
+    });
+  }
+
+  /**
+   * Processing for a memory the user asked to retry: a job still waiting out its backoff is
+   * made due now instead of queueing a second one. Returns null when a job is already running.
+   */
+  async requeueMemoryProcessing(memoryId: string, userId: string, client?: PoolClient): Promise<Job | null> {
+    const job = await this.enqueueMemoryProcessing(memoryId, userId, undefined, client);
+    if (job) return job;
+    return jobRepository.advanceQueued(JobType.ProcessMemory, memoryId, client);
+  }
+
+  /**
+   * Debounced re-embedding of a memory after its curation changed: the job runs
+   * config.reindexDebounceMs after the latest request, so a burst of edits re-embeds once.
+   */
+  async scheduleReindex(memoryId: string, userId: string, client?: PoolClient): Promise<Job | null> {
+    const runAt = new Date(Date.now() + config.reindexDebounceMs);
+    const job = await this.enqueue(JobType.ReindexMemory, { memoryId, userId, runAt, client });
+    if (job) return job;
+    // A running job re-checks the index text before it finishes (see memoryIndexingService)
+    return jobRepository.deferQueued(JobType.ReindexMemory, memoryId, runAt, client);
+  }
+
+  /**
+   * Schedule the next trash purge unless one is already waiting
+   */
+  async scheduleTrashPurge(runAt?: Date): Promise<Job | null> {
+    if (await jobRepository.hasQueued(JobType.PurgeTrash)) return null;
+    return this.enqueue(JobType.PurgeTrash, { runAt });
+  }
+
+  /**
+   * Schedule the next export archive purge unless one is already waiting
+   */
+  async scheduleExportPurge(runAt?: Date): Promise<Job | null> {
+    if (await jobRepository.hasQueued(JobType.PurgeExports)) return null;
+    return this.enqueue(JobType.PurgeExports, { runAt });
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,192 @@
+/**
+ * Job Worker
+ * Polls the jobs table and runs handlers under a lease.
+ *
+ * - Claiming a job sets locked_until = now + visibility timeout; a heartbeat
+ *   extends it while the handler runs. If the process dies, the lease expires
+ *   and another worker reclaims the job.
+ * - Failures are requeued with exponential backoff; once max_attempts is used
+ *   up the job is dead-lettered (status 'dead', last_error kept for inspection).
+ * - On start, memories orphaned in pending/processing are re-enqueued and the
+ *   trash and export purges are scheduled (each reschedules itself after its run).
+ */
+
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { jobRepository, memoryRepository } from '../../db/repositories';
+import { jobQueue } from './jobQueue';
+import { jobHandlers } from './jobHandlers';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { getBackoffDelay } from '../../utils/retry';
+import { Job, JobStatus, ProcessingStatus } from '../../types';
+
+export class JobWorker {
+  readonly workerId = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+  private running = false;
+  private loopPromise: Promise<void> | null = null;
+  private sleepTimer: NodeJS.Timeout | null = null;
+  private wake: (() => void) | null = null;
+
+  /**
+   * Recover orphaned memories, then start polling
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    logger.info('Job worker starting', { workerId: this.workerId });
+    await this.recoverOrphanedMemories();
+    await this.scheduleMaintenance();
+
+    this.loopPromise = this.loop();
+  }
+
+  /**
+   * Stop polling and wait for the in-flight job (if any) to finish
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    if (this.sleepTimer) clearTimeout(this.sleepTimer);
+    this.wake?.();
+    await this.loopPromise;
+    logger.info('Job worker stopped', { workerId: this.workerId });
+  }
+
+  /**
+   * Claim and run a single job. Returns false when nothing was runnable.
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await jobRepository.claimNext(this.workerId, config.jobVisibilityTimeoutMs);
+    if (!job) return false;
+
+    // Reclaimed after the final attempt's lease expired (worker crashed mid-job)
+    if (job.attempts > job.maxAttempts) {
+      await jobRepository.markDead(
+        job.id,
+        this.workerId,
+        job.lastError || 'Lease expired after final attempt'
+      );
+      logger.warn('Job dead-lettered', { jobId: job.id, type: job.type, attempts: job.attempts - 1 });
+      return true;
+    }
+
+    await this.execute(job);
+    return true;
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      let didWork = false;
+      try {
+        didWork = await this.runOnce();
+      } catch (error) {
+        logger.error('Job worker poll failed', error, { workerId: this.workerId });
+      }
+      if (!didWork && this.running) {
+        await this.sleep(config.jobPollIntervalMs);
+      }
+    }
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const handler = jobHandlers[job.type];
+    const startTime = Date.now();
+
+    const heartbeat = setInterval(() => {
+      jobRepository
+        .extendLease(job.id, this.workerId, config.jobVisibilityTimeoutMs)
+        .then((held) => {
+          if (!held) logger.warn('Job lease lost', { jobId: job.id, workerId: this.workerId });
+        })
+        .catch((error) => logger.error('Failed to extend job lease', error, { jobId: job.id }));
+    }, Math.max(1000, Math.floor(config.jobVisibilityTimeoutMs / 3)));
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler for job type: ${job.type}`);
+      }
+      await handler(job);
+      await jobRepository.markCompleted(job.id, this.workerId);
+      logger.info('Job completed', {
+        jobId: job.id,
+        type: job.type,
+        memoryId: job.memoryId,
+        attempt: job.attempts,
+        durationMs: Date.now() - startTime,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const retryDelayMs = getBackoffDelay(job.attempts - 1, config.jobBackoffMs);
+      const updated = await jobRepository.markFailed(job.id, this.workerId, errorMessage, retryDelayMs);
+
+      if (updated?.status === JobStatus.Dead) {
+        logger.error('Job dead-lettered', error, {
+          jobId: job.id,
+          type: job.type,
+          memoryId: job.memoryId,
+          attempts: job.attempts,
+        });
+      } else {
+        logger.warn('Job failed, will retry', {
+          jobId: job.id,
+          type: job.type,
+          memoryId: job.memoryId,
+          attempt: job.attempts,
+          maxAttempts: job.maxAttempts,
+          retryDelayMs,
+          error: errorMessage,
+        });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Re-enqueue memories stuck in pending/processing with no active job
+   * (e.g. the server restarted mid-pipeline before jobs existed).
+   */
+  private async recoverOrphanedMemories(): Promise<void> {
+    try {
+      const orphans = await jobRepository.findOrphanedMemories();
+      for (const orphan of orphans) {
+        if (orphan.status === ProcessingStatus.Processing) {
+          await memoryRepository.updateInternal(orphan.memoryId, {
+            processingStatus: ProcessingStatus.Pending,
+          });
+        }
+        await jobQueue.enqueueMemoryProcessing(orphan.memoryId, orphan.userId ?? undefined);
+      }
+      if (orphans.length > 0) {
+        logger.info('Recovered orphaned memories', { count: orphans.length });
+      }
+    } catch (error) {
+      logger.error('Orphaned memory recovery failed', error);
+    }
+  }
+
+  private async scheduleMaintenance(): Promise<void> {
+    try {
+      await jobQueue.scheduleTrashPurge();
+    } catch (error) {
+      logger.error('Failed to schedule trash purge', error);
+    }
+    try {
+      await jobQueue.scheduleExportPurge();
+    } catch (error) {
+      logger.error('Failed to schedule export purge', error);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      this.wake = resolve;
+      this.sleepTimer = setTimeout(resolve, ms);
+    });
+  }
+}
+
+export const jobWorker = new JobWorker();
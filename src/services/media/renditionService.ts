@@ -0,0 +1,59 @@
+/**
+ * Rendition Service
+ * Resized copies of photo memories for list cells (thumb, fixed square) and detail views
+ * (preview, bounded longest edge), stored beside the original in config.renditionFormat.
+ * Pixels are rotated per the EXIF orientation; no metadata (EXIF, GPS, XMP) is copied into a
+ * rendition, so the location never leaves with a thumbnail.
+ */
+
+import sharp from 'sharp';
+import { storageService } from '../storage/storageService';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { ProcessingError } from '../../utils/errors';
+import { MemoryRenditions, RenditionSize } from '../../types';
+
+const FORMATS = {
+  webp: { ext: 'webp', mimeType: 'image/webp' },
+  jpeg: { ext: 'jpg', mimeType: 'image/jpeg' },
+} as const;
+
+/** Quality for both formats; thumbnails and previews don't need the original's fidelity */
+const QUALITY = 80;
+
+export class RenditionService {
+  /**
+   * Generate and store every rendition of a photo. Returns the storage path per size.
+   */
+  async generate(originalPath: string, image: Buffer): Promise<MemoryRenditions> {
+    const format = FORMATS[config.renditionFormat];
+    const renditions: MemoryRenditions = {};
+    for (const size of Object.values(RenditionSize)) {
+      const resized = await this.render(image, size, originalPath);
+      renditions[size] = await storageService.storeRendition(originalPath, size, resized, format);
+    }
+    logger.info('Renditions generated', { path: originalPath, sizes: Object.keys(renditions) });
+    return renditions;
+  }
+
+  private async render(image: Buffer, size: RenditionSize, originalPath: string): Promise<Buffer> {
+    try {
+      // rotate() with no angle applies the EXIF orientation; sharp drops metadata unless asked to keep it
+      let pipeline = sharp(image).rotate();
+      pipeline = size === RenditionSize.Thumb
+        ? pipeline.resize(config.thumbnailSize, config.thumbnailSize, { fit: 'cover', position: 'attention' })
+        : pipeline.resize(config.previewSize, config.previewSize, { fit: 'inside', withoutEnlargement: true });
+      return await (config.renditionFormat === 'webp'
+        ? pipeline.webp({ quality: QUALITY })
+        : pipeline.jpeg({ quality: QUALITY, mozjpeg: true })
+      ).toBuffer();
+    } catch (error) {
+      throw new ProcessingError(`Failed to render ${size}`, {
+        path: originalPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+export const renditionService = new RenditionService();
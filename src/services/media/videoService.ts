@@ -0,0 +1,227 @@
+/**
+ * Video Service
+ * Turns a video clip into a time-aligned transcript: keyframes sampled with ffmpeg are captioned
+ * by visionService, the audio track is transcribed by whisperService, and both are merged in
+ * time order ("[0:05] Scene: ..." / "[0:07] \"...\""). Needs ffmpeg and ffprobe on the host
+ * (FFMPEG_PATH / FFPROBE_PATH).
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs';
+import fsp from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { storageService } from '../storage/storageService';
+import { whisperService, visionService } from '../ai';
+import { MediaSource, TranscriptionSegment } from '../ai/providers';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { formatTimestamp } from '../../utils/timestamp';
+import { ProcessingError } from '../../utils/errors';
+
+/** ffmpeg/ffprobe calls are killed after this long */
+const TOOL_TIMEOUT_MS = 120_000;
+
+export interface KeyframeCaption {
+  /** Seconds from the start of the clip */
+  at: number;
+  caption: string;
+}
+
+export interface VideoTranscript {
+  text: string;
+  /** One per transcript line, offsets in seconds from the start of the clip */
+  segments: TranscriptionSegment[];
+  durationSeconds: number;
+  keyframes: number;
+  speechSegments: number;
+}
+
+interface ProbeResult {
+  durationSeconds: number;
+  hasAudio: boolean;
+}
+
+/**
+ * Keyframe times for a clip: one per interval, or maxKeyframes spread evenly when the clip is
+ * longer. Each frame is taken from the middle of its slot, avoiding black lead-in frames.
+ */
+export function sampleKeyframeTimes(durationSeconds: number, intervalSeconds: number, maxKeyframes: number): number[] {
+  if (!(durationSeconds > 0) || maxKeyframes < 1) return [0];
+  const count = Math.min(maxKeyframes, Math.max(1, Math.ceil(durationSeconds / intervalSeconds)));
+  const slot = durationSeconds / count;
+  return Array.from({ length: count }, (_, i) => Math.round((i + 0.5) * slot * 100) / 100);
+}
+
+interface TimelineEntry {
+  start: number;
+  end: number;
+  /** Scenes sort before speech starting at the same moment */
+  order: number;
+  line: string;
+}
+
+/**
+ * Captions and speech in time order. A scene lasts until the next keyframe (or the end of
+ * the clip); speech keeps its Whisper offsets.
+ */
+function timeline(captions: KeyframeCaption[], speech: TranscriptionSegment[], durationSeconds: number): TimelineEntry[] {
+  const scenes = captions.filter((c) => c.caption.trim());
+  const entries = [
+    ...scenes.map((c, i) => ({
+      start: c.at,
+      end: Math.max(c.at, scenes[i + 1]?.at ?? durationSeconds),
+      order: 0,
+      line: `Scene: ${c.caption.trim()}`,
+    })),
+    ...speech.filter((s) => s.text.trim()).map((s) => ({ start: s.start, end: s.end, order: 1, line: `"${s.text.trim()}"` })),
+  ];
+  return entries.sort((a, b) => a.start - b.start || a.order - b.order);
+}
+
+/**
+ * Merge keyframe captions and speech into one transcript, one line per caption or speech
+ * segment in time order (a scene sorts before speech starting at the same moment)
+ */
+export function mergeTimeline(captions: KeyframeCaption[], speech: TranscriptionSegment[]): string {
+  return timeline(captions, speech, 0)
+    .map((entry) => `[${formatTimestamp(entry.start)}] ${entry.line}`)
+    .join('\n');
+}
+
+/**
+ * The merged transcript as timed segments, one per line (without the [m:ss] prefix)
+ */
+export function timelineSegments(
+  captions: KeyframeCaption[],
+  speech: TranscriptionSegment[],
+  durationSeconds: number
+): TranscriptionSegment[] {
+  return timeline(captions, speech, durationSeconds).map(({ start, end, line }) => ({ start, end, text: line }));
+}
+
+function runTool(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: TOOL_TIMEOUT_MS, maxBuffer: 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        const reason = (error as NodeJS.ErrnoException).code === 'ENOENT'
+          ? `${command} is not installed`
+          : String(stderr || error.message).trim().split('\n').pop();
+        reject(new ProcessingError(`Video processing failed: ${reason}`, { command }));
+        return;
+      }
+      resolve(String(stdout));
+    });
+  });
+}
+
+/** Temp file as a media source for the AI services */
+function fileSource(filePath: string): MediaSource {
+  return {
+    filename: path.basename(filePath),
+    open: async () => fs.createReadStream(filePath),
+  };
+}
+
+export class VideoService {
+  /**
+   * Caption keyframes and transcribe the audio of a stored clip into a time-aligned transcript
+   */
+  async transcribe(storagePath: string): Promise<VideoTranscript> {
+    const workDir = await fsp.mkdtemp(path.join(os.tmpdir(), 'glimps-video-'));
+    try {
+      const input = await this.localCopy(storagePath, workDir);
+      const probe = await this.probe(input);
+
+      const captions = await this.captionKeyframes(input, probe.durationSeconds, workDir);
+      const speech = probe.hasAudio ? await this.transcribeAudio(input, workDir) : [];
+
+      const text = mergeTimeline(captions, speech);
+      if (!text) {
+        throw new ProcessingError('Video produced no captions or speech', { storagePath });
+      }
+
+      logger.info('Video transcribed', {
+        path: storagePath,
+        durationSeconds: probe.durationSeconds,
+        keyframes: captions.length,
+        speechSegments: speech.length,
+      });
+      return {
+        text,
+        segments: timelineSegments(captions, speech, probe.durationSeconds),
+        durationSeconds: probe.durationSeconds,
+        keyframes: captions.length,
+        speechSegments: speech.length,
+      };
+    } finally {
+      await fsp.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /** ffmpeg needs a file path: use the stored file directly, or download it from object storage */
+  private async localCopy(storagePath: string, workDir: string): Promise<string> {
+    const localPath = storageService.getLocalPath(storagePath);
+    if (localPath) return localPath;
+
+    const target = path.join(workDir, `input${path.extname(storagePath)}`);
+    await pipeline(await storageService.openReadStream(storagePath), fs.createWriteStream(target));
+    return target;
+  }
+
+  private async probe(input: string): Promise<ProbeResult> {
+    const output = await runTool(config.ffprobePath, [
+      '-v', 'error',
+      '-show_entries', 'format=duration:stream=codec_type',
+      '-of', 'json',
+      input,
+    ]);
+    const parsed = JSON.parse(output) as {
+      format?: { duration?: string };
+      streams?: { codec_type?: string }[];
+    };
+    return {
+      durationSeconds: parseFloat(parsed.format?.duration ?? '') || 0,
+      hasAudio: (parsed.streams ?? []).some((s) => s.codec_type === 'audio'),
+    };
+  }
+
+  private async captionKeyframes(input: string, durationSeconds: number, workDir: string): Promise<KeyframeCaption[]> {
+    const times = sampleKeyframeTimes(durationSeconds, config.videoKeyframeIntervalSeconds, config.videoMaxKeyframes);
+    const captions: KeyframeCaption[] = [];
+    // Sequential: each caption is a vision call, and the provider rate-limits
+    for (const [i, at] of times.entries()) {
+      const frame = path.join(workDir, `frame-${i}.jpg`);
+      await runTool(config.ffmpegPath, [
+        '-v', 'error', '-y',
+        '-ss', String(at),
+        '-i', input,
+        '-frames:v', '1',
+        '-q:v', '3',
+        frame,
+      ]);
+      const { caption } = await visionService.caption(fileSource(frame));
+      captions.push({ at, caption });
+    }
+    return captions;
+  }
+
+  private async transcribeAudio(input: string, workDir: string): Promise<TranscriptionSegment[]> {
+    const audio = path.join(workDir, 'audio.m4a');
+    await runTool(config.ffmpegPath, [
+      '-v', 'error', '-y',
+      '-i', input,
+      '-vn', '-ac', '1',
+      '-c:a', 'aac', '-b:a', '64k',
+      audio,
+    ]);
+    const result = await whisperService.transcribe(fileSource(audio));
+    if (result.segments?.length) return result.segments;
+    // Provider without timestamps: the whole transcript starts at 0:00
+    const text = result.text.trim();
+    return text ? [{ start: 0, end: result.duration ?? 0, text }] : [];
+  }
+}
+
+export const videoService = new VideoService();
@@ -0,0 +1,77 @@
+/**
+ * Memory Deletion Service
+ * Permanently deletes memories (live or trashed) with everything derived from them: rows
+ * cascade in the database (context, tags, people, labels, embedding, event links, jobs),
+ * affected events are re-synthesized or removed when empty, and assets (with their renditions)
+ * are removed from storage.
+ * User-facing deletes go through the trash first (see trashService.ts).
+ * SECURITY: Every operation takes userId; only the owner's memories are deleted.
+ */
+
+import { withTransaction } from '../../db';
+import { memoryEventLinkRepository, memoryRepository } from '../../db/repositories';
+import { eventEditingService } from '../events/eventEditingService';
+import { storageService } from '../storage/storageService';
+import { logger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+
+export interface DeleteMemoriesResult {
+  deletedMemoryIds: string[];
+  /** Events re-synthesized because they lost some memories */
+  updatedEventIds: string[];
+  /** Events deleted because they lost all their memories */
+  deletedEventIds: string[];
+}
+
+export class MemoryDeletionService {
+  /**
+   * Delete memories atomically: if any id is missing or owned by someone else, nothing is deleted.
+   */
+  async deleteMemories(memoryIds: string[], userId: string): Promise<DeleteMemoriesResult> {
+    const ids = Array.from(new Set(memoryIds));
+
+    const { deleted, updatedEventIds, deletedEventIds } = await withTransaction(async (client) => {
+      const memories = [
+        ...(await memoryRepository.findByIds(ids, userId, client)),
+        ...(await memoryRepository.findTrashedByIds(ids, userId, client)),
+      ];
+      const found = new Set(memories.map((m) => m.id));
+      const missing = ids.find((id) => !found.has(id));
+      if (missing) throw new NotFoundError('Memory', missing);
+
+      const links = await memoryEventLinkRepository.findByMemoryIds(ids, client);
+      const eventIds = Array.from(new Set(links.map((l) => l.eventId)));
+
+      // Links cascade with the memories
+      const deleted = await memoryRepository.deleteMany(ids, userId, client);
+
+      const updatedEventIds: string[] = [];
+      const deletedEventIds: string[] = [];
+      for (const eventId of eventIds) {
+        const outcome = await eventEditingService.reconcileEvent(eventId, userId, client);
+        if (outcome === 'deleted') deletedEventIds.push(eventId);
+        else if (outcome === 'updated') updatedEventIds.push(eventId);
+      }
+
+      return { deleted, updatedEventIds, deletedEventIds };
+    });
+
+    // Files go only after the rows are gone, so a rollback never leaves a memory without its asset
+    for (const memory of deleted) {
+      await storageService.deleteFile(memory.storagePath);
+      for (const renditionPath of Object.values(memory.renditions ?? {})) {
+        await storageService.deleteFile(renditionPath);
+      }
+    }
+
+    logger.info('Deleted memories', {
+      memoryCount: deleted.length,
+      updatedEventIds,
+      deletedEventIds,
+    });
+
+    return { deletedMemoryIds: deleted.map((m) => m.id), updatedEventIds, deletedEventIds };
+  }
+}
+
+export const memoryDeletionService = new MemoryDeletionService();
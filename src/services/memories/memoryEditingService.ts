@@ -0,0 +1,105 @@
+/**
+ * Memory Editing Service
+ * User corrections to a processed memory: transcript and capturedAt. The machine transcript
+ * is kept as original_transcript. A transcript edit re-summarizes and re-embeds the memory,
+ * drops its timed segments and re-runs context inference (replacing unconfirmed AI suggestions); any edit
+ * re-synthesizes the memory's events.
+ * SECURITY: Every operation takes userId; the memory is loaded with an ownership check.
+ */
+
+import { withTransaction } from '../../db';
+import {
+  eventRepository,
+  memoryEmbeddingRepository,
+  memoryPeopleRepository,
+  memoryRepository,
+  memorySegmentRepository,
+  memoryTagRepository,
+} from '../../db/repositories';
+import { embeddingService } from '../ai';
+import { memoryPipeline } from '../pipeline/memoryPipeline';
+import { eventEditingService } from '../events/eventEditingService';
+import { jobQueue } from '../jobs/jobQueue';
+import { logger } from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
+import { EditMemoryInput, JobType, Memory, ProcessingStatus } from '../../types';
+
+export interface EditMemoryResult {
+  memory: Memory;
+  /** Events re-synthesized with the edited memory */
+  refreshedEventIds: string[];
+}
+
+export class MemoryEditingService {
+  async editMemory(memoryId: string, userId: string, input: EditMemoryInput): Promise<EditMemoryResult> {
+    const memory = await memoryRepository.findById(memoryId, userId);
+    if (memory.processingStatus !== ProcessingStatus.Completed) {
+      throw new ValidationError('Memory can be edited once processing has completed', {
+        memoryId,
+        processingStatus: memory.processingStatus,
+      });
+    }
+
+    const transcriptChanged = input.transcript !== undefined && input.transcript !== memory.transcript;
+    const capturedAtChanged = input.capturedAt !== undefined
+      && input.capturedAt.getTime() !== memory.capturedAt.getTime();
+    if (!transcriptChanged && !capturedAtChanged) {
+      return { memory: await memoryRepository.findByIdWithContext(memoryId, userId), refreshedEventIds: [] };
+    }
+
+    // AI calls stay outside the transaction
+    const analysis = transcriptChanged
+      ? await memoryPipeline.analyzeText(memoryId, input.transcript!, memory.mediaType)
+      : undefined;
+
+    const result = await withTransaction(async (client) => {
+      await memoryRepository.applyEdit(
+        memoryId,
+        userId,
+        {
+          ...(analysis && {
+            transcript: input.transcript,
+            normalizedTranscript: analysis.normalizedTranscript,
+            normalizationModel: analysis.normalizationModel,
+            aiTitle: analysis.aiTitle,
+            aiSummary: analysis.aiSummary,
+          }),
+          ...(capturedAtChanged && { capturedAt: input.capturedAt }),
+        },
+        client
+      );
+
+      if (analysis) {
+        await memoryEmbeddingRepository.upsert(
+          { memoryId, embedding: analysis.embedding, modelVersion: embeddingService.modelVersion },
+          client
+        );
+        // Segments hold the machine transcript; search and ask would keep quoting it
+        await memorySegmentRepository.deleteByMemoryId(memoryId, client);
+        await memoryPeopleRepository.deleteUnconfirmedByMemoryId(memoryId, client);
+        await memoryTagRepository.deleteAiByMemoryId(memoryId, client);
+        await jobQueue.enqueue(JobType.InferContext, { memoryId, userId, client });
+      }
+
+      const events = await eventRepository.findByMemoryId(memoryId, userId, client);
+      for (const event of events) {
+        await eventEditingService.refreshEvent(event.id, userId, client);
+      }
+
+      return {
+        memory: await memoryRepository.findByIdWithContext(memoryId, userId, client),
+        refreshedEventIds: events.map((e) => e.id),
+      };
+    });
+
+    logger.info('Edited memory', {
+      memoryId,
+      transcriptChanged,
+      capturedAtChanged,
+      refreshedEventIds: result.refreshedEventIds,
+    });
+    return result;
+  }
+}
+
+export const memoryEditingService = new MemoryEditingService();
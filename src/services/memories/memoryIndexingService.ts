@@ -0,0 +1,100 @@
+/**
+ * Memory Indexing Service
+ * Builds the text a memory is embedded from: user note, transcript, text read from the photo
+ * and the user's curation
+ * (confirmed place and people, user tags, labels). Curation edits schedule a debounced
+ * reindex_memory job (jobQueue.scheduleReindex) that re-embeds the memory from that text,
+ * so search and ask see the latest curation.
+ */
+
+import {
+  memoryRepository,
+  memoryEmbeddingRepository,
+  memoryContextRepository,
+  memoryPeopleRepository,
+  memoryTagRepository,
+  memoryLabelRepository,
+} from '../../db/repositories';
+import { embeddingService, normalizationService } from '../ai';
+import { logger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+import { ProcessingStatus, TagOrigin } from '../../types';
+
+/** Re-embed at most this many times per job when curation keeps changing underneath it */
+const MAX_REINDEX_PASSES = 3;
+
+export class MemoryIndexingService {
+  /**
+   * Embedding text for a memory, from its already-normalized transcript, photo text (OCR) and
+   * current curation. Without photo text or curation this is the note-plus-transcript text the pipeline has always embedded.
+   */
+  async buildIndexText(memoryId: string, normalizedTranscript: string): Promise<string> {
+    const [memory, context, people, tags, labels] = await Promise.all([
+      memoryRepository.findByIdInternal(memoryId),
+      memoryContextRepository.findByMemoryId(memoryId),
+      memoryPeopleRepository.findByMemoryId(memoryId),
+      memoryTagRepository.findByMemoryId(memoryId),
+      memoryLabelRepository.getLabelsByMemoryIds([memoryId]),
+    ]);
+
+    const curation: string[] = [];
+    if (context?.confirmed && context.locationName) {
+      curation.push(`Place: ${context.locationName}`);
+    }
+    const confirmedPeople = people.filter((p) => p.confirmed).map((p) => p.personName);
+    if (confirmedPeople.length > 0) curation.push(`People: ${confirmedPeople.join(', ')}`);
+    const userTags = tags.filter((t) => t.origin === TagOrigin.User).map((t) => t.tag);
+    if (userTags.length > 0) curation.push(`Tags: ${userTags.join(', ')}`);
+    const labelNames = (labels.get(memoryId) ?? []).map((l) => l.name);
+    if (labelNames.length > 0) curation.push(`Labels: ${labelNames.join(', ')}`);
+
+    const sections: string[] = [];
+    if (context?.userNote) sections.push(`User note: ${context.userNote}`);
+    sections.push(normalizedTranscript);
+    if (memory.ocrText) sections.push(`Text in photo: ${memory.ocrText}`);
+    if (curation.length > 0) sections.push(curation.join('\n'));
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Internal — reindex job only: re-embed a processed memory from its current (stored
+   * normalized) transcript and curation. Memories that are gone, trashed or not yet processed are skipped (the pipeline
+   * embeds those). Returns whether the memory was re-embedded.
+   */
+  async reindexMemory(memoryId: string): Promise<boolean> {
+    let memory;
+    try {
+      memory = await memoryRepository.findByIdInternal(memoryId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        logger.info('Memory is gone or in the trash, skipping reindex', { memoryId });
+        return false;
+      }
+      throw error;
+    }
+    if (memory.processingStatus !== ProcessingStatus.Completed) {
+      logger.info('Memory not processed yet, skipping reindex', { memoryId, processingStatus: memory.processingStatus });
+      return false;
+    }
+
+    const normalizedTranscript = memory.normalizedTranscript
+      ?? await normalizationService.normalize(memory.transcript ?? '');
+    let text = await this.buildIndexText(memoryId, normalizedTranscript);
+    let passes = 0;
+    for (;;) {
+      passes++;
+      const embedding = await embeddingService.generateEmbedding(text);
+      await memoryEmbeddingRepository.upsert({ memoryId, embedding, modelVersion: embeddingService.modelVersion });
+
+      // A running job cannot be re-queued, so pick up curation saved while we were embedding
+      const latest = await this.buildIndexText(memoryId, normalizedTranscript);
+      if (latest === text || passes >= MAX_REINDEX_PASSES) break;
+      text = latest;
+    }
+
+    logger.info('Re-indexed memory', { memoryId, passes, textLength: text.length });
+    return true;
+  }
+}
+
+export const memoryIndexingService = new MemoryIndexingService();
@@ -0,0 +1,204 @@
+/**
+ * Trash Service
+ * Soft delete for memories: trashed memories keep their rows, files and event links but are
+ * hidden everywhere (deleted_at). An event whose memories are all trashed goes to the trash
+ * with them. Restoring brings memories and their events back; the purge job deletes
+ * anything trashed longer than config.trashRetentionDays.
+ * SECURITY: Every user-facing operation takes userId.
+ */
+
+import { withTransaction } from '../../db';
+import { eventRepository, memoryEventLinkRepository, memoryRepository } from '../../db/repositories';
+import { eventEditingService } from '../events/eventEditingService';
+import { jobQueue } from '../jobs/jobQueue';
+import { memoryDeletionService } from './memoryDeletionService';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { NotFoundError } from '../../utils/errors';
+import { Event, Memory, ProcessingStatus } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 500;
+
+export interface TrashMemoriesResult {
+  trashedMemoryIds: string[];
+  /** Events re-synthesized without the trashed memories */
+  updatedEventIds: string[];
+  /** Events trashed because all their memories were */
+  trashedEventIds: string[];
+}
+
+export interface RestoreInput {
+  memoryIds?: string[];
+  /** Restoring an event also restores its trashed memories */
+  eventIds?: string[];
+}
+
+export interface RestoreResult {
+  restoredMemoryIds: string[];
+  restoredEventIds: string[];
+}
+
+export interface TrashContents {
+  memories: Memory[];
+  events: Event[];
+  /** When items trashed now are purged */
+  retentionDays: number;
+}
+
+export class TrashService {
+  /**
+   * Move memories to the trash atomically: if any id is missing or not owned, nothing moves.
+   */
+  async trashMemories(memoryIds: string[], userId: string): Promise<TrashMemoriesResult> {
+    const ids = Array.from(new Set(memoryIds));
+
+    const result = await withTransaction(async (client) => {
+      const memories = await memoryRepository.findByIds(ids, userId, client);
+      const found = new Set(memories.map((m) => m.id));
+      const missing = ids.find((id) => !found.has(id));
+      if (missing) throw new NotFoundError('Memory', missing);
+
+      const links = await memoryEventLinkRepository.findByMemoryIds(ids, client);
+      const eventIds = Array.from(new Set(links.map((l) => l.eventId)));
+
+      const trashed = await memoryRepository.softDelete(ids, userId, client);
+
+      const updatedEventIds: string[] = [];
+      const trashedEventIds: string[] = [];
+      for (const eventId of eventIds) {
+        const outcome = await eventEditingService.reconcileEvent(eventId, userId, client);
+        if (outcome === 'trashed') trashedEventIds.push(eventId);
+        else if (outcome === 'updated') updatedEventIds.push(eventId);
+      }
+
+      return { trashedMemoryIds: trashed.map((m) => m.id), updatedEventIds, trashedEventIds };
+    });
+
+    logger.info('Moved memories to trash', {
+      memoryCount: result.trashedMemoryIds.length,
+      trashedEventIds: result.trashedEventIds,
+    });
+    return result;
+  }
+
+  /**
+   * Restore trashed memories and events. Events linked to a restored memory come back too
+   * and are re-synthesized with it. Unprocessed memories are re-enqueued.
+   */
+  async restore(input: RestoreInput, userId: string): Promise<RestoreResult> {
+    const memoryIds = Array.from(new Set(input.memoryIds ?? []));
+    const eventIds = Array.from(new Set(input.eventIds ?? []));
+
+    const result = await withTransaction(async (client) => {
+      const memories = await memoryRepository.findTrashedByIds(memoryIds, userId, client);
+      const foundMemories = new Set(memories.map((m) => m.id));
+      const missingMemory = memoryIds.find((id) => !foundMemories.has(id));
+      if (missingMemory) throw new NotFoundError('Trashed memory', missingMemory);
+
+      const events = await eventRepository.findTrashedByIds(eventIds, userId, client);
+      const foundEvents = new Set(events.map((e) => e.id));
+      const missingEvent = eventIds.find((id) => !foundEvents.has(id));
+      if (missingEvent) throw new NotFoundError('Trashed event', missingEvent);
+
+      // Memories trashed together with the requested events
+      const toRestore = new Set(memoryIds);
+      for (const eventId of eventIds) {
+        const links = await memoryEventLinkRepository.findByEventId(eventId, client);
+        const trashed = await memoryRepository.findTrashedByIds(links.map((l) => l.memoryId), userId, client);
+        trashed.forEach((m) => toRestore.add(m.id));
+      }
+
+      const restored = await memoryRepository.restore(Array.from(toRestore), userId, client);
+      const restoredIds = restored.map((m) => m.id);
+
+      const links = await memoryEventLinkRepository.findByMemoryIds(restoredIds, client);
+      const affectedEventIds = Array.from(new Set([...eventIds, ...links.map((l) => l.eventId)]));
+      const restoredEventIds = await eventRepository.restore(affectedEventIds, userId, client);
+      for (const eventId of affectedEventIds) {
+        await eventEditingService.reconcileEvent(eventId, userId, client);
+      }
+
+      for (const memory of restored) {
+        if (memory.processingStatus === ProcessingStatus.Pending || memory.processingStatus === ProcessingStatus.Processing) {
+          await jobQueue.enqueueMemoryProcessing(memory.id, userId, undefined, client);
+        }
+      }
+
+      return { restoredMemoryIds: restoredIds, restoredEventIds };
+    });
+
+    logger.info('Restored from trash', {
+      memoryCount: result.restoredMemoryIds.length,
+      restoredEventIds: result.restoredEventIds,
+    });
+    return result;
+  }
+
+  async listTrash(userId: string, limit: number = 100): Promise<TrashContents> {
+    const [memories, events] = await Promise.all([
+      memoryRepository.listTrashed(userId, limit),
+      eventRepository.listTrashed(userId, limit),
+    ]);
+    return { memories, events, retentionDays: config.trashRetentionDays };
+  }
+
+  /**
+   * Permanently delete everything in the user's trash
+   */
+  async emptyTrash(userId: string): Promise<{ deletedMemoryIds: string[]; deletedEventIds: string[] }> {
+    const deletedMemoryIds: string[] = [];
+    const deletedEventIds: string[] = [];
+
+    for (;;) {
+      const batch = await memoryRepository.listTrashed(userId, PURGE_BATCH_SIZE);
+      if (batch.length === 0) break;
+      const result = await memoryDeletionService.deleteMemories(batch.map((m) => m.id), userId);
+      deletedMemoryIds.push(...result.deletedMemoryIds);
+      deletedEventIds.push(...result.deletedEventIds);
+    }
+
+    // Trashed events normally go with their last memory; delete any that remain
+    for (;;) {
+      const events = await eventRepository.listTrashed(userId, PURGE_BATCH_SIZE);
+      if (events.length === 0) break;
+      for (const event of events) {
+        await eventRepository.delete(event.id);
+        deletedEventIds.push(event.id);
+      }
+    }
+
+    logger.info('Emptied trash', { memoryCount: deletedMemoryIds.length, eventCount: deletedEventIds.length });
+    return { deletedMemoryIds, deletedEventIds };
+  }
+
+  /**
+   * Internal — purge job only: permanently delete memories trashed more than
+   * config.trashRetentionDays ago, for every user. Returns the number of memories deleted.
+   */
+  async purgeExpiredInternal(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.trashRetentionDays * DAY_MS);
+    let purged = 0;
+
+    for (;;) {
+      const expired = await memoryRepository.listTrashedBeforeInternal(cutoff, PURGE_BATCH_SIZE);
+      if (expired.length === 0) break;
+
+      const byUser = new Map<string, string[]>();
+      for (const { id, userId } of expired) {
+        byUser.set(userId, [...(byUser.get(userId) ?? []), id]);
+      }
+      for (const [userId, ids] of byUser) {
+        const result = await memoryDeletionService.deleteMemories(ids, userId);
+        purged += result.deletedMemoryIds.length;
+      }
+    }
+
+    if (purged > 0) {
+      logger.info('Purged expired trash', { memoryCount: purged, cutoff: cutoff.toISOString() });
+    }
+    return purged;
+  }
+}
+
+export const trashService = new TrashService();
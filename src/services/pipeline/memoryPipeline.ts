@@ -1,26 +1,47 @@
 /**
  * Memory Processing Pipeline
- * Semantic memory graph: load memory by id, extract text, embed, update memory, create embedding.
+ * Semantic memory graph: load memory by id, extract text, embed, update memory, create embedding
+ * (and per-segment embeddings for timed voice/video transcripts).
  */
 
+import { PoolClient } from 'pg';
 import { withTransaction } from '../../db';
 import {
   memoryRepository,
   memoryEmbeddingRepository,
   memoryContextRepository,
+  memorySegmentRepository,
+  memoryProcessingStageRepository,
 } from '../../db/repositories';
 import { storageService } from '../storage/storageService';
 import {
   whisperService,
   visionService,
+  ocrService,
   normalizationService,
+  summarizationService,
   embeddingService,
 } from '../ai';
-import { getCaptureDateFromExif } from '../../utils/exif';
-import { contextInferenceService } from '../context/contextInferenceService';
+import { TranscriptionSegment } from '../ai/providers';
+import { videoService } from '../media/videoService';
+import { renditionService } from '../media/renditionService';
+import { reverseGeocodingService } from '../geo/reverseGeocodingService';
+import { ExifMetadata, readExifMetadata } from '../../utils/exif';
+import { jobQueue } from '../jobs/jobQueue';
+import { memoryIndexingService } from '../memories/memoryIndexingService';
+import { realtimeService } from '../realtime/realtimeService';
 import { logger } from '../../utils/logger';
 import { ProcessingError } from '../../utils/errors';
-import { Memory, ProcessingStatus, MediaType } from '../../types';
+import {
+  Memory,
+  ProcessingStatus,
+  MediaType,
+  JobType,
+  CreateMemorySegmentInput,
+  MemoryProcessingStage,
+  PipelineStage,
+  StageStatus,
+} from '../../types';
 
 export interface ProcessMemoryInput {
   memoryId: string;
@@ -33,9 +54,31 @@ export interface ProcessMemoryResult {
   processingTimeMs: number;
 }
 
+/** Text of a memory, with timed segments for voice and video */
+interface ExtractedText {
+  text: string;
+  segments: TranscriptionSegment[];
+}
+
+export interface TextAnalysis {
+  normalizedTranscript: string;
+  normalizationModel: string | null;
+  aiTitle: string | null;
+  aiSummary: string | null;
+  embedding: number[];
+}
+
+/** Stages whose result only reaches the memory at completion, so it is kept as the checkpoint */
+const STAGE_OUTPUTS = new Set([PipelineStage.Extract, PipelineStage.Normalize, PipelineStage.Summarize]);
+
+/** Records a stage as completed inside the caller's transaction (stages that commit their own result) */
+type CompleteStageIn = (client: PoolClient) => Promise<void>;
+
 export class MemoryPipeline {
   /**
-   * Process a memory: extract text (transcribe/caption), normalize, embed, update memory and create embedding.
+   * Process a memory: extract text (transcribe/caption, plus OCR for photos), normalize, embed, update memory and create embedding.
+   * Each stage is checkpointed (memory_processing_stages); stages that completed in an earlier
+   * attempt are skipped, so a retry resumes at the stage that failed.
    */
   async processMemory(input: ProcessMemoryInput): Promise<ProcessMemoryResult> {
     const startTime = Date.now();
@@ -44,58 +87,102 @@ export class MemoryPipeline {
     logger.info('Starting memory processing pipeline', { memoryId });
 
     // Use internal (no user check) methods — pipeline runs server-side with trusted memoryIds
-    let memory = await memoryRepository.findByIdInternal(memoryId);
+    const memory = await memoryRepository.findByIdInternal(memoryId);
     if (memory.processingStatus !== ProcessingStatus.Pending) {
       throw new ProcessingError(`Memory is not pending: ${memory.processingStatus}`, { memoryId });
     }
 
+    // Set once the completion transaction has committed: the memory must not be failed after that
+    let completed: Memory | undefined;
     try {
-      if (memory.mediaType === MediaType.Photo) {
-        const absolutePath = storageService.getAbsolutePath(memory.storagePath);
-        const exifDate = await getCaptureDateFromExif(absolutePath);
-        if (exifDate) {
-          await memoryRepository.updateInternal(memoryId, { capturedAt: exifDate });
-          memory = await memoryRepository.findByIdInternal(memoryId);
+      await memoryRepository.updateInternal(memoryId, { processingStatus: ProcessingStatus.Processing });
+      await realtimeService.publish(memory.userId, {
+        type: 'memory.status',
+        data: { memoryId, processingStatus: ProcessingStatus.Processing },
+      });
+
+      const checkpoints = new Map(
+        (await memoryProcessingStageRepository.findByMemoryId(memoryId)).map((c) => [c.stage, c])
+      );
+      const stage = <T>(name: PipelineStage, run: (completeIn: CompleteStageIn) => Promise<T>) =>
+        this.runStage(memory, name, checkpoints, run);
+      let image: Buffer | undefined;
+      const readImage = async () => (image ??= await storageService.readFile(memory.storagePath));
+
+      await stage(PipelineStage.Metadata, async () => {
+        // Upload location is stored first so it is part of the index text (idempotent on retry)
+        if (metadata?.latitude != null || metadata?.longitude != null || metadata?.locationName) {
+          await memoryContextRepository.upsert({
+            memoryId,
+            latitude: metadata.latitude,
+            longitude: metadata.longitude,
+            locationName: metadata.locationName,
+            confirmed: true,
+          });
         }
+        if (memory.mediaType === MediaType.Photo) {
+          const exif = await readExifMetadata(await readImage());
+          if (exif.capturedAt) {
+            await memoryRepository.updateInternal(memoryId, { capturedAt: exif.capturedAt });
+          }
+          await this.storeCaptureMetadata(memoryId, exif);
+        }
+      });
+
+      if (memory.mediaType === MediaType.Photo) {
+        await stage(PipelineStage.Renditions, async () =>
+          this.generateRenditions(memoryId, memory.storagePath, await readImage()));
+        // Literal text (signs, receipts) is kept apart from the caption; stored before the
+        // embed stage so it is part of the index text
+        await stage(PipelineStage.Ocr, async () => {
+          const ocr = await ocrService.readText(storageService.mediaSource(memory.storagePath));
+          await memoryRepository.updateInternal(memoryId, { ocrText: ocr.text || null });
+        });
       }
 
-      await memoryRepository.updateInternal(memoryId, { processingStatus: ProcessingStatus.Processing });
+      // Text memories are already text: no transcription/captioning
+      const extracted = await stage(PipelineStage.Extract, async () => memory.mediaType === MediaType.Text
+        ? { text: await this.readTextNote(memory.storagePath, memoryId), segments: [] }
+        : this.extractText(memory.storagePath, memory.mediaType));
+      const normalized = await stage(PipelineStage.Normalize, () => normalizationService.normalizeWithModel(extracted.text));
+      const { aiTitle, aiSummary } = await stage(PipelineStage.Summarize, () =>
+        this.summarize(memoryId, normalized.text, memory.mediaType));
 
-      const rawText = await this.extractText(memory.storagePath, memory.mediaType);
-      const normalizedText = await normalizationService.normalize(rawText);
-      const context = await memoryContextRepository.findByMemoryId(memoryId);
-      const noteAddendum = context?.userNote ? `User note: ${context.userNote}` : '';
-      const analysisInput = noteAddendum ? `${noteAddendum}\n\n${normalizedText}` : normalizedText;
-      const aiSummary = this.generateSummary(analysisInput);
-      const embedding = await embeddingService.generateEmbedding(analysisInput);
-
-      const updated = await withTransaction(async (client) => {
-        const mem = await memoryRepository.updateInternal(
-          memoryId,
-          {
-            transcript: rawText,
-            aiSummary,
-            processingStatus: ProcessingStatus.Completed,
-          },
-          client
-        );
-        await memoryEmbeddingRepository.create(
-          { memoryId, embedding },
-          client
-        );
-        if (metadata?.latitude != null || metadata?.longitude != null || metadata?.locationName) {
-          await memoryContextRepository.upsert(
+      const updated = await stage(PipelineStage.Embed, async (completeIn) => {
+        const embedding = await this.embedText(memoryId, normalized.text);
+        const segments = await this.embedSegments(extracted.segments);
+
+        completed = await withTransaction(async (client) => {
+          const mem = await memoryRepository.updateInternal(
+            memoryId,
             {
-              memoryId,
-              latitude: metadata.latitude,
-              longitude: metadata.longitude,
-              locationName: metadata.locationName,
-              confirmed: true,
+              transcript: extracted.text,
+              normalizedTranscript: normalized.text,
+              normalizationModel: normalized.model,
+              aiTitle,
+              aiSummary,
+              processingStatus: ProcessingStatus.Completed,
             },
             client
           );
-        }
-        return mem;
+          await memoryEmbeddingRepository.create(
+            { memoryId, embedding, modelVersion: embeddingService.modelVersion },
+            client
+          );
+          await memorySegmentRepository.replaceForMemory(memoryId, segments, embeddingService.modelVersion, client);
+          await memoryProcessingStageRepository.clearOutputs(memoryId, client);
+          await completeIn(client);
+          // Follow-up work is enqueued in the same transaction so it survives a restart
+          await jobQueue.enqueue(JobType.FormEvent, { memoryId, userId: mem.userId, client });
+          await jobQueue.enqueue(JobType.InferContext, { memoryId, userId: userId ?? mem.userId, client });
+          return mem;
+        });
+        return completed;
+      });
+
+      await realtimeService.publish(updated.userId, {
+        type: 'memory.status',
+        data: { memoryId, processingStatus: ProcessingStatus.Completed },
       });
 
       const processingTimeMs = Date.now() - startTime;
@@ -103,51 +190,260 @@ export class MemoryPipeline {
       logger.info('Memory processing completed', {
         memoryId: updated.id,
         processingTimeMs,
-      });
-
-      this.triggerEventFormation(memoryId).catch((err) => {
-        logger.error('Event formation failed (async)', { error: err, memoryId });
-      });
-
-      contextInferenceService.inferAndStoreContext(memoryId, userId).catch((err) => {
-        logger.error('Context inference failed (async)', { error: err, memoryId });
+        resumedStages: [...checkpoints.values()].filter((c) => c.status === StageStatus.Completed).map((c) => c.stage),
       });
 
       return { memory: updated, processingTimeMs };
     } catch (error) {
+      if (completed) {
+        // Only notifications can fail past the commit; the memory is processed
+        logger.warn('Memory processing completed with a late error', { error, memoryId });
+        return { memory: completed, processingTimeMs: Date.now() - startTime };
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       await memoryRepository.updateInternal(memoryId, {
         processingStatus: ProcessingStatus.Failed,
       });
+      await realtimeService.publish(memory.userId, {
+        type: 'memory.status',
+        data: { memoryId, processingStatus: ProcessingStatus.Failed, error: errorMessage },
+      });
       logger.error('Memory processing failed', { error, memoryId });
       throw new ProcessingError(`Failed to process memory: ${errorMessage}`, { memoryId });
     }
   }
 
-  private async extractText(storagePath: string, mediaType: MediaType): Promise<string> {
-    const absolutePath = storageService.getAbsolutePath(storagePath);
+  /**
+   * Normalized transcript (stored next to the raw one with its model stamp), title and summary
+   * (summarizationService, with the user note and confirmed place) and embedding for a memory's
+   * text, when the user edits a transcript.
+   */
+  async analyzeText(memoryId: string, rawText: string, mediaType?: MediaType): Promise<TextAnalysis> {
+    const normalized = await normalizationService.normalizeWithModel(rawText);
+    const { aiTitle, aiSummary } = await this.summarize(memoryId, normalized.text, mediaType);
+    const embedding = await this.embedText(memoryId, normalized.text);
+    return {
+      normalizedTranscript: normalized.text,
+      normalizationModel: normalized.model,
+      aiTitle,
+      aiSummary,
+      embedding,
+    };
+  }
+
+  /**
+   * Internal — backfill script only: rewrite the title and summary of a processed memory from
+   * its current transcript, note and place. Returns null for memories that are not completed.
+   */
+  async resummarizeMemory(memoryId: string): Promise<Memory | null> {
+    const memory = await memoryRepository.findByIdInternal(memoryId);
+    if (memory.processingStatus !== ProcessingStatus.Completed || !memory.transcript) return null;
+    const normalizedText = memory.normalizedTranscript ?? await normalizationService.normalize(memory.transcript);
+    const { aiTitle, aiSummary } = await this.summarize(memoryId, normalizedText, memory.mediaType);
+    return memoryRepository.updateInternal(memoryId, { aiTitle, aiSummary });
+  }
+
+  /**
+   * Internal — generate_renditions job only: thumbnail and preview for a processed photo that
+   * has none (imported photos skip the pipeline). Returns false when there was nothing to do.
+   */
+  async generateMissingRenditions(memoryId: string): Promise<boolean> {
+    const memory = await memoryRepository.findByIdInternal(memoryId);
+    if (memory.mediaType !== MediaType.Photo || memory.renditions) return false;
+    await this.generateRenditions(memoryId, memory.storagePath, await storageService.readFile(memory.storagePath));
+    return true;
+  }
+
+  private async summarize(
+    memoryId: string,
+    normalizedText: string,
+    mediaType?: MediaType
+  ): Promise<Pick<TextAnalysis, 'aiTitle' | 'aiSummary'>> {
+    const context = await memoryContextRepository.findByMemoryId(memoryId);
+    const summary = await summarizationService.summarize({
+      text: normalizedText,
+      ...(context?.userNote && { userNote: context.userNote }),
+      ...(context?.confirmed && context.locationName && { locationName: context.locationName }),
+      ...(mediaType && { mediaType }),
+    });
+    return { aiTitle: summary.title || null, aiSummary: summary.summary || null };
+  }
+
+  /**
+   * Run one pipeline stage, or reuse it when an earlier attempt completed it. Stages in
+   * STAGE_OUTPUTS keep their result as the checkpoint output (a completed one whose output was
+   * cleared is run again); the others store theirs on the memory (or its context) themselves.
+   * Embed completes the memory, so a memory being processed again always re-runs it.
+   * A stage that commits its result in a transaction records its completion there with
+   * completeIn. Progress is published to the owner's live stream.
+   */
+  private async runStage<T>(
+    memory: Memory,
+    stage: PipelineStage,
+    checkpoints: Map<PipelineStage, MemoryProcessingStage>,
+    run: (completeIn: CompleteStageIn) => Promise<T>
+  ): Promise<T> {
+    const memoryId = memory.id;
+    const checkpoint = checkpoints.get(stage);
+    const reusable = checkpoint?.status === StageStatus.Completed
+      && stage !== PipelineStage.Embed
+      && (!STAGE_OUTPUTS.has(stage) || checkpoint.output != null);
+    if (reusable) {
+      logger.info('Stage completed in an earlier attempt, skipping', { memoryId, stage });
+      return checkpoint!.output as T;
+    }
+
+    const { attempts } = await memoryProcessingStageRepository.start(memoryId, stage);
+    await realtimeService.publish(memory.userId, {
+      type: 'memory.stage',
+      data: { memoryId, stage, status: StageStatus.Running, attempts },
+    });
+    const stageStart = Date.now();
+    let recordedDurationMs: number | undefined;
+    const completeIn: CompleteStageIn = async (client) => {
+      const durationMs = Date.now() - stageStart;
+      await memoryProcessingStageRepository.complete(memoryId, stage, durationMs, null, client);
+      recordedDurationMs = durationMs;
+    };
+    let output: T;
+    try {
+      output = await run(completeIn);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const durationMs = Date.now() - stageStart;
+      await memoryProcessingStageRepository.fail(memoryId, stage, durationMs, message);
+      await realtimeService.publish(memory.userId, {
+        type: 'memory.stage',
+        data: { memoryId, stage, status: StageStatus.Failed, attempts, durationMs, error: message },
+      });
+      throw error;
+    }
+    const durationMs = recordedDurationMs ?? Date.now() - stageStart;
+    if (recordedDurationMs === undefined) {
+      await memoryProcessingStageRepository.complete(memoryId, stage, durationMs, STAGE_OUTPUTS.has(stage) ? output : null);
+    }
+    await realtimeService.publish(memory.userId, {
+      type: 'memory.stage',
+      data: { memoryId, stage, status: StageStatus.Completed, attempts, durationMs },
+    });
+    return output;
+  }
+
+  /**
+   * Embedding of a memory's index text (see memoryIndexingService)
+   */
+  private async embedText(memoryId: string, normalizedText: string): Promise<number[]> {
+    const indexText = await memoryIndexingService.buildIndexText(memoryId, normalizedText);
+    return embeddingService.generateEmbedding(indexText);
+  }
+
+  /**
+   * EXIF GPS, altitude, orientation and camera into memory_context. GPS is named offline from
+   * the gazetteer and only used when the upload brought no location.
+   */
+  private async storeCaptureMetadata(memoryId: string, exif: ExifMetadata): Promise<void> {
+    const { latitude, longitude, altitude, orientation, cameraMake, cameraModel } = exif;
+    if ([latitude, altitude, orientation, cameraMake, cameraModel].every((v) => v === undefined)) return;
+
+    let place = null;
+    if (latitude !== undefined && longitude !== undefined) {
+      try {
+        place = reverseGeocodingService.lookup(latitude, longitude);
+      } catch (error) {
+        // Gazetteer missing or unreadable: keep the coordinates without a name
+        logger.warn('Reverse geocoding failed', { memoryId, error });
+      }
+    }
+    await memoryContextRepository.upsertCaptureMetadata({
+      memoryId,
+      latitude,
+      longitude,
+      ...(place && { locationName: place.locationName }),
+      altitude,
+      orientation,
+      cameraMake,
+      cameraModel,
+    });
+  }
+
+  /**
+   * Thumbnail and preview for a photo. Non-fatal: without renditions the asset endpoint serves
+   * the original (e.g. formats sharp cannot decode).
+   */
+  private async generateRenditions(memoryId: string, storagePath: string, image: Buffer): Promise<void> {
+    try {
+      const renditions = await renditionService.generate(storagePath, image);
+      await memoryRepository.updateInternal(memoryId, { renditions });
+    } catch (error) {
+      logger.warn('Rendition generation failed, serving the original instead', { memoryId, error });
+    }
+  }
+
+  private async readTextNote(storagePath: string, memoryId: string): Promise<string> {
+    const text = (await storageService.readFile(storagePath)).toString('utf8').trim();
+    if (!text) throw new ProcessingError('Text memory is empty', { memoryId });
+    return text;
+  }
+
+  private async extractText(storagePath: string, mediaType: MediaType): Promise<ExtractedText> {
+    const source = storageService.mediaSource(storagePath);
     logger.info('Extracting text', { mediaType, path: storagePath });
 
     if (mediaType === MediaType.Audio) {
-      const result = await whisperService.transcribe(absolutePath);
-      return result.text;
+      const result = await whisperService.transcribe(source);
+      return { text: result.text, segments: result.segments ?? [] };
+    }
+    if (mediaType === MediaType.Video) {
+      const result = await videoService.transcribe(storagePath);
+      return { text: result.text, segments: result.segments };
     }
-    const result = await visionService.caption(absolutePath);
-    return result.caption;
+    const result = await visionService.caption(source);
+    return { text: result.caption, segments: [] };
   }
 
-  private async triggerEventFormation(memoryId: string): Promise<void> {
-    const { eventFormationService } = await import('../events/eventFormationService');
-    await eventFormationService.processMemory(memoryId);
+  /**
+   * One embedding per timed segment (a single batch call), so search can hit the moment
+   * within a long recording. Empty segments are dropped; offsets are clamped to a valid range.
+   */
+  private async embedSegments(segments: TranscriptionSegment[]): Promise<CreateMemorySegmentInput[]> {
+    const timed = segments
+      .map((s) => ({ startSeconds: Math.max(0, s.start), endSeconds: Math.max(0, s.start, s.end), text: s.text.trim() }))
+      .filter((s) => s.text);
+    if (timed.length === 0) return [];
+    const embeddings = await embeddingService.generateEmbeddings(timed.map((s) => s.text));
+    return timed.map((s, i) => ({ ...s, embedding: embeddings[i] }));
   }
 
-  private generateSummary(text: string, maxLength: number = 100): string {
-    const firstSentence = text.split(/[.!?]/)[0].trim();
-    if (firstSentence.length > 0 && firstSentence.length <= maxLength) return firstSentence;
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength - 3) + '...';
+  /**
+   * Send a failed memory back to the job worker, which resumes it from the stage that failed.
+   * The pipeline never runs in the request: a job waiting out its backoff would run it a
+   * second time concurrently.
+   */
+  async requeueFailedMemory(memoryId: string): Promise<Memory> {
+    const memory = await memoryRepository.findByIdInternal(memoryId);
+    if (memory.processingStatus !== ProcessingStatus.Failed) {
+      throw new ProcessingError(
+        `Memory is not in failed state: ${memory.processingStatus}`,
+        { memoryId }
+      );
+    }
+    const pending = await withTransaction(async (client) => {
+      const updated = await memoryRepository.updateInternal(
+        memoryId,
+        { processingStatus: ProcessingStatus.Pending },
+        client
+      );
+      await jobQueue.requeueMemoryProcessing(memoryId, memory.userId, client);
+      return updated;
+    });
+    logger.info('Failed memory requeued', { memoryId });
+    return pending;
   }
 
+  /**
+   * Internal — re-run a failed memory inline from the stage that failed (see processMemory).
+   * Requests use requeueFailedMemory.
+   */
   async retryFailedMemory(memoryId: string): Promise<ProcessMemoryResult> {
     logger.info('Retrying failed memory', { memoryId });
     const memory = await memoryRepository.findByIdInternal(memoryId);
@@ -0,0 +1,177 @@
+/**
+ * Realtime Service
+ * Per-user live updates for GET /api/stream, carried over Postgres NOTIFY so they reach the
+ * API process whichever process (API or job worker) produced them.
+ *
+ * - publish() sends one NOTIFY per update; it never throws, a lost update only delays the
+ *   client until its next refetch.
+ * - Each process holds at most one LISTEN connection (outside the pool), opened for the first
+ *   subscriber and closed after the last one leaves; a dropped connection is re-opened after
+ *   a delay.
+ *   Updates published while it was down are not replayed.
+ */
+
+import { Client } from 'pg';
+import { getPool } from '../../db';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import { PipelineStage, ProcessingStatus, StageStatus } from '../../types';
+
+const CHANNEL = 'glimps_realtime';
+/** Postgres rejects NOTIFY payloads of 8000 bytes or more */
+const MAX_PAYLOAD_BYTES = 7900;
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Update pushed to the user's streams; type is the SSE event name
+ */
+export type RealtimeEvent =
+  | {
+      type: 'memory.status';
+      data: { memoryId: string; processingStatus: ProcessingStatus; error?: string };
+    }
+  | {
+      type: 'memory.stage';
+      data: { memoryId: string; stage: PipelineStage; status: StageStatus; attempts?: number; durationMs?: number; error?: string };
+    }
+  | {
+      type: 'event.created' | 'event.updated';
+      data: { eventId: string; title: string; memoryIds: string[] };
+    }
+  | {
+      type: 'context.suggested';
+      data: { memoryId: string; locationName?: string; people: string[]; tags: string[] };
+    };
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+export class RealtimeService {
+  private listeners = new Map<string, Set<RealtimeListener>>();
+  private client: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Send an update to the user's open streams (in every API process)
+   */
+  async publish(userId: string, event: RealtimeEvent): Promise<void> {
+    const payload = JSON.stringify({ userId, ...event });
+    if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+      logger.warn('Realtime update too large, dropped', { type: event.type, bytes: Buffer.byteLength(payload) });
+      return;
+    }
+    try {
+      await getPool().query('SELECT pg_notify($1, $2)', [CHANNEL, payload]);
+    } catch (error) {
+      logger.warn('Failed to publish realtime update', { error, type: event.type });
+    }
+  }
+
+  /**
+   * Receive the user's updates until the returned function is called
+   */
+  subscribe(userId: string, listener: RealtimeListener): () => void {
+    let userListeners = this.listeners.get(userId);
+    if (!userListeners) {
+      userListeners = new Set();
+      this.listeners.set(userId, userListeners);
+    }
+    userListeners.add(listener);
+    this.ensureListening();
+
+    return () => {
+      const current = this.listeners.get(userId);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) this.listeners.delete(userId);
+      if (this.listeners.size === 0) void this.close();
+    };
+  }
+
+  /**
+   * Release the LISTEN connection (last subscriber gone, or shutdown)
+   */
+  async close(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const client = this.client;
+    this.client = null;
+    if (client) this.release(client);
+    // A connection still being opened is released by listen() when nobody is subscribed
+    await this.connecting;
+  }
+
+  private ensureListening(): void {
+    if (this.client || this.connecting || this.reconnectTimer) return;
+    this.connecting = this.listen()
+      .catch((error) => {
+        logger.warn('Realtime listener failed to connect', { error });
+        this.scheduleReconnect();
+      })
+      .finally(() => {
+        this.connecting = null;
+      });
+  }
+
+  private async listen(): Promise<void> {
+    const client = new Client({ connectionString: config.databaseUrl });
+    client.on('notification', (message) => {
+      if (message.channel === CHANNEL && message.payload) this.dispatch(message.payload);
+    });
+    client.on('error', (error) => {
+      if (this.client !== client) return;
+      logger.warn('Realtime listener connection lost', { error });
+      this.client = null;
+      this.release(client);
+      this.scheduleReconnect();
+    });
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANNEL}`);
+    } catch (error) {
+      this.release(client);
+      throw error;
+    }
+    if (this.listeners.size === 0) {
+      // Everyone left while we were connecting
+      this.release(client);
+      return;
+    }
+    this.client = client;
+  }
+
+  private dispatch(payload: string): void {
+    let message: { userId: string } & RealtimeEvent;
+    try {
+      message = JSON.parse(payload);
+    } catch {
+      logger.warn('Ignoring malformed realtime payload');
+      return;
+    }
+    const { userId, ...event } = message;
+    for (const listener of this.listeners.get(userId) ?? []) {
+      try {
+        listener(event as RealtimeEvent);
+      } catch (error) {
+        logger.warn('Realtime listener failed', { error, type: event.type });
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.listeners.size === 0) return;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.listeners.size > 0) this.ensureListening();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private release(client: Client): void {
+    client.removeAllListeners('notification');
+    client.end().catch((error) => logger.debug('Realtime listener connection did not close cleanly', { error }));
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -6,14 +6,17 @@
 import {
   Event,
   Memory,
+  MediaType,
   MemoryEventLink,
   RelationshipType,
+  SegmentMatch,
 } from '../../types';
 import {
   eventRepository,
   eventEmbeddingRepository,
   memoryEventLinkRepository,
   memoryRepository,
+  memorySegmentRepository,
 } from '../../db/repositories';
 import { embeddingService } from '../ai/embeddingService';
 import { temporalParser } from './temporalParser';
@@ -52,6 +55,8 @@ export interface EventWithMemories {
  */
 export interface EventRetrievalResult {
   events: EventWithMemories[];
+  /** Voice/video memories in these events → the segment closest to the query (seek target) */
+  segments: Record<string, SegmentMatch>;
   query: string;
   totalEvents: number;
   processingTimeMs: number;
@@ -160,6 +165,7 @@ export class EventRetrievalService {
       
       // Take top results after sorting
       const finalResults = eventsWithMemories.slice(0, limit);
+      const segments = await this.matchSegments(finalResults, queryEmbedding, userId);
       
       const processingTimeMs = Date.now() - startTime;
       
@@ -172,6 +178,7 @@ export class EventRetrievalService {
       
       return {
         events: finalResults,
+        segments,
         query,
         totalEvents: finalResults.length,
         processingTimeMs,
@@ -182,6 +189,24 @@ export class EventRetrievalService {
     }
   }
   
+  /**
+   * Best-matching segment of every voice/video memory in the results
+   */
+  private async matchSegments(
+    events: EventWithMemories[],
+    queryEmbedding: number[],
+    userId: string
+  ): Promise<Record<string, SegmentMatch>> {
+    const timedIds = new Set<string>();
+    for (const e of events) {
+      for (const m of [e.primaryMemory, ...e.supportingMemories, ...e.contextMemories]) {
+        if (m && (m.mediaType === MediaType.Audio || m.mediaType === MediaType.Video)) timedIds.add(m.id);
+      }
+    }
+    const matches = await memorySegmentRepository.findBestMatches(queryEmbedding, Array.from(timedIds), userId);
+    return Object.fromEntries(matches);
+  }
+
   /**
    * Check if event matches filters
    */
@@ -1,71 +1,126 @@
 /**
  * Hybrid score for memory retrieval
- * score = 0.45 embedding + 0.20 temporal + 0.20 place + 0.10 people + 0.05 tags
+ * score = relevance + temporal + place + people + tags, each scaled by config.searchWeights
+ * (defaults 0.45 / 0.20 / 0.20 / 0.10 / 0.05).
+ * relevance = lexical + vector rank fusion (see rankFusion.ts). The other components
+ * only count what the query mentions (see queryAnalyzer.ts): a memory's place, people
+ * or tags add nothing unless the query names them.
  */
 
-import { Memory, MemoryContext, MemoryTag, MemoryPerson } from '../../types';
+import { config } from '../../config';
+import { Label, Memory, MemoryContext, MemoryTag, MemoryPerson } from '../../types';
+import { QueryAnalysis, LABEL_ENTITY, normalizeText, personForms, placeForms } from './queryAnalyzer';
 
-const W_EMBED = 0.45;
-const W_TEMPORAL = 0.2;
-const W_PLACE = 0.2;
-const W_PEOPLE = 0.1;
-const W_TAGS = 0.05;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScoreWeights = typeof config.searchWeights;
 
-/** Reference time for temporal proximity (e.g. query date or now) */
 export interface ScorerInput {
   memory: Memory;
-  embeddingSimilarity: number; // 0-1, higher = more similar
+  relevance: number; // 0-1 fused lexical/vector rank, higher = more relevant
   context: MemoryContext | null;
   tags: MemoryTag[];
   people: MemoryPerson[];
-  referenceTime?: Date; // optional query time for temporal boost
+  labels?: Label[];
+  query: QueryAnalysis;
+  weights?: ScoreWeights;
+  temporalHalfLifeDays?: number;
+  now?: Date; // reference for "recently" / "last time"
+}
+
+export interface ScoreMatches {
+  places: string[];
+  people: string[];
+  tags: string[];
+  /** Temporal phrase from the query, when the memory is within one half-life of the queried time */
+  temporal?: string;
+}
+
+/** Weighted contribution of each component; they sum to the score */
+export interface ScoreBreakdown {
+  relevance: number;
+  temporal: number;
+  place: number;
+  people: number;
+  tags: number;
 }
 
 export interface ScorerOutput {
   score: number;
-  breakdown: {
-    embedding: number;
-    temporal: number;
-    place: number;
-    people: number;
-    tags: number;
-  };
+  breakdown: ScoreBreakdown;
+  matches: ScoreMatches;
+}
+
+/**
+ * Temporal closeness in 0-1: 1 inside the queried range (or at the queried date), halving
+ * every halfLifeDays outside it. 0 when the query has no usable time reference.
+ */
+export function temporalScore(capturedAt: Date, query: QueryAnalysis, halfLifeDays: number, now: Date): number {
+  const intent = query.temporal;
+  let start = intent.startDate?.getTime() ?? -Infinity;
+  let end = intent.endDate?.getTime() ?? Infinity;
+
+  if (!intent.startDate && !intent.endDate) {
+    const reference = intent.referenceDate ?? (intent.type === 'last' || intent.type === 'recent' ? now : undefined);
+    if (!reference) return 0;
+    start = end = reference.getTime();
+  }
+
+  const t = capturedAt.getTime();
+  const outsideDays = t < start ? (start - t) / DAY_MS : t > end ? (t - end) / DAY_MS : 0;
+  return Math.pow(0.5, outsideDays / halfLifeDays);
 }
 
 /**
- * Compute hybrid score. If memory has no context, temporal/place/people/tags contribute 0 (embedding-only).
+ * Share of the query's entities (of one kind) that the memory has; 0 if the query names none
  */
+function matchShare(queried: string[], memoryForms: Set<string>): { share: number; matched: string[] } {
+  if (queried.length === 0) return { share: 0, matched: [] };
+  const matched = queried.filter((q) => memoryForms.has(q));
+  return { share: matched.length / queried.length, matched };
+}
+
 export function hybridScore(input: ScorerInput): ScorerOutput {
-  const embed = Math.max(0, Math.min(1, input.embeddingSimilarity));
-  const refTime = input.referenceTime ?? new Date();
-  const memTime = input.memory.capturedAt instanceof Date ? input.memory.capturedAt : new Date(input.memory.capturedAt);
-
-  let temporal = 0;
-  const diffMs = Math.abs(refTime.getTime() - memTime.getTime());
-  const diffDays = diffMs / (24 * 60 * 60 * 1000);
-  if (diffDays <= 1) temporal = 1;
-  else if (diffDays <= 7) temporal = 0.7;
-  else if (diffDays <= 30) temporal = 0.3;
-
-  const place = input.context && (input.context.locationName != null || (input.context.latitude != null && input.context.longitude != null)) ? 1 : 0;
-  const people = input.people.length > 0 ? 1 : 0;
-  const tags = input.tags.length > 0 ? 1 : 0;
-
-  const score =
-    W_EMBED * embed +
-    W_TEMPORAL * temporal +
-    W_PLACE * place +
-    W_PEOPLE * people +
-    W_TAGS * tags;
+  const weights = input.weights ?? config.searchWeights;
+  const halfLife = input.temporalHalfLifeDays ?? config.searchTemporalHalfLifeDays;
+  const { query } = input;
+
+  const memoryPlaces = new Set<string>();
+  const memoryPeople = new Set<string>();
+  const memoryTags = new Set<string>();
+  if (input.context?.locationName) placeForms(input.context.locationName).forEach((f) => memoryPlaces.add(f));
+  input.people.forEach((p) => personForms(p.personName).forEach((f) => memoryPeople.add(f)));
+  input.tags.forEach((t) => memoryTags.add(normalizeText(t.tag)));
+  for (const label of input.labels ?? []) {
+    const target = { places: memoryPlaces, people: memoryPeople, tags: memoryTags }[LABEL_ENTITY[label.kind]];
+    target.add(normalizeText(label.name));
+  }
+
+  const relevance = Math.max(0, Math.min(1, input.relevance));
+  const capturedAt = input.memory.capturedAt instanceof Date ? input.memory.capturedAt : new Date(input.memory.capturedAt);
+  const temporal = temporalScore(capturedAt, query, halfLife, input.now ?? new Date());
+  // Any named place counts fully: "coffee in Oakland" should not be halved for naming the café too
+  const places = matchShare(query.places, memoryPlaces);
+  const place = places.matched.length > 0 ? 1 : 0;
+  const people = matchShare(query.people, memoryPeople);
+  const tags = matchShare(query.tags, memoryTags);
+
+  const breakdown: ScoreBreakdown = {
+    relevance: weights.relevance * relevance,
+    temporal: weights.temporal * temporal,
+    place: weights.place * place,
+    people: weights.people * people.share,
+    tags: weights.tags * tags.share,
+  };
 
   return {
-    score,
-    breakdown: {
-      embedding: W_EMBED * embed,
-      temporal: W_TEMPORAL * temporal,
-      place: W_PLACE * place,
-      people: W_PEOPLE * people,
-      tags: W_TAGS * tags,
+    score: breakdown.relevance + breakdown.temporal + breakdown.place + breakdown.people + breakdown.tags,
+    breakdown,
+    matches: {
+      places: places.matched,
+      people: people.matched,
+      tags: tags.matched,
+      temporal: temporal >= 0.5 ? query.temporal.phrase ?? query.temporal.type : undefined,
     },
   };
 }
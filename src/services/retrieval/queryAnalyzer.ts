@@ -0,0 +1,119 @@
+/**
+ * Query Analyzer
+ * Finds what a search query actually mentions, so hybridScore only boosts real matches.
+ * Places, people, tags and labels are matched as whole-word phrases against a vocabulary
+ * (the user's labels plus the context of the candidate memories); time via temporalParser.
+ */
+
+import { Label, LabelKind } from '../../types';
+import { TemporalIntent, temporalParser } from './temporalParser';
+
+export interface QueryVocabulary {
+  /** Location names, e.g. "Blue Bottle Coffee, Oakland" */
+  places: string[];
+  people: string[];
+  tags: string[];
+  labels: Label[];
+}
+
+export interface QueryAnalysis {
+  /** Lowercase words separated by single spaces */
+  text: string;
+  /** Query words minus stopwords */
+  terms: string[];
+  temporal: TemporalIntent;
+  /** Vocabulary entries the query mentions (normalized) */
+  places: string[];
+  people: string[];
+  tags: string[];
+  labels: string[];
+}
+
+/** Which entity channel a label kind feeds */
+export const LABEL_ENTITY: Record<LabelKind, 'places' | 'people' | 'tags'> = {
+  place: 'places',
+  person: 'people',
+  pet: 'people',
+  event: 'tags',
+  note: 'tags',
+};
+
+/** Words too common to explain a match ("photos of the beach" matched on "beach", not "the") */
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'for', 'from', 'had', 'has', 'have',
+  'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'that', 'the', 'this', 'to', 'was',
+  'we', 'were', 'what', 'when', 'where', 'which', 'who', 'with', 'you', 'your',
+]);
+
+export function normalizeText(text: string): string {
+  return (text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).join(' ');
+}
+
+/**
+ * Whole-word phrase test on normalized text ("sam" matches "with sam today", not "samples")
+ */
+export function mentions(normalizedText: string, phrase: string): boolean {
+  const p = normalizeText(phrase);
+  return p.length > 0 && ` ${normalizedText} `.includes(` ${p} `);
+}
+
+/**
+ * Matchable forms of a place: the full name and each comma-separated part
+ * ("Blue Bottle Coffee, Oakland, CA" → "blue bottle coffee oakland ca", "blue bottle coffee", "oakland").
+ * Parts shorter than 3 characters (state codes etc.) are too ambiguous to match alone.
+ */
+export function placeForms(locationName: string): string[] {
+  const parts = locationName.split(',').map(normalizeText).filter((p) => p.length >= 3);
+  return unique([normalizeText(locationName), ...parts]);
+}
+
+/**
+ * Matchable forms of a person: the full name and the first name ("Sam Lee" → "sam lee", "sam")
+ */
+export function personForms(name: string): string[] {
+  const full = normalizeText(name);
+  const first = full.split(' ')[0];
+  return unique(first && first.length >= 3 ? [full, first] : [full]);
+}
+
+/**
+ * Query terms that occur as whole words in any of the given texts (transcript, summary, note...)
+ */
+export function matchedTerms(terms: string[], texts: Array<string | null | undefined>): string[] {
+  const normalized = texts.filter((t): t is string => !!t).map(normalizeText).join(' ');
+  return terms.filter((term) => mentions(normalized, term));
+}
+
+export function analyzeQuery(query: string, vocabulary: QueryVocabulary): QueryAnalysis {
+  const text = normalizeText(query);
+  const found = (forms: string[]) => unique(forms.filter((f) => mentions(text, f)));
+
+  const places = vocabulary.places.flatMap(placeForms);
+  const people = vocabulary.people.flatMap(personForms);
+  const tags = vocabulary.tags.map(normalizeText);
+  const labels: string[] = [];
+
+  for (const label of vocabulary.labels) {
+    const name = normalizeText(label.name);
+    if (!mentions(text, name)) continue;
+    labels.push(name);
+    const entity = LABEL_ENTITY[label.kind];
+    if (entity === 'places') places.push(name);
+    else if (entity === 'people') people.push(name);
+    else tags.push(name);
+  }
+
+  return {
+    text,
+    terms: unique(text.split(' ').filter((w) => w && !STOPWORDS.has(w))),
+    temporal: temporalParser.parse(query),
+    places: found(places),
+    people: found(people),
+    tags: found(tags),
+    labels: unique(labels),
+  };
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
@@ -0,0 +1,59 @@
+/**
+ * Reciprocal rank fusion (RRF) of retrieval channels
+ * fused(d) = Σ over channels 1 / (k + rank_c(d)), rank starting at 1.
+ * Only ranks matter, so lexical ts_rank and cosine distance need no common scale.
+ */
+
+/** 'segment': a timed transcript segment matched (by vector or text), see retrievalService */
+export type MatchChannel = 'vector' | 'lexical' | 'segment';
+
+export interface RankedChannel {
+  channel: MatchChannel;
+  /** Ids ordered best first */
+  ids: string[];
+}
+
+export interface FusedCandidate {
+  id: string;
+  /** Fused score normalized to 0-1 (1 = ranked first in every non-empty channel) */
+  score: number;
+  /** Channels that returned this id, in input order */
+  channels: MatchChannel[];
+}
+
+/** Standard RRF constant; damps the advantage of the very top ranks */
+export const RRF_K = 60;
+
+/**
+ * Free text to an OR tsquery ("blue | bottle") so any query word can match.
+ * Only letters/digits survive, so the result is always valid to_tsquery input. Null if no words.
+ */
+export function toOrTsQuery(text: string): string | null {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const unique = Array.from(new Set(words));
+  return unique.length > 0 ? unique.join(' | ') : null;
+}
+
+/**
+ * Fuse ranked channels into one candidate list, best first
+ */
+export function reciprocalRankFusion(channels: RankedChannel[], k: number = RRF_K): FusedCandidate[] {
+  const byId = new Map<string, { raw: number; channels: MatchChannel[] }>();
+
+  for (const { channel, ids } of channels) {
+    ids.forEach((id, index) => {
+      const entry = byId.get(id) ?? { raw: 0, channels: [] };
+      if (entry.channels.includes(channel)) return; // duplicate id within a channel
+      entry.raw += 1 / (k + index + 1);
+      entry.channels.push(channel);
+      byId.set(id, entry);
+    });
+  }
+
+  const nonEmpty = channels.filter((c) => c.ids.length > 0).length;
+  const best = nonEmpty / (k + 1);
+
+  return Array.from(byId.entries())
+    .map(([id, { raw, channels: matched }]) => ({ id, score: best > 0 ? raw / best : 0, channels: matched }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -1,19 +1,27 @@
 /**
  * Retrieval Service
- * Hybrid ranking: 0.45 embedding + 0.20 temporal + 0.20 place + 0.10 people + 0.05 tags
+ * Candidates: vector (pgvector cosine), lexical (Postgres full-text) and segment (timed
+ * transcript segments, by vector and text) channels, merged with reciprocal rank fusion.
+ * Hybrid ranking (query-aware, weights from config.searchWeights): relevance + temporal + place + people + tags
+ * Each result carries an explanation: score breakdown, matched terms/entities, vector distance.
  */
 
 import {
   memoryRepository,
   memoryEmbeddingRepository,
+  memorySegmentRepository,
   memoryContextRepository,
   memoryTagRepository,
   memoryPeopleRepository,
+  memoryLabelRepository,
+  labelRepository,
 } from '../../db/repositories';
 import { embeddingService } from '../ai';
 import { logger } from '../../utils/logger';
-import { Memory } from '../../types';
-import { hybridScore } from './hybridScorer';
+import { Memory, MediaType, SegmentMatch } from '../../types';
+import { hybridScore, ScoreBreakdown, ScoreMatches } from './hybridScorer';
+import { MatchChannel, reciprocalRankFusion, toOrTsQuery } from './rankFusion';
+import { analyzeQuery, matchedTerms } from './queryAnalyzer';
 
 export interface SearchFilters {
   startDate?: Date;
@@ -24,20 +32,48 @@ export interface SearchFilters {
   limit?: number;
 }
 
+/** Filters that constrained the candidates, and how many candidates they dropped */
+export interface AppliedFilters {
+  dateRange?: { startDate?: Date; endDate?: Date };
+  location?: { latitude: number; longitude: number; radiusKm: number };
+  excluded: number;
+}
+
+/** Why a memory matched; also persisted in retrieval_logs.search_metadata */
+export interface SearchExplanation {
+  breakdown: ScoreBreakdown;
+  /** Query words found in the transcript, photo text, summary, note, tags or people */
+  matchedTerms: string[];
+  /** Places, people, tags and time phrase from the query that this memory has */
+  matchedEntities: ScoreMatches;
+  /** Cosine distance to the query embedding; null when the memory has no embedding */
+  vectorDistance: number | null;
+  /** ts_rank_cd of the lexical channel; null when that channel did not return the memory */
+  lexicalRank: number | null;
+  /** Distance from the location filter's point, when that filter applied */
+  distanceKm?: number;
+}
+
 export interface SearchResult {
   memory: Memory;
   score: number;
+  /** Channels that retrieved this memory: 'vector', 'lexical', 'segment' */
+  matchedChannels: MatchChannel[];
+  /** Voice/video only: the part of the recording closest to the query, to seek the asset to */
+  segment?: SegmentMatch;
+  explanation: SearchExplanation;
 }
 
 export interface RetrievalResult {
   results: SearchResult[];
   query: string;
   filters: SearchFilters;
+  appliedFilters: AppliedFilters;
   totalResults: number;
   searchTimeMs: number;
 }
 
-const CANDIDATE_MULTIPLIER = 8; // fetch 8x limit for re-ranking
+const CANDIDATE_MULTIPLIER = 8; // fetch 8x limit per channel for re-ranking
 
 export class RetrievalService {
   async search(
@@ -53,30 +89,51 @@ export class RetrievalService {
 
     try {
       const queryEmbedding = await embeddingService.generateEmbedding(query);
-      const similar = await memoryEmbeddingRepository.findSimilar(
-        queryEmbedding,
-        candidateLimit,
-        userId
-      );
+      const tsQuery = toOrTsQuery(query);
+      const [similar, lexical, similarSegments, lexicalSegments] = await Promise.all([
+        memoryEmbeddingRepository.findSimilar(queryEmbedding, candidateLimit, userId),
+        tsQuery ? memoryRepository.searchText(tsQuery, candidateLimit, userId) : Promise.resolve([]),
+        memorySegmentRepository.findSimilar(queryEmbedding, candidateLimit, userId),
+        tsQuery ? memorySegmentRepository.searchText(tsQuery, candidateLimit, userId) : Promise.resolve([]),
+      ]);
+      const segmentHits = this.bestSegments(similarSegments, lexicalSegments);
+
+      const appliedFilters = this.appliedFilters(filters);
+      const candidates = reciprocalRankFusion([
+        { channel: 'vector', ids: similar.map((s) => s.memoryId) },
+        { channel: 'lexical', ids: lexical.map((l) => l.memoryId) },
+        { channel: 'segment', ids: Array.from(segmentHits.keys()) },
+      ]);
 
-      if (similar.length === 0) {
+      if (candidates.length === 0) {
         return {
           results: [],
           query,
           filters,
+          appliedFilters,
           totalResults: 0,
           searchTimeMs: Date.now() - startTime,
         };
       }
 
-      const memoryIds = similar.map((s) => s.memoryId);
-      const [memories, contextMap, tagsMap, peopleMap] = await Promise.all([
+      const memoryIds = candidates.map((c) => c.id);
+      const [memories, contextMap, tagsMap, peopleMap, labelsMap, userLabels] = await Promise.all([
         memoryRepository.findByIds(memoryIds, userId),
         memoryContextRepository.findByMemoryIds(memoryIds),
         memoryTagRepository.findByMemoryIds(memoryIds),
         memoryPeopleRepository.findByMemoryIds(memoryIds),
+        memoryLabelRepository.getLabelsByMemoryIds(memoryIds),
+        labelRepository.findByUserId(userId),
       ]);
 
+      // What the query mentions, out of the places/people/tags these candidates actually have
+      const analysis = analyzeQuery(query, {
+        places: Array.from(contextMap.values()).map((c) => c.locationName).filter((n): n is string => !!n),
+        people: Array.from(peopleMap.values()).flat().map((p) => p.personName),
+        tags: Array.from(tagsMap.values()).flat().map((t) => t.tag),
+        labels: userLabels,
+      });
+
       const memoryById = new Map<string, Memory>();
       for (const m of memories) {
         const ctx = contextMap.get(m.id);
@@ -88,47 +145,83 @@ export class RetrievalService {
         });
       }
 
-      let scored: Array<{ memory: Memory; score: number; breakdown: any }> = [];
-      for (let i = 0; i < similar.length; i++) {
-        const { memoryId, distance } = similar[i];
+      const distances = new Map(similar.map((s) => [s.memoryId, s.distance]));
+      const lexicalRanks = new Map(lexical.map((l) => [l.memoryId, l.rank]));
+
+      const scored: SearchResult[] = [];
+      for (const candidate of candidates) {
+        const memoryId = candidate.id;
         const memory = memoryById.get(memoryId);
         if (!memory) continue;
-        if (filters.startDate || filters.endDate) {
-          const capturedAt = new Date(memory.capturedAt);
-          if (filters.startDate && capturedAt < filters.startDate) continue;
-          if (filters.endDate && capturedAt > filters.endDate) continue;
+        const check = this.checkFilters(memory, appliedFilters);
+        if (!check.passed) {
+          appliedFilters.excluded++;
+          continue;
         }
-        if (
-          filters.latitude !== undefined &&
-          filters.longitude !== undefined &&
-          filters.radiusKm !== undefined
-        ) {
-          if (memory.latitude == null || memory.longitude == null) continue;
-          const d = this.calculateDistance(
-            filters.latitude,
-            filters.longitude,
-            memory.latitude,
-            memory.longitude
-          );
-          if (d > filters.radiusKm) continue;
-        }
-        const embeddingSim = Math.max(0, 1 - distance);
+        const context = contextMap.get(memoryId) ?? null;
+        const tags = tagsMap.get(memoryId) ?? [];
+        const people = peopleMap.get(memoryId) ?? [];
         const out = hybridScore({
           memory,
-          embeddingSimilarity: embeddingSim,
-          context: contextMap.get(memoryId) ?? null,
-          tags: tagsMap.get(memoryId) ?? [],
-          people: peopleMap.get(memoryId) ?? [],
+          relevance: candidate.score,
+          context,
+          tags,
+          people,
+          labels: labelsMap.get(memoryId) ?? [],
+          query: analysis,
+        });
+        const segment = segmentHits.get(memoryId);
+        scored.push({
+          memory,
+          score: out.score,
+          matchedChannels: candidate.channels,
+          ...(segment && { segment }),
+          explanation: {
+            breakdown: out.breakdown,
+            matchedTerms: matchedTerms(analysis.terms, [
+              memory.transcript,
+              memory.normalizedTranscript,
+              memory.ocrText,
+              memory.aiSummary,
+              context?.userNote,
+              ...tags.map((t) => t.tag),
+              ...people.map((p) => p.personName),
+            ]),
+            matchedEntities: out.matches,
+            vectorDistance: distances.get(memoryId) ?? null,
+            lexicalRank: lexicalRanks.get(memoryId) ?? null,
+            ...(check.distanceKm !== undefined && { distanceKm: check.distanceKm }),
+          },
         });
-        scored.push({ memory, score: out.score, breakdown: out.breakdown });
       }
 
       scored.sort((a, b) => b.score - a.score);
-      const results: SearchResult[] = scored.slice(0, limit).map(({ memory, score }) => ({ memory, score }));
+      const results = scored.slice(0, limit);
+
+      // Lexical-only hits were never compared to the query embedding, and memory-level hits
+      // still need the moment in their recording
+      const missingDistance = results.filter((r) => r.explanation.vectorDistance === null).map((r) => r.memory.id);
+      const missingSegment = results.filter((r) => !r.segment && this.isTimed(r.memory)).map((r) => r.memory.id);
+      const [foundDistances, foundSegments] = await Promise.all([
+        missingDistance.length > 0
+          ? memoryEmbeddingRepository.findDistances(queryEmbedding, missingDistance, userId)
+          : Promise.resolve(new Map<string, number>()),
+        memorySegmentRepository.findBestMatches(queryEmbedding, missingSegment, userId),
+      ]);
+      for (const r of results) {
+        r.explanation.vectorDistance ??= foundDistances.get(r.memory.id) ?? null;
+        const segment = foundSegments.get(r.memory.id);
+        if (segment) r.segment = segment;
+      }
 
       const searchTimeMs = Date.now() - startTime;
       logger.info('Memory search completed (hybrid)', {
         query,
+        vectorCandidates: similar.length,
+        lexicalCandidates: lexical.length,
+        segmentCandidates: segmentHits.size,
+        entities: { places: analysis.places, people: analysis.people, tags: analysis.tags, temporal: analysis.temporal.type },
+        excludedByFilters: appliedFilters.excluded,
         totalResults: results.length,
         searchTimeMs,
       });
@@ -137,6 +230,7 @@ export class RetrievalService {
         results,
         query,
         filters,
+        appliedFilters,
         totalResults: results.length,
         searchTimeMs,
       };
@@ -146,6 +240,54 @@ export class RetrievalService {
     }
   }
 
+  /**
+   * Segment channel: segment hits by vector and text fused like the memory channels, then
+   * reduced to each memory's best segment. Map order is the channel's memory ranking.
+   */
+  private bestSegments(similar: SegmentMatch[], lexical: SegmentMatch[]): Map<string, SegmentMatch> {
+    const byId = new Map([...lexical, ...similar].map((s) => [s.segmentId, s]));
+    const fused = reciprocalRankFusion([
+      { channel: 'vector', ids: similar.map((s) => s.segmentId) },
+      { channel: 'lexical', ids: lexical.map((s) => s.segmentId) },
+    ]);
+    const best = new Map<string, SegmentMatch>();
+    for (const { id } of fused) {
+      const { segmentId, memoryId, startSeconds, endSeconds, text } = byId.get(id)!;
+      if (!best.has(memoryId)) best.set(memoryId, { segmentId, memoryId, startSeconds, endSeconds, text });
+    }
+    return best;
+  }
+
+  private isTimed(memory: Memory): boolean {
+    return memory.mediaType === MediaType.Audio || memory.mediaType === MediaType.Video;
+  }
+
+  private appliedFilters(filters: SearchFilters): AppliedFilters {
+    const applied: AppliedFilters = { excluded: 0 };
+    if (filters.startDate || filters.endDate) {
+      applied.dateRange = { startDate: filters.startDate, endDate: filters.endDate };
+    }
+    if (filters.latitude !== undefined && filters.longitude !== undefined && filters.radiusKm !== undefined) {
+      applied.location = { latitude: filters.latitude, longitude: filters.longitude, radiusKm: filters.radiusKm };
+    }
+    return applied;
+  }
+
+  private checkFilters(memory: Memory, applied: AppliedFilters): { passed: boolean; distanceKm?: number } {
+    if (applied.dateRange) {
+      const capturedAt = new Date(memory.capturedAt);
+      const { startDate, endDate } = applied.dateRange;
+      if ((startDate && capturedAt < startDate) || (endDate && capturedAt > endDate)) return { passed: false };
+    }
+    if (applied.location) {
+      const { latitude, longitude, radiusKm } = applied.location;
+      if (memory.latitude == null || memory.longitude == null) return { passed: false };
+      const distanceKm = this.calculateDistance(latitude, longitude, memory.latitude, memory.longitude);
+      return { passed: distanceKm <= radiusKm, distanceKm };
+    }
+    return { passed: true };
+  }
+
   private calculateDistance(
     lat1: number,
     lon1: number,
@@ -0,0 +1,31 @@
+/**
+ * Storage Drivers
+ * Selects the driver from config.storageDriver ('local' | 's3')
+ */
+
+import { config } from '../../../config';
+import { StorageDriver } from './types';
+import { LocalDriver } from './localDriver';
+import { S3Driver } from './s3Driver';
+
+export * from './types';
+export * from './localDriver';
+export * from './s3Driver';
+
+export function createStorageDriver(): StorageDriver {
+  switch (config.storageDriver) {
+    case 'local':
+      return new LocalDriver(config.storagePath);
+    case 's3':
+      return new S3Driver({
+        bucket: config.s3Bucket,
+        region: config.s3Region,
+        endpoint: config.s3Endpoint,
+        accessKeyId: config.s3AccessKeyId,
+        secretAccessKey: config.s3SecretAccessKey,
+        forcePathStyle: config.s3ForcePathStyle,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${config.storageDriver}`);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Local Storage Driver
+ * Files under config.storagePath on the local filesystem
+ */
+
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ByteRange, StorageDriver } from './types';
+
+export class LocalDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private root: string) {}
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(this.root, { recursive: true });
+    await fs.mkdir(path.join(this.root, 'voice'), { recursive: true });
+    await fs.mkdir(path.join(this.root, 'image'), { recursive: true });
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const target = this.localPath(key);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.writeFile(target, body);
+    } else {
+      await pipeline(body, createWriteStream(target));
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.localPath(key));
+  }
+
+  async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+    const target = this.localPath(key);
+    // Fail here (not on first read) when the file is missing
+    await fs.access(target);
+    return createReadStream(target, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async size(key: string): Promise<number> {
+    const stats = await fs.stat(this.localPath(key));
+    return stats.size;
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.localPath(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.localPath(key));
+  }
+
+  /**
+   * Keys are relative paths under root; anything that could resolve outside it is rejected
+   */
+  localPath(key: string): string {
+    if (path.isAbsolute(key) || key.split(/[\\/]/).includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path.join(this.root, key);
+  }
+}
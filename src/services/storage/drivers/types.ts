@@ -0,0 +1,38 @@
+/**
+ * Storage Driver Types
+ * Contract every storage backend implements. Keys are relative, '/'-separated
+ * paths such as "voice/<uuid>.m4a" (stored as memories.storage_path).
+ */
+
+import { Readable } from 'stream';
+
+/** Inclusive byte range, as in an HTTP Range header */
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+export interface DownloadUrlOptions {
+  expiresInSeconds: number;
+  contentType?: string;
+  /** Sent as Content-Disposition: attachment; filename="..." */
+  downloadName?: string;
+}
+
+export interface StorageDriver {
+  /** Driver id, e.g. 'local' or 's3' */
+  readonly name: string;
+
+  initialize(): Promise<void>;
+  put(key: string, body: Buffer | Readable, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+  size(key: string): Promise<number>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+
+  /** Presigned GET URL; only for backends clients can download from directly */
+  getDownloadUrl?(key: string, options: DownloadUrlOptions): Promise<string>;
+  /** Filesystem path of the object; only for backends that have one */
+  localPath?(key: string): string;
+}
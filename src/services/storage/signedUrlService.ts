@@ -6,6 +6,15 @@
 import crypto from 'crypto';
 import { config } from '../../config';
 
+export type SignedUploadFileType = 'voice' | 'image' | 'video' | 'text';
+
+const EXTENSION_BY_FILE_TYPE: Record<SignedUploadFileType, string> = {
+  voice: 'm4a',
+  image: 'jpg',
+  video: 'mp4',
+  text: 'txt',
+};
+
 export interface SignedUploadData {
   fileKey: string;
   uploadPath: string;
@@ -18,8 +27,8 @@ export class SignedUrlService {
    * Generate a signed upload path and metadata for a client upload.
    * Client will PUT to /api/upload/signed?fileKey=...&signature=...&expires=...
    */
-  generateUpload(userId: string, fileType: 'voice' | 'image'): SignedUploadData {
-    const fileKey = `${userId}/${Date.now()}-${crypto.randomBytes(8).toString('hex')}.${fileType === 'voice' ? 'm4a' : 'jpg'}`;
+  generateUpload(userId: string, fileType: SignedUploadFileType): SignedUploadData {
+    const fileKey = `${userId}/${Date.now()}-${crypto.randomBytes(8).toString('hex')}.${EXTENSION_BY_FILE_TYPE[fileType]}`;
     const expiresAt = Date.now() + config.signedUrlExpiry * 1000;
     const signature = this.sign(fileKey, expiresAt);
     const uploadPath = `/api/upload/signed`;
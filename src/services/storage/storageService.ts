@@ -1,15 +1,17 @@
 /**
  * Storage Service
- * Phase 2: File storage (local filesystem, S3-ready architecture)
+ * Phase 2: File storage behind a pluggable driver (local filesystem or S3-compatible)
  */
 
-import fs from 'fs/promises';
 import path from 'path';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../../config';
 import { logger } from '../../utils/logger';
 import { StorageError } from '../../utils/errors';
-import { Modality } from '../../types';
+import { Modality, RenditionSize } from '../../types';
+import { MediaSource } from '../ai/providers/types';
+import { ByteRange, StorageDriver, createStorageDriver } from './drivers';
 
 export interface StoredFile {
   path: string;
@@ -19,28 +21,62 @@ export interface StoredFile {
   mimeType: string;
 }
 
+const VOICE_EXTENSIONS = ['.m4a', '.mp3', '.wav', '.webm'];
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v'];
+const TEXT_EXTENSION = '.txt';
+
+/** Modality of an uploaded file from its extension (image unless voice, video or text) */
+export function modalityFromExtension(ext: string): Modality {
+  const normalized = ext.toLowerCase().replace(/^\.?/, '.');
+  if (VOICE_EXTENSIONS.includes(normalized)) return Modality.Voice;
+  if (VIDEO_EXTENSIONS.includes(normalized)) return Modality.Video;
+  if (normalized === TEXT_EXTENSION) return Modality.Text;
+  return Modality.Image;
+}
+
+/** Storage subdirectory per modality (matches the signed upload and import layouts) */
+function subdirFor(modality: Modality): string {
+  switch (modality) {
+    case Modality.Voice: return 'voice';
+    case Modality.Video: return 'video';
+    case Modality.Text: return 'text';
+    default: return 'image';
+  }
+}
+
+/**
+ * Storage path of a rendition, beside its original: image/<id>.jpg → image/<id>.thumb.webp.
+ * Deterministic, so regenerating overwrites instead of leaking files.
+ */
+export function renditionPath(originalPath: string, size: RenditionSize, ext: string): string {
+  const parsed = path.posix.parse(originalPath);
+  return path.posix.join(parsed.dir, `${parsed.name}.${size}.${ext}`);
+}
+
+export interface DownloadUrlRequest {
+  contentType?: string;
+  downloadName?: string;
+}
+
 export class StorageService {
-  private storagePath: string;
-  
-  constructor(storagePath?: string) {
-    this.storagePath = storagePath || config.storagePath;
+  private driver: StorageDriver;
+
+  constructor(driver?: StorageDriver) {
+    this.driver = driver || createStorageDriver();
   }
-  
+
   /**
-   * Initialize storage (create directories)
+   * Initialize storage (create directories / verify bucket access)
    */
   async initialize(): Promise<void> {
     try {
-      await fs.mkdir(this.storagePath, { recursive: true });
-      await fs.mkdir(path.join(this.storagePath, 'voice'), { recursive: true });
-      await fs.mkdir(path.join(this.storagePath, 'image'), { recursive: true });
-      
-      logger.info('Storage initialized', { path: this.storagePath });
+      await this.driver.initialize();
+      logger.info('Storage initialized', { driver: this.driver.name });
     } catch (error) {
       throw new StorageError('Failed to initialize storage', { error });
     }
   }
-  
+
   /**
    * Store an uploaded file
    */
@@ -52,20 +88,17 @@ export class StorageService {
       // Generate unique filename
       const ext = path.extname(file.originalname);
       const filename = `${uuidv4()}${ext}`;
-      const subdir = modality === 'voice' ? 'voice' : 'image';
-      const relativePath = path.join(subdir, filename);
-      const absolutePath = path.join(this.storagePath, relativePath);
-      
-      // Write file
-      await fs.writeFile(absolutePath, file.buffer);
-      
+      const relativePath = path.posix.join(subdirFor(modality), filename);
+
+      await this.driver.put(relativePath, file.buffer, file.mimetype);
+
       logger.info('File stored', {
         filename,
         originalName: file.originalname,
         size: file.size,
         path: relativePath,
       });
-      
+
       return {
         path: relativePath,
         filename,
@@ -77,7 +110,7 @@ export class StorageService {
       throw new StorageError('Failed to store file', { error });
     }
   }
-  
+
   /**
    * Store a file from buffer (e.g. signed upload flow).
    * Uses fileKey for path (userId/timestamp-random.ext); modality from extension.
@@ -88,14 +121,15 @@ export class StorageService {
     mimeType: string
   ): Promise<StoredFile> {
     const ext = path.extname(fileKey).toLowerCase();
-    const voiceExts = ['.m4a', '.mp4', '.mp3', '.wav', '.webm'];
-    const subdir = voiceExts.includes(ext) ? 'voice' : 'image';
+    const subdir = subdirFor(modalityFromExtension(ext));
     const basename = path.basename(fileKey) || `upload-${Date.now()}${ext}`;
-    const relativePath = path.join(subdir, basename);
-    const absolutePath = path.join(this.storagePath, relativePath);
+    const relativePath = path.posix.join(subdir, basename);
 
-    await fs.mkdir(path.dirname(absolutePath), { recursive: true });
-    await fs.writeFile(absolutePath, buffer);
+    try {
+      await this.driver.put(relativePath, buffer, mimeType);
+    } catch (error) {
+      throw new StorageError('Failed to store file', { error });
+    }
 
     logger.info('File stored from buffer', {
       path: relativePath,
@@ -111,48 +145,147 @@ export class StorageService {
     };
   }
 
+  /**
+   * Store a typed note as a UTF-8 .txt asset
+   */
+  async storeText(text: string): Promise<StoredFile> {
+    const filename = `${uuidv4()}${TEXT_EXTENSION}`;
+    const relativePath = path.posix.join(subdirFor(Modality.Text), filename);
+    const buffer = Buffer.from(text, 'utf8');
+    try {
+      await this.driver.put(relativePath, buffer, 'text/plain; charset=utf-8');
+    } catch (error) {
+      throw new StorageError('Failed to store text', { error });
+    }
+
+    logger.info('Text stored', { path: relativePath, size: buffer.length });
+
+    return {
+      path: relativePath,
+      filename,
+      originalName: filename,
+      size: buffer.length,
+      mimeType: 'text/plain',
+    };
+  }
+
+  /**
+   * Store a rendition (thumbnail/preview) of an original beside it
+   */
+  async storeRendition(
+    originalPath: string,
+    size: RenditionSize,
+    image: Buffer,
+    format: { ext: string; mimeType: string }
+  ): Promise<string> {
+    const relativePath = renditionPath(originalPath, size, format.ext);
+    try {
+      await this.driver.put(relativePath, image, format.mimeType);
+    } catch (error) {
+      throw new StorageError(`Failed to store rendition: ${relativePath}`, { error });
+    }
+    return relativePath;
+  }
+
   /**
    * Read a file from storage
    */
   async readFile(relativePath: string): Promise<Buffer> {
     try {
-      const absolutePath = path.join(this.storagePath, relativePath);
-      return await fs.readFile(absolutePath);
+      return await this.driver.get(relativePath);
     } catch (error) {
       throw new StorageError(`Failed to read file: ${relativePath}`, { error });
     }
   }
-  
+
+  /**
+   * Open a read stream for a stored file (large assets, export archives), optionally a byte range
+   */
+  async openReadStream(relativePath: string, range?: ByteRange): Promise<Readable> {
+    try {
+      return await this.driver.createReadStream(relativePath, range);
+    } catch (error) {
+      throw new StorageError(`Failed to open file: ${relativePath}`, { error });
+    }
+  }
+
+  /**
+   * Write a stream to a storage path. Resolves once the object is fully stored.
+   */
+  async writeStream(relativePath: string, source: Readable, contentType?: string): Promise<void> {
+    try {
+      await this.driver.put(relativePath, source, contentType);
+    } catch (error) {
+      throw new StorageError(`Failed to write file: ${relativePath}`, { error });
+    }
+  }
+
+  /**
+   * Stored file as a media source for the AI services (re-openable per retry)
+   */
+  mediaSource(relativePath: string): MediaSource {
+    return {
+      filename: path.posix.basename(relativePath),
+      open: () => this.openReadStream(relativePath),
+    };
+  }
+
+  /**
+   * Size of a stored file in bytes
+   */
+  async getFileSize(relativePath: string): Promise<number> {
+    try {
+      return await this.driver.size(relativePath);
+    } catch (error) {
+      throw new StorageError(`Failed to stat file: ${relativePath}`, { error });
+    }
+  }
+
   /**
    * Delete a file from storage
    */
   async deleteFile(relativePath: string): Promise<void> {
     try {
-      const absolutePath = path.join(this.storagePath, relativePath);
-      await fs.unlink(absolutePath);
-      
+      await this.driver.delete(relativePath);
+
       logger.info('File deleted', { path: relativePath });
     } catch (error) {
       logger.warn('Failed to delete file', { path: relativePath, error });
       // Don't throw - deletion failure shouldn't break the flow
     }
   }
-  
+
+  /**
+   * Presigned download URL, or null when the backend can't serve files directly
+   * (the caller streams the file itself)
+   */
+  async getDownloadUrl(relativePath: string, request: DownloadUrlRequest = {}): Promise<string | null> {
+    if (!this.driver.getDownloadUrl) {
+      return null;
+    }
+    try {
+      return await this.driver.getDownloadUrl(relativePath, {
+        expiresInSeconds: config.storagePresignExpiresSeconds,
+        ...request,
+      });
+    } catch (error) {
+      throw new StorageError(`Failed to presign file: ${relativePath}`, { error });
+    }
+  }
+
   /**
-   * Get absolute path for a file
+   * Filesystem path of a stored file, or null for remote backends
    */
-  getAbsolutePath(relativePath: string): string {
-    return path.join(this.storagePath, relativePath);
+  getLocalPath(relativePath: string): string | null {
+    return this.driver.localPath ? this.driver.localPath(relativePath) : null;
   }
-  
+
   /**
    * Check if file exists
    */
   async fileExists(relativePath: string): Promise<boolean> {
     try {
-      const absolutePath = path.join(this.storagePath, relativePath);
-      await fs.access(absolutePath);
-      return true;
+      return await this.driver.exists(relativePath);
     } catch {
       return false;
     }
@@ -10,6 +10,8 @@
 export enum Modality {
   Voice = 'voice',
   Image = 'image',
+  Text = 'text',
+  Video = 'video',
 }
 
 export enum ProcessingStatus {
@@ -30,8 +32,29 @@ export enum MemorySourceEnum {
 export enum MediaType {
   Photo = 'photo',
   Audio = 'audio',
+  Text = 'text', // Typed note, stored as a .txt asset
+  Video = 'video', // Clip; transcript merges keyframe captions and speech
 }
 
+/** Resized copies of a photo, generated by the pipeline */
+export enum RenditionSize {
+  Thumb = 'thumb', // Fixed square for list cells
+  Preview = 'preview', // Bounded longest edge for detail views
+}
+
+/** Storage path per generated rendition */
+export type MemoryRenditions = Partial<Record<RenditionSize, string>>;
+
+/** Media type stored for an uploaded modality */
+export const mediaTypeForModality = (modality: Modality): MediaType => {
+  switch (modality) {
+    case Modality.Voice: return MediaType.Audio;
+    case Modality.Text: return MediaType.Text;
+    case Modality.Video: return MediaType.Video;
+    default: return MediaType.Photo;
+  }
+};
+
 /** Origin of a tag (AI-inferred or user-set) */
 export enum TagOrigin {
   AI = 'ai',
@@ -55,8 +78,24 @@ export interface Memory {
   mediaType: MediaType;
   storagePath: string;
   transcript?: string | null;
+  /** transcript cleaned up by the normalization step (filler words, false starts) */
+  normalizedTranscript?: string;
+  /** Chat model that wrote normalizedTranscript; absent when the text was kept as-is */
+  normalizationModel?: string;
+  /** Machine transcript, kept once the user has edited transcript */
+  originalTranscript?: string;
+  /** Latest user edit (transcript or capturedAt) */
+  editedAt?: Date;
+  /** Photos only, once the pipeline has generated them */
+  renditions?: MemoryRenditions;
+  /** Photos only: literal text read from the image (signs, receipts), apart from the caption */
+  ocrText?: string;
+  /** Short title from the summarization step */
+  aiTitle?: string;
   aiSummary?: string | null;
   processingStatus: ProcessingStatus;
+  /** Set while the memory is in the trash */
+  deletedAt?: Date;
   // Resolved from memory_context when loaded with context (for event clustering, etc.)
   latitude?: number;
   longitude?: number;
@@ -85,6 +124,47 @@ export interface UpdateMemoryInput {
   transcript?: string | null;
   aiSummary?: string | null;
   processingStatus?: ProcessingStatus;
+  renditions?: MemoryRenditions;
+  ocrText?: string | null;
+  aiTitle?: string | null;
+  normalizedTranscript?: string | null;
+  normalizationModel?: string | null;
+}
+
+/**
+ * User edit to a processed memory (PATCH /api/memories/:id)
+ */
+export interface EditMemoryInput {
+  transcript?: string;
+  capturedAt?: Date;
+}
+
+/**
+ * Filters for listing memories (GET /api/memories); all combine with AND
+ */
+export interface MemoryListFilters {
+  from?: Date;
+  to?: Date;
+  mediaType?: MediaType;
+  processingStatus?: ProcessingStatus;
+  labelId?: string;
+  /** Person name, case-insensitive exact match */
+  person?: string;
+  /** Tag, case-insensitive exact match */
+  tag?: string;
+  /** Substring of the location name, case-insensitive */
+  place?: string;
+}
+
+/**
+ * One page of a keyset-paginated listing
+ */
+export interface Page<T> {
+  items: T[];
+  /** Opaque cursor for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Rows matching the filters across all pages, when requested */
+  total?: number;
 }
 
 // ============================================================================
@@ -98,6 +178,11 @@ export interface MemoryContext {
   latitude?: number | null;
   longitude?: number | null;
   confirmed: boolean;
+  // From photo EXIF (migration 017)
+  altitude?: number;
+  orientation?: number;
+  cameraMake?: string;
+  cameraModel?: string;
 }
 
 export interface CreateMemoryContextInput {
@@ -109,6 +194,21 @@ export interface CreateMemoryContextInput {
   confirmed?: boolean;
 }
 
+/**
+ * Photo EXIF for memory_context. Location only fills a context without one; camera fields
+ * always reflect the file.
+ */
+export interface CaptureMetadataInput {
+  memoryId: string;
+  latitude?: number;
+  longitude?: number;
+  locationName?: string;
+  altitude?: number;
+  orientation?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+}
+
 export interface UpdateMemoryContextInput {
   userNote?: string | null;
   locationName?: string | null;
@@ -209,6 +309,44 @@ export interface CreateMemoryEmbeddingInput {
   modelVersion?: string; // Defaults to 'text-embedding-3-large'
 }
 
+// ============================================================================
+// MEMORY SEGMENTS
+// ============================================================================
+
+/**
+ * A timed stretch of a memory's recording (Whisper segment or video timeline line).
+ * Offsets are seconds from the start of the asset, so clients can seek to them.
+ */
+export interface MemorySegment {
+  id: string; // UUID
+  memoryId: string; // UUID FK
+  seq: number; // 0-based, in time order
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+/**
+ * Input for storing a memory's segments (embedding computed by the pipeline)
+ */
+export interface CreateMemorySegmentInput {
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+  embedding: number[];
+}
+
+/**
+ * Segment that matched a query, returned with search and ask results
+ */
+export interface SegmentMatch {
+  segmentId: string;
+  memoryId: string;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
 // ============================================================================
 // RETRIEVAL LOG
 // ============================================================================
@@ -276,8 +414,16 @@ export interface MemoryRow {
   media_type: string;
   storage_path: string;
   transcript: string | null;
+  normalized_transcript?: string | null;
+  normalization_model?: string | null;
+  original_transcript?: string | null;
+  edited_at?: Date | null;
+  renditions?: MemoryRenditions | null;
+  ocr_text?: string | null;
+  ai_title?: string | null;
   ai_summary: string | null;
   processing_status: string;
+  deleted_at?: Date | null;
 }
 
 /**
@@ -290,6 +436,10 @@ export interface MemoryContextRow {
   latitude: number | null;
   longitude: number | null;
   confirmed: boolean;
+  altitude?: number | null;
+  orientation?: number | null;
+  camera_make?: string | null;
+  camera_model?: string | null;
 }
 
 /**
@@ -325,6 +475,18 @@ export interface MemoryEmbeddingRow {
   created_at: Date;
 }
 
+/**
+ * Raw database row from memory_segments table (embedding and search_vector not selected)
+ */
+export interface MemorySegmentRow {
+  id: string;
+  memory_id: string;
+  seq: number;
+  start_seconds: number;
+  end_seconds: number;
+  text: string;
+}
+
 /**
  * Raw database row from retrieval_logs table
  */
@@ -364,8 +526,16 @@ export const mapMemoryRow = (row: MemoryRow): Memory => ({
   mediaType: row.media_type as MediaType,
   storagePath: row.storage_path,
   transcript: row.transcript ?? undefined,
+  ...(row.normalized_transcript != null && { normalizedTranscript: row.normalized_transcript }),
+  ...(row.normalization_model && { normalizationModel: row.normalization_model }),
+  ...(row.original_transcript != null && { originalTranscript: row.original_transcript }),
+  ...(row.edited_at && { editedAt: row.edited_at }),
+  ...(row.renditions && Object.keys(row.renditions).length > 0 && { renditions: row.renditions }),
+  ...(row.ocr_text && { ocrText: row.ocr_text }),
+  ...(row.ai_title && { aiTitle: row.ai_title }),
   aiSummary: row.ai_summary ?? undefined,
   processingStatus: row.processing_status as ProcessingStatus,
+  ...(row.deleted_at && { deletedAt: row.deleted_at }),
 });
 
 /**
@@ -378,6 +548,10 @@ export const mapMemoryContextRow = (row: MemoryContextRow): MemoryContext => ({
   latitude: row.latitude ?? undefined,
   longitude: row.longitude ?? undefined,
   confirmed: row.confirmed,
+  ...(row.altitude != null && { altitude: row.altitude }),
+  ...(row.orientation != null && { orientation: row.orientation }),
+  ...(row.camera_make && { cameraMake: row.camera_make }),
+  ...(row.camera_model && { cameraModel: row.camera_model }),
 });
 
 /**
@@ -413,6 +587,18 @@ export const mapMemoryEmbeddingRow = (row: MemoryEmbeddingRow): MemoryEmbedding
   createdAt: row.created_at,
 });
 
+/**
+ * Convert database row to MemorySegment domain object
+ */
+export const mapMemorySegmentRow = (row: MemorySegmentRow): MemorySegment => ({
+  id: row.id,
+  memoryId: row.memory_id,
+  seq: row.seq,
+  startSeconds: Number(row.start_seconds),
+  endSeconds: Number(row.end_seconds),
+  text: row.text,
+});
+
 /**
  * Convert database row to RetrievalLog domain object
  */
@@ -469,6 +655,8 @@ export interface Event {
   confidenceScore: number; // 0-1
   createdAt: Date;
   updatedAt: Date;
+  /** Set while the event is in the trash */
+  deletedAt?: Date;
 }
 
 /**
@@ -500,6 +688,16 @@ export interface UpdateEventInput {
   confidenceScore?: number;
 }
 
+/**
+ * Filters for listing events (GET /api/events)
+ */
+export interface EventListFilters {
+  /** Events ending at or after this time */
+  from?: Date;
+  /** Events starting at or before this time */
+  to?: Date;
+}
+
 // ============================================================================
 // MEMORY EVENT LINK
 // ============================================================================
@@ -568,6 +766,7 @@ export interface EventRow {
   confidence_score: number;
   created_at: Date;
   updated_at: Date;
+  deleted_at?: Date | null;
 }
 
 /**
@@ -611,6 +810,7 @@ export const mapEventRow = (row: EventRow): Event => ({
   confidenceScore: row.confidence_score,
   createdAt: row.created_at,
   updatedAt: row.updated_at,
+  ...(row.deleted_at && { deletedAt: row.deleted_at }),
 });
 
 /**
@@ -634,6 +834,236 @@ export const mapEventEmbeddingRow = (row: EventEmbeddingRow): EventEmbedding =>
   createdAt: row.created_at,
 });
 
+// ============================================================================
+// JOB QUEUE DOMAIN MODEL
+// ============================================================================
+
+/**
+ * Kind of background work a job performs
+ */
+export enum JobType {
+  ProcessMemory = 'process_memory', // Extract, normalize, embed a pending memory
+  FormEvent = 'form_event',         // Cluster a processed memory into an event
+  InferContext = 'infer_context',   // Suggest place/people/tags from similar memories
+  ExportAccount = 'export_account', // Build a downloadable account export archive
+  PurgeTrash = 'purge_trash',       // Delete trash older than the retention window; reschedules itself
+  ReindexMemory = 'reindex_memory', // Re-embed a memory after its note/tags/people/labels/place changed
+  PurgeExports = 'purge_exports',   // Delete export archives older than the retention window; reschedules itself
+  GenerateRenditions = 'generate_renditions', // Thumbnail and preview for a processed photo without them (account import)
+}
+
+/**
+ * Lifecycle of a job. Failed attempts go back to 'queued' with a later run_at;
+ * 'dead' is the dead-letter state once max_attempts is exhausted.
+ */
+export enum JobStatus {
+  Queued = 'queued',
+  Running = 'running',
+  Completed = 'completed',
+  Dead = 'dead',
+}
+
+/**
+ * Durable unit of background work, claimed by a worker under a lease
+ */
+export interface Job {
+  id: string; // UUID
+  type: JobType;
+  userId?: string;
+  memoryId?: string;
+  payload: Record<string, any>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;        // Not visible to workers before this time (backoff)
+  lockedBy?: string;  // Worker holding the lease
+  lockedUntil?: Date; // Lease expiry (visibility timeout)
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Input for enqueueing a job
+ */
+export interface CreateJobInput {
+  type: JobType;
+  userId?: string;
+  memoryId?: string;
+  payload?: Record<string, any>;
+  maxAttempts: number;
+  runAt?: Date;
+}
+
+/**
+ * Raw database row from jobs table
+ */
+export interface JobRow {
+  id: string;
+  type: string;
+  user_id: string | null;
+  memory_id: string | null;
+  payload: any;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Convert database row to Job domain object
+ */
+export const mapJobRow = (row: JobRow): Job => ({
+  id: row.id,
+  type: row.type as JobType,
+  userId: row.user_id ?? undefined,
+  memoryId: row.memory_id ?? undefined,
+  payload: row.payload || {},
+  status: row.status as JobStatus,
+  attempts: row.attempts,
+  maxAttempts: row.max_attempts,
+  runAt: row.run_at,
+  lockedBy: row.locked_by ?? undefined,
+  lockedUntil: row.locked_until ?? undefined,
+  lastError: row.last_error ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at ?? undefined,
+});
+
+// ============================================================================
+// ACCOUNT EXPORTS
+// ============================================================================
+
+export enum ExportStatus {
+  Pending = 'pending',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+}
+
+/**
+ * A background-built export archive, downloadable once completed
+ */
+export interface AccountExport {
+  id: string; // UUID
+  userId: string;
+  status: ExportStatus;
+  storagePath?: string; // Relative to storage root
+  sizeBytes?: number;
+  manifest?: Record<string, any>;
+  lastError?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Raw database row from account_exports table
+ */
+export interface AccountExportRow {
+  id: string;
+  user_id: string;
+  status: string;
+  storage_path: string | null;
+  size_bytes: string | null; // BIGINT arrives as string
+  manifest: any;
+  last_error: string | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+/**
+ * Convert database row to AccountExport domain object
+ */
+export const mapAccountExportRow = (row: AccountExportRow): AccountExport => ({
+  id: row.id,
+  userId: row.user_id,
+  status: row.status as ExportStatus,
+  storagePath: row.storage_path ?? undefined,
+  sizeBytes: row.size_bytes != null ? Number(row.size_bytes) : undefined,
+  manifest: row.manifest ?? undefined,
+  lastError: row.last_error ?? undefined,
+  createdAt: row.created_at,
+  completedAt: row.completed_at ?? undefined,
+});
+
+// ============================================================================
+// PIPELINE STAGES
+// ============================================================================
+
+/**
+ * Steps of the memory pipeline, in run order. Photos run every stage; other media skip
+ * renditions and ocr.
+ */
+export enum PipelineStage {
+  Metadata = 'metadata',     // Upload location, EXIF (photos)
+  Renditions = 'renditions', // Thumbnail and preview (photos)
+  Ocr = 'ocr',               // Text in the image (photos)
+  Extract = 'extract',       // Transcribe, caption or read the text note
+  Normalize = 'normalize',
+  Summarize = 'summarize',
+  Embed = 'embed',           // Embeddings, stored with the completed memory
+}
+
+export enum StageStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+}
+
+/**
+ * Checkpoint of one pipeline stage for a memory (latest attempt)
+ */
+export interface MemoryProcessingStage {
+  memoryId: string;
+  stage: PipelineStage;
+  status: StageStatus;
+  attempts: number;
+  lastError?: string;
+  /** What the stage produced, until the memory completes */
+  output?: any;
+  startedAt: Date;
+  completedAt?: Date;
+  durationMs?: number;
+}
+
+/**
+ * Raw database row from memory_processing_stages table
+ */
+export interface MemoryProcessingStageRow {
+  memory_id: string;
+  stage: string;
+  status: string;
+  attempts: number;
+  last_error: string | null;
+  output: any;
+  started_at: Date;
+  completed_at: Date | null;
+  duration_ms: number | null;
+}
+
+/**
+ * Convert database row to MemoryProcessingStage domain object
+ */
+export const mapMemoryProcessingStageRow = (row: MemoryProcessingStageRow): MemoryProcessingStage => ({
+  memoryId: row.memory_id,
+  stage: row.stage as PipelineStage,
+  status: row.status as StageStatus,
+  attempts: row.attempts,
+  lastError: row.last_error ?? undefined,
+  output: row.output ?? undefined,
+  startedAt: row.started_at,
+  completedAt: row.completed_at ?? undefined,
+  durationMs: row.duration_ms ?? undefined,
+});
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
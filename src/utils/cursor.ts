@@ -0,0 +1,84 @@
+/**
+ * Opaque keyset cursors for paginated listings
+ * A cursor holds the sort key and id of the last row on a page; the next page continues
+ * strictly after that (key, id) pair, so inserts and deletes never shift or repeat rows.
+ */
+
+import { ValidationError } from './errors';
+
+/** Listing a cursor belongs to; a memories cursor is rejected on /api/events */
+export type CursorKind = 'memories' | 'events';
+
+export interface Cursor {
+  /** Timestamp sort key, UTC ISO 8601 with microseconds (Postgres precision) */
+  key: string;
+  id: string;
+}
+
+export interface PageQuery {
+  limit: number;
+  cursor?: Cursor;
+  includeTotal: boolean;
+}
+
+const KEY_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/;
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** SQL expression rendering a timestamptz column as a cursor key */
+export function cursorKeySql(column: string): string {
+  return `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+}
+
+export function encodeCursor(kind: CursorKind, cursor: Cursor): string {
+  return Buffer.from(JSON.stringify({ k: kind, t: cursor.key, i: cursor.id })).toString('base64url');
+}
+
+export function decodeCursor(kind: CursorKind, value: string): Cursor {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid cursor');
+  }
+  if (
+    !parsed ||
+    parsed.k !== kind ||
+    typeof parsed.t !== 'string' ||
+    !KEY_REGEX.test(parsed.t) ||
+    typeof parsed.i !== 'string' ||
+    !UUID_REGEX.test(parsed.i)
+  ) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return { key: parsed.t, id: parsed.i };
+}
+
+/**
+ * Parse ?limit, ?cursor and ?includeTotal from a query string
+ */
+export function parsePageQuery(
+  query: Record<string, unknown>,
+  kind: CursorKind,
+  defaultLimit: number = 20,
+  maxLimit: number = 100
+): PageQuery {
+  const limit = query.limit !== undefined ? parseInt(String(query.limit), 10) : defaultLimit;
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    throw new ValidationError(`Limit must be between 1 and ${maxLimit}`);
+  }
+  return {
+    limit,
+    cursor: typeof query.cursor === 'string' && query.cursor ? decodeCursor(kind, query.cursor) : undefined,
+    includeTotal: query.includeTotal === 'true' || query.includeTotal === '1',
+  };
+}
+
+/**
+ * Parse an optional ISO date query parameter
+ */
+export function parseDateQuery(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) throw new ValidationError(`${field} must be a valid date`);
+  return date;
+}
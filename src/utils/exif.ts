@@ -1,25 +1,73 @@
 /**
- * EXIF extraction for images (captured_at from DateTimeOriginal or CreateDate)
+ * EXIF extraction for images: capture date (DateTimeOriginal or CreateDate), GPS position and
+ * altitude, orientation and camera make/model
  */
 
 import exifr from 'exifr';
 import { logger } from './logger';
 
+export interface ExifMetadata {
+  capturedAt?: Date;
+  latitude?: number;
+  longitude?: number;
+  /** Meters; negative below sea level */
+  altitude?: number;
+  /** EXIF orientation 1-8 (1 = upright) */
+  orientation?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+}
+
+const TAGS = [
+  'DateTimeOriginal', 'CreateDate',
+  'GPSLatitude', 'GPSLatitudeRef', 'GPSLongitude', 'GPSLongitudeRef', 'GPSAltitude', 'GPSAltitudeRef',
+  'Orientation', 'Make', 'Model',
+];
+
+function toDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const d = value instanceof Date ? value : new Date(value as string);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
 /**
- * Read capture date from image file. Prefers DateTimeOriginal, then CreateDate.
- * Returns null if no date found or on error.
+ * Read capture metadata from image bytes. Missing or unreadable fields are left out;
+ * returns {} if the image has no EXIF or on error.
  */
-export async function getCaptureDateFromExif(imagePath: string): Promise<Date | null> {
+export async function readExifMetadata(image: Buffer): Promise<ExifMetadata> {
   try {
-    const tags = await exifr.parse(imagePath, ['DateTimeOriginal', 'CreateDate']);
-    if (!tags) return null;
-    const date = tags.DateTimeOriginal ?? tags.CreateDate;
-    if (!date) return null;
-    const d = date instanceof Date ? date : new Date(date);
-    if (Number.isNaN(d.getTime())) return null;
-    return d;
+    // translateValues: false keeps Orientation numeric; exifr adds decimal latitude/longitude
+    const tags = await exifr.parse(image, { pick: TAGS, translateValues: false });
+    if (!tags) return {};
+
+    const metadata: ExifMetadata = {};
+    const capturedAt = toDate(tags.DateTimeOriginal) ?? toDate(tags.CreateDate);
+    if (capturedAt) metadata.capturedAt = capturedAt;
+
+    // (0, 0) is what some cameras write without a fix
+    if (Number.isFinite(tags.latitude) && Number.isFinite(tags.longitude)
+      && !(tags.latitude === 0 && tags.longitude === 0)) {
+      metadata.latitude = tags.latitude;
+      metadata.longitude = tags.longitude;
+    }
+    if (Number.isFinite(tags.GPSAltitude)) {
+      const ref = typeof tags.GPSAltitudeRef === 'number' ? tags.GPSAltitudeRef : tags.GPSAltitudeRef?.[0];
+      metadata.altitude = ref === 1 ? -tags.GPSAltitude : tags.GPSAltitude;
+    }
+    if (Number.isInteger(tags.Orientation) && tags.Orientation >= 1 && tags.Orientation <= 8) {
+      metadata.orientation = tags.Orientation;
+    }
+    const cameraMake = toText(tags.Make);
+    const cameraModel = toText(tags.Model);
+    if (cameraMake) metadata.cameraMake = cameraMake;
+    if (cameraModel) metadata.cameraModel = cameraModel;
+    return metadata;
   } catch (err) {
-    logger.debug('EXIF read failed (non-fatal)', { imagePath, error: err });
-    return null;
+    logger.debug('EXIF read failed (non-fatal)', { error: err });
+    return {};
   }
 }
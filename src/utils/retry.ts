@@ -11,6 +11,13 @@ export interface RetryOptions {
   onRetry?: (attempt: number, error: Error) => void;
 }
 
+/**
+ * Exponential backoff delay for a zero-based attempt number
+ */
+export function getBackoffDelay(attempt: number, backoffMs: number): number {
+  return backoffMs * Math.pow(2, attempt);
+}
+
 /**
  * Retry a function with exponential backoff
  */
@@ -29,7 +36,7 @@ export async function withRetry<T>(
       lastError = error instanceof Error ? error : new Error(String(error));
       
       if (attempt < maxRetries - 1) {
-        const delay = backoffMs * Math.pow(2, attempt);
+        const delay = getBackoffDelay(attempt, backoffMs);
         
         logger.warn('Retry attempt', {
           attempt: attempt + 1,
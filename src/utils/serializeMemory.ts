@@ -3,8 +3,34 @@
  */
 
 import { Memory } from '../types';
+import { ValidationError } from './errors';
 
-export function serializeMemory(m: Memory): Record<string, unknown> {
+/**
+ * Which transcript a response carries (?transcript=): the raw text, the normalized text in
+ * its place (raw when there is none yet), or both side by side
+ */
+export type TranscriptVariant = 'raw' | 'normalized' | 'both';
+
+const TRANSCRIPT_VARIANTS: readonly TranscriptVariant[] = ['raw', 'normalized', 'both'];
+
+export interface SerializeMemoryOptions {
+  /** Defaults to 'raw' */
+  transcript?: TranscriptVariant;
+}
+
+/**
+ * Parse the optional ?transcript query parameter
+ */
+export function parseTranscriptVariant(value: unknown): TranscriptVariant {
+  if (value === undefined || value === '') return 'raw';
+  if (!TRANSCRIPT_VARIANTS.includes(value as TranscriptVariant)) {
+    throw new ValidationError(`transcript must be one of: ${TRANSCRIPT_VARIANTS.join(', ')}`);
+  }
+  return value as TranscriptVariant;
+}
+
+export function serializeMemory(m: Memory, options: SerializeMemoryOptions = {}): Record<string, unknown> {
+  const variant = options.transcript ?? 'raw';
   return {
     id: m.id,
     userId: m.userId ?? undefined,
@@ -13,11 +39,18 @@ export function serializeMemory(m: Memory): Record<string, unknown> {
     source: m.source,
     mediaType: m.mediaType,
     storagePath: m.storagePath,
-    transcript: m.transcript ?? undefined,
+    transcript: (variant === 'normalized' ? m.normalizedTranscript ?? m.transcript : m.transcript) ?? undefined,
+    ...(variant === 'both' && { normalizedTranscript: m.normalizedTranscript }),
+    ...(variant !== 'raw' && { normalizationModel: m.normalizationModel }),
+    ocrText: m.ocrText,
+    originalTranscript: m.originalTranscript,
+    editedAt: m.editedAt instanceof Date ? m.editedAt.toISOString() : m.editedAt,
+    aiTitle: m.aiTitle,
     aiSummary: m.aiSummary ?? undefined,
     processingStatus: m.processingStatus,
     latitude: m.latitude ?? undefined,
     longitude: m.longitude ?? undefined,
     locationName: m.locationName ?? undefined,
+    deletedAt: m.deletedAt instanceof Date ? m.deletedAt.toISOString() : m.deletedAt,
   };
 }
@@ -0,0 +1,21 @@
+/**
+ * Text memory validation: a typed note must be non-empty UTF-8 within config.maxTextMemoryLength.
+ */
+
+import { config } from '../config';
+import { ValidationError } from './errors';
+
+/**
+ * Validate and trim a typed note, from a JSON field or an uploaded .txt file
+ */
+export function parseTextMemory(value: unknown): string {
+  const raw = Buffer.isBuffer(value) ? value.toString('utf8') : value;
+  if (typeof raw !== 'string' || raw.trim().length === 0) {
+    throw new ValidationError('text must be a non-empty string');
+  }
+  const text = raw.trim();
+  if (text.length > config.maxTextMemoryLength) {
+    throw new ValidationError(`text must be ${config.maxTextMemoryLength} characters or fewer`);
+  }
+  return text;
+}
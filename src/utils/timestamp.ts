@@ -0,0 +1,8 @@
+/**
+ * m:ss offsets into a recording, for transcripts and answer evidence
+ */
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}